@@ -1,4 +1,5 @@
 // src/App.tsx
+import { useEffect } from "react";
 import {
   Routes,
   Route,
@@ -6,6 +7,7 @@ import {
   Navigate,
   useNavigate,
 } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 
 import LoginPage from "./pages/LoginPage";
 import UnitsPage from "./pages/UnitsPage";
@@ -15,20 +17,48 @@ import TesterUpcomingPage from "./pages/TesterUpcomingPage";
 import UploadResultPage from "./pages/UploadResultPage";
 import SchedulerPage from "./pages/SchedulerPage";
 import MatrixViewPage from "./pages/MatrixViewPage";
+import NotificationsPage from "./pages/NotificationsPage";
+import StepCatalogPage from "./pages/StepCatalogPage";
+import NotificationBell from "./components/NotificationBell";
+import LiveStatusIndicator from "./components/LiveStatusIndicator";
+import RequirePermission from "./components/RequirePermission";
 
-import { getRole, getUser, setToken, setRole, setUser } from "./api";
+import {
+  getUser,
+  hasSession,
+  logout as apiLogout,
+  setSessionExpiredHandler,
+} from "./api";
+import { useLiveUpdates, useOutboxSync, usePermissions } from "./hooks";
+import { clearPersistedCache } from "./offline";
 
 import "./styles.css";
 
 function App() {
-  const role = getRole();
-  const user = getUser();
   const navigate = useNavigate();
+  const qc = useQueryClient();
+
+  // Role comes from the server, not from whatever is cached in localStorage
+  const { role, can } = usePermissions();
+  const user = getUser();
 
-  const logout = () => {
-    setToken(null);
-    setRole(null);
-    setUser(null);
+  // Server push replaces polling while connected
+  useLiveUpdates(!!role);
+  useOutboxSync(user && can("queue:work") ? user.name : null);
+
+  useEffect(() => {
+    setSessionExpiredHandler((returnTo) => {
+      qc.clear();
+      clearPersistedCache();
+      const params = new URLSearchParams({ expired: "1", next: returnTo });
+      navigate(`/login?${params.toString()}`, { replace: true });
+    });
+  }, [navigate, qc]);
+
+  const logout = async () => {
+    await apiLogout();
+    qc.clear();
+    clearPersistedCache();
     navigate("/login");
   };
 
@@ -55,7 +85,7 @@ function App() {
               </NavLink>
 
               {/* Tester-only menu items */}
-              {role === "tester" && (
+              {can("queue:work") && (
                 <>
                   <NavLink to="/tester" end className={navItemClass}>
                     Today&apos;s Queue
@@ -64,24 +94,42 @@ function App() {
                   <NavLink to="/tester/upcoming" className={navItemClass}>
                     Upcoming Tests
                   </NavLink>
+
+                  <NavLink to="/notifications" className={navItemClass}>
+                    Notifications
+                  </NavLink>
                 </>
               )}
 
               {/* Shared items */}
-              <NavLink to="/upload" className={navItemClass}>
-                Upload Result
-              </NavLink>
+              {can("results:submit") && (
+                <NavLink to="/upload" className={navItemClass}>
+                  Upload Result
+                </NavLink>
+              )}
 
               <NavLink to="/matrix" className={navItemClass}>
                 Matrix View
               </NavLink>
 
               {/* Supervisor-only */}
-              {role === "supervisor" && (
+              {can("queue:dispatch") && (
+                <NavLink to="/tester" end className={navItemClass}>
+                  Today&apos;s Queue
+                </NavLink>
+              )}
+
+              {can("schedule:edit") && (
                 <NavLink to="/scheduler" className={navItemClass}>
                   Scheduler
                 </NavLink>
               )}
+
+              {can("steps:manage") && (
+                <NavLink to="/steps" className={navItemClass}>
+                  Step Catalog
+                </NavLink>
+              )}
             </nav>
           </>
         )}
@@ -101,6 +149,8 @@ function App() {
         >
           {user && (
             <>
+              <LiveStatusIndicator />
+              {can("queue:work") && <NotificationBell testerId={user.name} />}
               <span
                 style={{
                   fontSize: 13,
@@ -123,17 +173,82 @@ function App() {
         <div className="page">
           <Routes>
             <Route path="/login" element={<LoginPage />} />
-            <Route path="/units" element={<UnitsPage />} />
-            <Route path="/units/:unitId" element={<UnitDetailPage />} />
-            <Route path="/tester" element={<TesterQueuePage />} />
-            <Route path="/tester/upcoming" element={<TesterUpcomingPage />} />
-            <Route path="/upload" element={<UploadResultPage />} />
-            <Route path="/matrix" element={<MatrixViewPage />} />
-            <Route path="/scheduler" element={<SchedulerPage />} />
+            <Route
+              path="/units"
+              element={
+                <RequirePermission permission="units:view">
+                  <UnitsPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="/units/:unitId"
+              element={
+                <RequirePermission permission="units:view">
+                  <UnitDetailPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="/tester"
+              element={
+                <RequirePermission permission={["queue:work", "queue:dispatch"]}>
+                  <TesterQueuePage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="/tester/upcoming"
+              element={
+                <RequirePermission permission="queue:work">
+                  <TesterUpcomingPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="/upload"
+              element={
+                <RequirePermission permission="results:submit">
+                  <UploadResultPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="/matrix"
+              element={
+                <RequirePermission permission="units:view">
+                  <MatrixViewPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="/scheduler"
+              element={
+                <RequirePermission permission="schedule:edit">
+                  <SchedulerPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="/steps"
+              element={
+                <RequirePermission permission="steps:manage">
+                  <StepCatalogPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="/notifications"
+              element={
+                <RequirePermission permission="queue:work">
+                  <NotificationsPage />
+                </RequirePermission>
+              }
+            />
             <Route
               path="*"
               element={
-                role ? (
+                hasSession() ? (
                   <Navigate to="/units" />
                 ) : (
                   <Navigate to="/login" replace />
@@ -5,16 +5,31 @@ export const API_BASE_URL =
 
 // ---------- Types & runtime exports ----------
 
-export type Role = "supervisor" | "tester";
+export type Role = "supervisor" | "tester" | "viewer";
 
 export interface LoginResponse {
   access_token: string;
+  refresh_token?: string | null;
+  expires_in?: number | null; // seconds
   role: Role;
   user: { id: string; name: string; role: Role };
 }
 
 // This is the shape used by UnitCard and units dashboard
-export interface UnitSummary {
+export type UnitPriority = "LOW" | "NORMAL" | "HIGH" | "URGENT";
+
+// Descriptive unit fields; everything is optional and null when cleared
+export interface UnitFields {
+  sku?: string | null;
+  rev?: string | null;
+  lot?: string | null;
+  serial?: string | null;
+  customer?: string | null;
+  priority?: UnitPriority | null;
+  due_date?: string | null; // YYYY-MM-DD
+}
+
+export interface UnitSummary extends UnitFields {
   unit_id: string;
   status: string;
   progress_percent: number;
@@ -22,6 +37,10 @@ export interface UnitSummary {
   total_steps: number;
   next_step_id?: number;
   next_step_name?: string;
+  open_ncr_count?: number;
+  plan_version?: number | null; // step catalog version the unit started on
+  test_plan_id?: string | null; // null: the unit runs every catalog step
+  test_plan_version?: number | null; // version of that plan the unit started on
 }
 
 // Dummy runtime export so any `import { UnitSummary }` succeeds.
@@ -36,6 +55,8 @@ export interface TestStep {
   limit_metric?: string | null;
   limit_comp?: string | null;
   limit_value?: number | null;
+  // Step ids that must pass (or be N/A) first; absent or null: the previous step by order
+  prerequisites?: number[] | null;
 }
 
 export interface Assignment {
@@ -46,7 +67,10 @@ export interface Assignment {
   start_at?: string | null;
   end_at?: string | null;
   status: string;
-  prev_passed?: boolean;
+  prev_passed?: boolean; // every prerequisite step has passed or is N/A
+  skipped?: boolean;
+  // Bumped by the server on every write; echoed back to detect stale edits
+  version?: number;
 
   sub_checks?: {
     ambient: boolean;
@@ -66,16 +90,19 @@ export interface Result {
   files: string[];
   submitted_by?: string;
   finished_at: string;
+  attempt?: number; // 1-based; a step re-run after a FAIL gets a new result
+  remark?: string | null;
 }
 
 export interface UnitDetails {
-  unit: {
+  unit: UnitFields & {
     id: string;
-    sku?: string;
-    rev?: string;
-    lot?: string;
     status: string;
     current_step_id?: number;
+    version?: number;
+    plan_version?: number | null;
+    test_plan_id?: string | null;
+    test_plan_version?: number | null;
   };
   assignments: Assignment[];
   results: Result[];
@@ -94,11 +121,13 @@ export interface TesterQueueResponse {
 
 export function setTesterAssignmentStatus(
   assignmentId: string,
-  status: "RUNNING" | "PENDING"
+  status: "RUNNING" | "PENDING",
+  version?: number
 ): Promise<Assignment> {
   return request(`/tester/assignments/${encodeURIComponent(assignmentId)}/status`, {
     method: "POST",
-    body: JSON.stringify({ status }),
+    headers: version != null ? { "If-Match": `"${version}"` } : undefined,
+    body: JSON.stringify({ status, version }),
   });
 }
 
@@ -120,16 +149,74 @@ export type TesterGroups = Record<string, string[]>;
 
 // ---------- Token & user helpers ----------
 
+// Refresh a little before the server would reject the token
+const TOKEN_EXPIRY_SKEW_MS = 30_000;
+
+function readJwtExpiry(token: string): number | null {
+  try {
+    const part = token.split(".")[1];
+    if (!part) return null;
+    const json = atob(part.replace(/-/g, "+").replace(/_/g, "/"));
+    const exp = JSON.parse(json)?.exp;
+    return typeof exp === "number" ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getTokenExpiresAt(): number | null {
+  const raw = localStorage.getItem("token_expires_at");
+  const n = raw ? Number(raw) : NaN;
+  return isNaN(n) ? null : n;
+}
+
+function setTokenExpiresAt(expiresAt: number | null) {
+  if (expiresAt) localStorage.setItem("token_expires_at", String(expiresAt));
+  else localStorage.removeItem("token_expires_at");
+}
+
+export function isTokenExpired(): boolean {
+  const expiresAt = getTokenExpiresAt();
+  if (!expiresAt) return false;
+  return Date.now() >= expiresAt - TOKEN_EXPIRY_SKEW_MS;
+}
+
+/** Access token, or null when missing / expired. */
 export function getToken(): string | null {
-  return localStorage.getItem("token");
+  const token = localStorage.getItem("token");
+  if (!token || isTokenExpired()) return null;
+  return token;
+}
+
+export function setToken(token: string | null, expiresInSec?: number | null) {
+  if (token) {
+    localStorage.setItem("token", token);
+    const expiresAt = expiresInSec
+      ? Date.now() + expiresInSec * 1000
+      : readJwtExpiry(token);
+    setTokenExpiresAt(expiresAt);
+  } else {
+    localStorage.removeItem("token");
+    setTokenExpiresAt(null);
+  }
 }
 
-export function setToken(token: string | null) {
-  if (token) localStorage.setItem("token", token);
-  else localStorage.removeItem("token");
+export function getRefreshToken(): string | null {
+  return localStorage.getItem("refresh_token");
+}
+
+export function setRefreshToken(token: string | null) {
+  if (token) localStorage.setItem("refresh_token", token);
+  else localStorage.removeItem("refresh_token");
+}
+
+/** True while we hold a usable token, or can still refresh one. */
+export function hasSession(): boolean {
+  return !!getToken() || (!!localStorage.getItem("token") && !!getRefreshToken());
 }
 
 export function getRole(): Role | null {
+  if (!hasSession()) return null;
   return (localStorage.getItem("role") as Role) || null;
 }
 
@@ -146,6 +233,7 @@ export function setUser(user: UserInfo | null) {
 }
 
 export function getUser(): UserInfo | null {
+  if (!hasSession()) return null;
   const raw = localStorage.getItem("user");
   if (!raw) return null;
   try {
@@ -155,10 +243,227 @@ export function getUser(): UserInfo | null {
   }
 }
 
-// ---------- Generic request wrapper ----------
+export function clearSession() {
+  setToken(null);
+  setRefreshToken(null);
+  setRole(null);
+  setUser(null);
+}
 
-export async function request(path: string, options: RequestInit = {}) {
+// ---------- Session expiry ----------
+
+type SessionExpiredHandler = (returnTo: string) => void;
+
+// App registers a router-aware handler; fall back to a full page redirect.
+let sessionExpiredHandler: SessionExpiredHandler = (returnTo) => {
+  const params = new URLSearchParams({ expired: "1", next: returnTo });
+  window.location.assign(`/login?${params.toString()}`);
+};
+
+export function setSessionExpiredHandler(handler: SessionExpiredHandler) {
+  sessionExpiredHandler = handler;
+}
+
+function handleSessionExpired() {
+  clearSession();
+  const { pathname, search } = window.location;
+  if (pathname === "/login") return;
+  sessionExpiredHandler(pathname + search);
+}
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+/**
+ * Exchange the refresh token for a new access token.
+ * Concurrent callers share one in-flight refresh.
+ */
+export function refreshSession(): Promise<boolean> {
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) return Promise.resolve(false);
+
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      try {
+        const res = await fetch(`${API_BASE_URL}/auth/refresh`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ refresh_token: refreshToken }),
+        });
+        if (!res.ok) return false;
+
+        const data = (await res.json()) as LoginResponse;
+        setToken(data.access_token, data.expires_in);
+        if (data.refresh_token) setRefreshToken(data.refresh_token);
+        if (data.role) setRole(data.role);
+        if (data.user) setUser(data.user);
+        return true;
+      } catch {
+        return false;
+      } finally {
+        refreshInFlight = null;
+      }
+    })();
+  }
+  return refreshInFlight;
+}
+
+/** Current token, refreshing first if it has expired. */
+export async function getFreshToken(): Promise<string | null> {
   const token = getToken();
+  if (token) return token;
+  if (await refreshSession()) return getToken();
+  return null;
+}
+
+// ---------- Errors ----------
+
+export interface FieldError {
+  field: string; // dotted location, e.g. "body.unit_id"
+  message: string;
+  type?: string;
+}
+
+/**
+ * Error thrown for every non-2xx response (and network failures, status 0).
+ * `detail` is the human-readable message parsed from FastAPI's `detail`.
+ */
+export class ApiError extends Error {
+  status: number;
+  detail: string;
+  fieldErrors: FieldError[];
+  requestId: string | null;
+  body: unknown;
+
+  constructor(opts: {
+    status: number;
+    detail: string;
+    fieldErrors?: FieldError[];
+    requestId?: string | null;
+    body?: unknown;
+  }) {
+    super(opts.detail);
+    this.name = "ApiError";
+    this.status = opts.status;
+    this.detail = opts.detail;
+    this.fieldErrors = opts.fieldErrors ?? [];
+    this.requestId = opts.requestId ?? null;
+    this.body = opts.body;
+  }
+
+  get isValidation() {
+    return this.status === 422 || this.fieldErrors.length > 0;
+  }
+
+  // Stale write rejected by optimistic concurrency (version / If-Match)
+  get isConflict() {
+    return this.status === 409 || this.status === 412;
+  }
+
+  static async fromResponse(res: Response): Promise<ApiError> {
+    const requestId =
+      res.headers.get("x-request-id") ?? res.headers.get("x-correlation-id");
+    const contentType = res.headers.get("content-type") ?? "";
+    const text = await res.text().catch(() => "");
+
+    let body: unknown = text;
+    if (contentType.includes("json") || /^\s*[[{]/.test(text)) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = text;
+      }
+    }
+
+    const { detail, fieldErrors } = parseDetail(body);
+
+    // Never surface raw HTML / long proxy pages to users
+    const fallback = defaultMessage(res.status, res.statusText);
+    const plainText =
+      typeof body === "string" && !contentType.includes("html") && body.length < 300
+        ? body.trim()
+        : "";
+
+    return new ApiError({
+      status: res.status,
+      detail: detail || plainText || fallback,
+      fieldErrors,
+      requestId:
+        requestId ??
+        (isRecord(body) && typeof body.request_id === "string"
+          ? body.request_id
+          : null),
+      body,
+    });
+  }
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function defaultMessage(status: number, statusText: string): string {
+  if (status === 0) return "Network error – could not reach the server.";
+  if (status === 401) return "Your session has expired. Please log in again.";
+  if (status === 403) return "You do not have permission to perform this action.";
+  if (status === 404) return "Not found.";
+  if (status === 409 || status === 412)
+    return "This record was changed by someone else.";
+  if (status >= 500) return `Server error (${status}). Please try again.`;
+  return statusText || `Request failed (${status}).`;
+}
+
+// FastAPI: { detail: "msg" } or { detail: [{ loc, msg, type }, ...] }
+function parseDetail(body: unknown): {
+  detail: string;
+  fieldErrors: FieldError[];
+} {
+  if (!isRecord(body)) return { detail: "", fieldErrors: [] };
+
+  const raw = body.detail ?? body.message;
+  if (typeof raw === "string") return { detail: raw, fieldErrors: [] };
+
+  if (Array.isArray(raw)) {
+    const fieldErrors: FieldError[] = raw.filter(isRecord).map((e) => ({
+      field: Array.isArray(e.loc)
+        ? e.loc.filter((p) => p !== "body").join(".")
+        : "",
+      message: typeof e.msg === "string" ? e.msg : "Invalid value",
+      type: typeof e.type === "string" ? e.type : undefined,
+    }));
+    const detail = fieldErrors
+      .map((f) => (f.field ? `${f.field}: ${f.message}` : f.message))
+      .join("; ");
+    return { detail, fieldErrors };
+  }
+
+  if (isRecord(raw) && typeof raw.message === "string") {
+    return { detail: raw.message, fieldErrors: [] };
+  }
+
+  return { detail: "", fieldErrors: [] };
+}
+
+/** User-facing message for anything caught from an API call. */
+export function getErrorMessage(err: unknown, fallback = "Something went wrong."): string {
+  if (err instanceof ApiError) {
+    return err.requestId ? `${err.detail} (ref ${err.requestId})` : err.detail;
+  }
+  if (err instanceof Error) return err.message || fallback;
+  if (typeof err === "string") return err || fallback;
+  return fallback;
+}
+
+// ---------- Generic request wrapper ----------
+
+// Paths that authenticate by credential / refresh token, not the bearer token
+const AUTH_PATHS = ["/auth/login", "/auth/refresh", "/auth/logout"];
+
+async function sendRequest(
+  path: string,
+  options: RequestInit,
+  isAuthPath: boolean
+): Promise<Response> {
+  const token = isAuthPath ? null : await getFreshToken();
 
   const headers: HeadersInit = {
     ...(options.headers || {}),
@@ -173,13 +478,41 @@ export async function request(path: string, options: RequestInit = {}) {
 
   if (token) (headers as any).Authorization = `Bearer ${token}`;
 
-  const res = await fetch(`${API_BASE_URL}${path}`, { ...options, headers });
+  try {
+    return await fetch(`${API_BASE_URL}${path}`, { ...options, headers });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === "AbortError") throw err;
+    throw new ApiError({ status: 0, detail: defaultMessage(0, "") });
+  }
+}
+
+/** Send a request with auth + refresh handling; throws ApiError unless 2xx. */
+export async function requestRaw(
+  path: string,
+  options: RequestInit = {}
+): Promise<Response> {
+  const isAuthPath = AUTH_PATHS.some((p) => path.startsWith(p));
+
+  let res = await sendRequest(path, options, isAuthPath);
 
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(text || res.statusText);
+  if (res.status === 401 && !isAuthPath) {
+    // Token rejected: try one silent refresh, then give up and re-login
+    if (await refreshSession()) {
+      res = await sendRequest(path, options, isAuthPath);
+    }
+    if (res.status === 401) {
+      handleSessionExpired();
+      throw await ApiError.fromResponse(res);
+    }
   }
 
+  if (!res.ok) throw await ApiError.fromResponse(res);
+  return res;
+}
+
+export async function request(path: string, options: RequestInit = {}) {
+  const res = await requestRaw(path, options);
+
   const text = await res.text();
   try {
     return text ? JSON.parse(text) : null;
@@ -188,21 +521,78 @@ export async function request(path: string, options: RequestInit = {}) {
   }
 }
 
+function filenameFromDisposition(header: string | null): string | null {
+  if (!header) return null;
+  const star = header.match(/filename\*=(?:UTF-8'')?([^;]+)/i);
+  if (star) return decodeURIComponent(star[1].trim().replace(/"/g, ""));
+  const plain = header.match(/filename="?([^";]+)"?/i);
+  return plain ? plain[1].trim() : null;
+}
+
+/** Fetch a binary response and save it through a temporary object URL. */
+export async function downloadFile(
+  path: string,
+  fallbackName: string,
+  options: RequestInit = {}
+): Promise<void> {
+  const res = await requestRaw(path, options);
+  const blob = await res.blob();
+  const filename =
+    filenameFromDisposition(res.headers.get("content-disposition")) ??
+    fallbackName;
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
 
 // ---------- Auth ----------
 
-export async function login(name: string): Promise<LoginResponse> {
+export async function login(
+  name: string,
+  password: string
+): Promise<LoginResponse> {
   const resp = await request("/auth/login", {
     method: "POST",
-    body: JSON.stringify({ name }),
+    body: JSON.stringify({ name, password }),
   });
   const typed = resp as LoginResponse;
-  setToken(typed.access_token);
+  setToken(typed.access_token, typed.expires_in);
+  setRefreshToken(typed.refresh_token ?? null);
   setRole(typed.role);
   setUser(typed.user);
   return typed;
 }
 
+export async function logout(): Promise<void> {
+  const refreshToken = getRefreshToken();
+  try {
+    if (refreshToken) {
+      await request("/auth/logout", {
+        method: "POST",
+        body: JSON.stringify({ refresh_token: refreshToken }),
+      });
+    }
+  } catch {
+    // best effort – the local session is cleared regardless
+  } finally {
+    clearSession();
+  }
+}
+
+/** Server-side view of the current user (role is authoritative here). */
+export async function fetchCurrentUser(): Promise<UserInfo> {
+  const user = (await request("/auth/me")) as UserInfo;
+  setRole(user.role);
+  setUser(user);
+  return user;
+}
+
 // ---------- API functions ----------
 
 export function fetchUnitSummaries(): Promise<UnitSummary[]> {
@@ -213,8 +603,215 @@ export function fetchUnitDetails(id: string): Promise<UnitDetails> {
   return request(`/units/${encodeURIComponent(id)}/details`);
 }
 
-export function fetchSteps(): Promise<TestStep[]> {
-  return request("/steps");
+export function fetchUnitDetailsBatch(unitIds: string[]): Promise<UnitDetails[]> {
+  return request("/units/details/batch", {
+    method: "POST",
+    body: JSON.stringify({ unit_ids: unitIds }),
+  });
+}
+
+/* ---------- Batched unit details loader ----------
+   Requests made in the same tick are coalesced into /units/details/batch
+   calls of at most DETAILS_BATCH_SIZE units. Against a server without the
+   batch endpoint it falls back to single fetches, DETAILS_CONCURRENCY at a time. */
+
+const DETAILS_BATCH_SIZE = 50;
+const DETAILS_CONCURRENCY = 6;
+
+type DetailsWaiter = {
+  resolve: (d: UnitDetails) => void;
+  reject: (err: unknown) => void;
+};
+
+let pendingDetails = new Map<string, DetailsWaiter[]>();
+let detailsFlushScheduled = false;
+let batchEndpointMissing = false;
+
+export function loadUnitDetails(unitId: string): Promise<UnitDetails> {
+  return new Promise((resolve, reject) => {
+    const waiters = pendingDetails.get(unitId) ?? [];
+    waiters.push({ resolve, reject });
+    pendingDetails.set(unitId, waiters);
+
+    if (!detailsFlushScheduled) {
+      detailsFlushScheduled = true;
+      queueMicrotask(flushDetails);
+    }
+  });
+}
+
+function settleDetails(
+  batch: Map<string, DetailsWaiter[]>,
+  unitId: string,
+  outcome: { data: UnitDetails } | { error: unknown }
+) {
+  for (const w of batch.get(unitId) ?? []) {
+    if ("data" in outcome) w.resolve(outcome.data);
+    else w.reject(outcome.error);
+  }
+  batch.delete(unitId);
+}
+
+async function flushDetails() {
+  const batch = pendingDetails;
+  pendingDetails = new Map();
+  detailsFlushScheduled = false;
+
+  const ids = Array.from(batch.keys());
+
+  if (!batchEndpointMissing) {
+    for (let i = 0; i < ids.length; i += DETAILS_BATCH_SIZE) {
+      const chunk = ids.slice(i, i + DETAILS_BATCH_SIZE);
+      try {
+        const list = await fetchUnitDetailsBatch(chunk);
+        for (const d of list) settleDetails(batch, d.unit.id, { data: d });
+        for (const id of chunk) {
+          settleDetails(batch, id, { error: new ApiError({ status: 404, detail: "Not found." }) });
+        }
+      } catch (err) {
+        if (err instanceof ApiError && (err.status === 404 || err.status === 405)) {
+          batchEndpointMissing = true;
+          break;
+        }
+        for (const id of chunk) settleDetails(batch, id, { error: err });
+      }
+    }
+  }
+
+  // Whatever is left (no batch endpoint): bounded-concurrency single fetches
+  const rest = Array.from(batch.keys());
+  let next = 0;
+  const worker = async () => {
+    while (next < rest.length) {
+      const id = rest[next++];
+      try {
+        settleDetails(batch, id, { data: await fetchUnitDetails(id) });
+      } catch (error) {
+        settleDetails(batch, id, { error });
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(DETAILS_CONCURRENCY, rest.length) }, worker)
+  );
+}
+
+/** Steps of the current plan, or of an older catalog version a unit is pinned to. */
+export function fetchSteps(version?: number | null): Promise<TestStep[]> {
+  return request(version != null ? `/steps?version=${version}` : "/steps");
+}
+
+// ---------- Step catalog (versioned step list) ----------
+
+export interface StepCatalogVersion {
+  version: number;
+  published_at: string;
+  published_by?: string | null;
+  note?: string | null;
+  step_count: number;
+  unit_count?: number; // units pinned to this version
+}
+
+export interface StepCatalog {
+  current_version: number;
+  steps: TestStep[]; // current version
+  versions: StepCatalogVersion[]; // newest first
+}
+
+// One step of a plan being edited; id is null for steps that don't exist yet.
+// Order is the position in the list; steps left out are retired.
+export interface StepDraft {
+  id: number | null;
+  name: string;
+  required: boolean;
+  metrics_hint: string | null;
+  limit_metric: string | null;
+  limit_comp: string | null;
+  limit_value: number | null;
+  ref: string; // client-side key, so drafts can name steps that have no id yet
+  prerequisites: string[] | null; // refs of other drafts; null: the previous step
+}
+
+export function fetchStepCatalog(): Promise<StepCatalog> {
+  return request("/steps/catalog");
+}
+
+/** Publish a new catalog version. 409/412 if someone published since `base_version`. */
+export function publishStepCatalog(payload: {
+  base_version: number;
+  steps: StepDraft[];
+  note?: string | null;
+}): Promise<StepCatalogVersion> {
+  return request("/steps/catalog/versions", {
+    method: "POST",
+    headers: { "If-Match": `"${payload.base_version}"` },
+    body: JSON.stringify(payload),
+  });
+}
+
+// ---------- Test plans (per SKU / revision) ----------
+
+// A catalog step as used by one plan. Limit fields that are left undefined
+// inherit the catalog's; null removes the limit for this plan.
+export interface TestPlanStep {
+  step_id: number;
+  order: number;
+  required?: boolean;
+  limit_metric?: string | null;
+  limit_comp?: string | null;
+  limit_value?: number | null;
+}
+
+export interface TestPlan {
+  id: string;
+  name: string;
+  sku: string | null;
+  rev: string | null; // null: any revision of the SKU
+  steps: TestPlanStep[];
+  version?: number; // bumped on every edit; units keep the version they started on
+  unit_count?: number;
+}
+
+export type TestPlanInput = Pick<TestPlan, "name" | "sku" | "rev" | "steps">;
+
+export function fetchTestPlans(): Promise<TestPlan[]> {
+  return request("/test-plans");
+}
+
+export function createTestPlan(plan: TestPlanInput): Promise<TestPlan> {
+  return request("/test-plans", {
+    method: "POST",
+    body: JSON.stringify(plan),
+  });
+}
+
+export function updateTestPlan(
+  id: string,
+  plan: TestPlanInput & { version?: number }
+): Promise<TestPlan> {
+  const { version, ...rest } = plan;
+  return request(`/test-plans/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: version != null ? { "If-Match": `"${version}"` } : undefined,
+    body: JSON.stringify(rest),
+  });
+}
+
+/** A plan as it was at `version`; saved versions never change. */
+export function fetchTestPlanVersion(id: string, version: number): Promise<TestPlan> {
+  return request(`/test-plans/${encodeURIComponent(id)}/versions/${version}`);
+}
+
+/** Fails with 409 while units still use the plan. */
+export function deleteTestPlan(id: string) {
+  return request(`/test-plans/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+}
+
+/** Latest result of one step for every unit (metric trends). */
+export function fetchStepResults(stepId: number): Promise<Result[]> {
+  return request(`/steps/${stepId}/results`);
 }
 
 export function fetchTesterQueue(testerId: string): Promise<TesterQueueResponse> {
@@ -236,23 +833,114 @@ export function fetchTesterAssignments(testerId: string): Promise<Assignment[]>
 }
 
 export interface AssignmentUpdate {
-  tester_id?: string;
+  tester_id?: string | null;
   status?: string;
   start_at?: string | null;
   end_at?: string | null;
+  skipped?: boolean;
+  // Version the edit is based on; the server rejects the write if it moved on
+  version?: number;
 }
 
-export function updateAssignment(id: string, data: AssignmentUpdate) {
+export function updateAssignment(
+  id: string,
+  data: AssignmentUpdate
+): Promise<Assignment> {
   return request(`/assignments/${encodeURIComponent(id)}`, {
     method: "PATCH",
+    headers:
+      data.version != null ? { "If-Match": `"${data.version}"` } : undefined,
+    body: JSON.stringify(data),
+  });
+}
+
+export interface BulkAssignmentUpdate extends AssignmentUpdate {
+  id: string;
+}
+
+// Per-row outcome of a bulk update; the server applies each row independently
+export interface BulkAssignmentResult {
+  id: string;
+  ok: boolean;
+  assignment?: Assignment;
+  status?: number; // 409 when the row's version is stale
+  error?: string;
+  current?: Assignment; // server's row on a version conflict
+}
+
+export async function bulkUpdateAssignments(
+  updates: BulkAssignmentUpdate[]
+): Promise<BulkAssignmentResult[]> {
+  const res: { results: BulkAssignmentResult[] } = await request(
+    "/assignments/bulk-update",
+    {
+      method: "POST",
+      body: JSON.stringify({ updates }),
+    }
+  );
+  return res.results;
+}
+
+// Tester-editable fields (remark, pre-vibration sub-checks)
+export interface TesterAssignmentPatch {
+  sub_checks?: { ambient: boolean; low: boolean; high: boolean };
+  remark?: string | null;
+  version?: number;
+}
+
+export function updateTesterAssignment(
+  id: string,
+  data: TesterAssignmentPatch
+): Promise<Assignment> {
+  return request(`/tester/assignments/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers:
+      data.version != null ? { "If-Match": `"${data.version}"` } : undefined,
     body: JSON.stringify(data),
   });
 }
 
-export function createUnit(unit_id: string) {
+export type NewUnit = UnitFields & { unit_id: string; test_plan_id?: string | null };
+
+export function createUnit(unit: NewUnit) {
   return request("/units", {
     method: "POST",
-    body: JSON.stringify({ unit_id }),
+    body: JSON.stringify(unit),
+  });
+}
+
+export function updateUnit(unitId: string, fields: UnitFields & { version?: number }) {
+  const { version, ...rest } = fields;
+  return request(`/units/${encodeURIComponent(unitId)}`, {
+    method: "PATCH",
+    headers: version != null ? { "If-Match": `"${version}"` } : undefined,
+    body: JSON.stringify(rest),
+  });
+}
+
+// Per-row outcome of a bulk import; each unit is created independently
+export interface UnitImportResult {
+  unit_id: string;
+  ok: boolean;
+  status?: number; // 409 when the ID was taken in the meantime
+  error?: string;
+}
+
+export async function importUnits(units: NewUnit[]): Promise<UnitImportResult[]> {
+  const res: { results: UnitImportResult[] } = await request("/units/import", {
+    method: "POST",
+    body: JSON.stringify({ units }),
+  });
+  return res.results;
+}
+
+/** Server-side read of a spreadsheet (XLSX): first sheet as rows of cell text. */
+export function parseImportSheet(file: File): Promise<{ rows: string[][] }> {
+  const formData = new FormData();
+  formData.append("file", file);
+  return request("/units/import/parse", {
+    method: "POST",
+    body: formData,
   });
 }
 
@@ -262,6 +950,13 @@ export function deleteUnit(unit_id: string) {
   });
 }
 
+export function renameUnit(oldId: string, newId: string) {
+  return request(`/units/${encodeURIComponent(oldId)}/rename`, {
+    method: "PATCH",
+    body: JSON.stringify({ new_unit_id: newId }),
+  });
+}
+
 export function createResult(payload: {
   unit_id: string;
   step_id: number;
@@ -275,31 +970,215 @@ export function createResult(payload: {
   });
 }
 
-// ---------- File upload (multipart) ----------
+// ---------- Resumable (chunked) evidence uploads ----------
 
-export async function uploadEvidence(
-  unit_id: string,
-  step_id: number,
-  result_id: string,
-  file: File
-) {
-  const token = getToken();
-  const formData = new FormData();
-  formData.append("unit_id", unit_id);
-  formData.append("step_id", String(step_id));
-  formData.append("result_id", result_id);
-  formData.append("file", file);
+export interface UploadSession {
+  upload_id: string;
+  chunk_size: number;
+  received_bytes: number; // server-confirmed bytes; resume from here
+  size: number;
+}
 
-  const res = await fetch(`${API_BASE_URL}/uploads`, {
+export function startUploadSession(
+  data: {
+    unit_id: string;
+    step_id: number;
+    result_id: string;
+    filename: string;
+    size: number;
+    content_type: string;
+    chunk_size: number;
+  },
+  signal?: AbortSignal
+): Promise<UploadSession> {
+  return request("/uploads/sessions", {
     method: "POST",
-    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
-    body: formData,
+    body: JSON.stringify(data),
+    signal,
   });
+}
 
-  if (!res.ok) {
-    throw new Error(await res.text());
-  }
-  return res.json();
+export function getUploadSession(uploadId: string, signal?: AbortSignal): Promise<UploadSession> {
+  return request(`/uploads/sessions/${encodeURIComponent(uploadId)}`, { signal });
+}
+
+export function uploadChunk(
+  uploadId: string,
+  offset: number,
+  chunk: Blob,
+  total: number,
+  signal?: AbortSignal
+): Promise<{ received_bytes: number }> {
+  const last = offset + chunk.size - 1;
+  return request(`/uploads/sessions/${encodeURIComponent(uploadId)}`, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/octet-stream",
+      "Content-Range": `bytes ${offset}-${last}/${total}`,
+    },
+    body: chunk,
+    signal,
+  });
+}
+
+export function completeUploadSession(uploadId: string) {
+  return request(`/uploads/sessions/${encodeURIComponent(uploadId)}/complete`, {
+    method: "POST",
+  });
+}
+
+export function cancelUploadSession(uploadId: string) {
+  return request(`/uploads/sessions/${encodeURIComponent(uploadId)}`, {
+    method: "DELETE",
+  });
+}
+
+// ---------- Evidence files ----------
+
+export interface EvidenceFile {
+  name: string;
+  size: number;
+  content_type?: string | null;
+  uploaded_by?: string | null;
+  uploaded_at?: string | null;
+}
+
+function evidencePath(unitId: string, stepId: number, name?: string) {
+  const base = `/reports/unit/${encodeURIComponent(unitId)}/step/${stepId}/evidence`;
+  return name == null ? base : `${base}/${encodeURIComponent(name)}`;
+}
+
+export function fetchStepEvidence(unitId: string, stepId: number): Promise<EvidenceFile[]> {
+  return request(evidencePath(unitId, stepId));
+}
+
+/** Raw file contents, for inline previews. */
+export async function fetchEvidenceBlob(
+  unitId: string,
+  stepId: number,
+  name: string,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const res = await requestRaw(evidencePath(unitId, stepId, name), { signal });
+  return res.blob();
+}
+
+export function downloadEvidenceFile(unitId: string, stepId: number, name: string) {
+  return downloadFile(evidencePath(unitId, stepId, name), name);
+}
+
+export function removeEvidenceFile(unitId: string, stepId: number, name: string) {
+  return request(evidencePath(unitId, stepId, name), { method: "DELETE" });
+}
+
+export function removeStepEvidence(unitId: string, stepId: number) {
+  return request(
+    `/reports/unit/${encodeURIComponent(unitId)}/step/${stepId}/evidence`,
+    { method: "DELETE" }
+  );
+}
+
+// ---------- Non-conformance reports (NCR) ----------
+
+export type NcrDisposition = "REWORK" | "RETEST" | "SCRAP" | "USE_AS_IS";
+
+// OPEN → AWAITING_APPROVAL → APPROVED → CLOSED; a rejection goes back to OPEN
+export type NcrStatus = "OPEN" | "AWAITING_APPROVAL" | "APPROVED" | "CLOSED";
+
+export interface Ncr {
+  id: string;
+  unit_id: string;
+  step_id: number;
+  result_id: string;
+  description: string;
+  disposition: NcrDisposition | null;
+  owner: string | null;
+  status: NcrStatus;
+  created_by?: string | null;
+  created_at: string;
+  approved_by?: string | null;
+  approved_at?: string | null;
+  closed_at?: string | null;
+  review_note?: string | null; // supervisor's note on approve / reject
+  version?: number;
+}
+
+export interface NcrPatch {
+  description?: string;
+  disposition?: NcrDisposition | null;
+  owner?: string | null;
+  version?: number;
+}
+
+export type NcrAction = "submit" | "approve" | "reject" | "close" | "reopen";
+
+export function fetchUnitNcrs(unitId: string): Promise<Ncr[]> {
+  return request(`/units/${encodeURIComponent(unitId)}/ncrs`);
+}
+
+export function createNcr(data: {
+  unit_id: string;
+  step_id: number;
+  result_id: string;
+  description: string;
+  disposition?: NcrDisposition | null;
+  owner?: string | null;
+}): Promise<Ncr> {
+  return request("/ncrs", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export function updateNcr(id: string, patch: NcrPatch): Promise<Ncr> {
+  const { version, ...rest } = patch;
+  return request(`/ncrs/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: version != null ? { "If-Match": `"${version}"` } : undefined,
+    body: JSON.stringify(rest),
+  });
+}
+
+/** Move an NCR through its workflow; `note` is kept as the review note. */
+export function transitionNcr(
+  id: string,
+  action: NcrAction,
+  note?: string
+): Promise<Ncr> {
+  return request(`/ncrs/${encodeURIComponent(id)}/${action}`, {
+    method: "POST",
+    body: JSON.stringify({ note: note ?? null }),
+  });
+}
+
+// ---------- Reports (downloads) ----------
+
+export function downloadUnitEvidenceZip(unitId: string) {
+  return downloadFile(
+    `/reports/unit/${encodeURIComponent(unitId)}/zip`,
+    `${unitId}_logs.zip`
+  );
+}
+
+export function downloadUnitTraveller(unitId: string) {
+  return downloadFile(
+    `/reports/unit/${encodeURIComponent(unitId)}/traveller.xlsx`,
+    `${unitId}_traveller.xlsx`
+  );
+}
+
+export function downloadStepLogs(unitId: string, stepId: number) {
+  return downloadFile(
+    `/reports/unit/${encodeURIComponent(unitId)}/step/${stepId}/zip`,
+    `${unitId}_step${stepId}_logs.zip`
+  );
+}
+
+export function downloadBulkTraveller(unitIds: string[]) {
+  return downloadFile("/reports/traveller/bulk.xlsx", "traveller_logs.xlsx", {
+    method: "POST",
+    body: JSON.stringify({ unit_ids: unitIds }),
+  });
 }
 
 // ---------- Notifications API ----------
@@ -319,6 +1198,12 @@ export function markNotificationRead(notifId: string): Promise<null> {
   });
 }
 
+export async function markAllNotificationsRead(
+  notifIds: string[]
+): Promise<void> {
+  await Promise.all(notifIds.map((id) => markNotificationRead(id)));
+}
+
 export interface DuplicateRequest {
   source_unit_id: string;
   new_unit_ids: string[];
@@ -0,0 +1,108 @@
+// src/components/AttemptTimeline.tsx
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import type { TestStep } from "../api";
+import { downloadEvidenceFile, getErrorMessage } from "../api";
+import { formatSingaporeDateTime } from "../dates";
+import { formatMetricValue, metricEntries, readVerdictOverride } from "../metrics";
+import type { Attempt } from "../results";
+import { usePrompt } from "./PromptProvider";
+
+interface Props {
+  unitId: string;
+  step: TestStep;
+  attempts: Attempt[];
+}
+
+/** Every attempt of one step, newest first. */
+export default function AttemptTimeline({ unitId, step, attempts }: Props) {
+  const prompt = usePrompt();
+
+  async function handleDownload(name: string) {
+    try {
+      await downloadEvidenceFile(unitId, step.id, name);
+    } catch (err) {
+      prompt.alert(`Download failed: ${getErrorMessage(err)}`, "Download Error");
+    }
+  }
+
+  return (
+    <ol className="attempt-timeline">
+      {attempts
+        .slice()
+        .reverse()
+        .map(({ attempt, result: r }, i) => {
+          const metrics = metricEntries(r, step);
+          const override = readVerdictOverride(r.metrics);
+          return (
+            <li
+              key={r.id}
+              className={`attempt-timeline__item attempt-timeline__item--${
+                r.passed ? "pass" : "fail"
+              }`}
+            >
+              <div className="attempt-timeline__header">
+                <span className="attempt-timeline__number">Attempt {attempt}</span>
+                <span
+                  className={`result-pill ${r.passed ? "result-pill--pass" : "result-pill--fail"}`}
+                >
+                  {r.passed ? "PASS" : "FAIL"}
+                </span>
+                {i === 0 && attempts.length > 1 && (
+                  <span className="attempt-timeline__latest">latest</span>
+                )}
+                <span className="attempt-timeline__meta">
+                  {r.submitted_by || "unknown"} · {formatSingaporeDateTime(r.finished_at)}
+                </span>
+              </div>
+
+              {metrics.length > 0 && (
+                <div className="attempt-timeline__metrics">
+                  {metrics.map((m) => (
+                    <span
+                      key={m.key}
+                      className={
+                        "attempt-timeline__metric" +
+                        (m.verdict === "FAIL" ? " attempt-timeline__metric--fail" : "")
+                      }
+                    >
+                      {m.label}: {formatMetricValue(m.value)}
+                      {m.unit ? ` ${m.unit}` : ""}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {override && (
+                <div className="attempt-timeline__note">
+                  Verdict overridden to {override.chosen}: {override.justification}
+                </div>
+              )}
+
+              {r.remark && (
+                <div className="attempt-timeline__remark">
+                  <ReactMarkdown remarkPlugins={[remarkGfm]}>{r.remark}</ReactMarkdown>
+                </div>
+              )}
+
+              {r.files?.length > 0 && (
+                <div className="attempt-timeline__files">
+                  {r.files.map((name) => (
+                    <button
+                      key={name}
+                      type="button"
+                      className="btn btn-ghost btn-xs"
+                      title={`Download ${name}`}
+                      onClick={() => handleDownload(name)}
+                    >
+                      {name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </li>
+          );
+        })}
+    </ol>
+  );
+}
@@ -0,0 +1,376 @@
+// src/components/AutoPlanModal.tsx
+import { useMemo, useState } from "react";
+import type { TestStep } from "../api";
+import { todayKey } from "../dates";
+import { planUnits, stepDuration } from "../scheduling";
+import type { PlanChange, PlannedRow, SchedulingConfig } from "../scheduling";
+
+interface Props {
+  unitIds: string[];
+  initialSelection: string[];
+  rows: PlannedRow[];
+  steps: TestStep[];
+  // Each unit's steps as of its pinned test plan; units still loading are left out
+  unitSteps: Map<string, Map<number, TestStep>>;
+  testers: string[];
+  config: SchedulingConfig;
+  onConfigChange: (config: SchedulingConfig) => void;
+  onApply: (changes: PlanChange[]) => void;
+  onClose: () => void;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function parseDateList(text: string): string[] {
+  return text
+    .split(/[\s,;]+/)
+    .map((s) => s.trim())
+    .filter((s) => /^\d{4}-\d{2}-\d{2}$/.test(s));
+}
+
+function formatRange(start: string, end: string) {
+  if (!start && !end) return "—";
+  if (!end || start === end) return start || end;
+  return `${start} → ${end}`;
+}
+
+export default function AutoPlanModal({
+  unitIds,
+  initialSelection,
+  rows,
+  steps,
+  unitSteps,
+  testers,
+  config,
+  onConfigChange,
+  onApply,
+  onClose,
+}: Props) {
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(initialSelection)
+  );
+  const [startFrom, setStartFrom] = useState(todayKey());
+  const [onlyUnscheduled, setOnlyUnscheduled] = useState(false);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  // Free-text fields are kept as typed and parsed into the config on change
+  const [holidaysText, setHolidaysText] = useState(config.holidays.join(", "));
+  const [unavailableText, setUnavailableText] = useState<Record<string, string>>(
+    () =>
+      Object.fromEntries(
+        Object.entries(config.unavailable).map(([t, days]) => [t, days.join(", ")])
+      )
+  );
+
+  const sortedSteps = useMemo(
+    () => steps.slice().sort((a, b) => a.order - b.order),
+    [steps]
+  );
+
+  const stepsById = useMemo(() => {
+    const m = new Map<number, TestStep>();
+    steps.forEach((s) => m.set(s.id, s));
+    return m;
+  }, [steps]);
+
+  const stepsOf = useMemo(
+    () => (unitId: string) => unitSteps.get(unitId) ?? stepsById,
+    [unitSteps, stepsById]
+  );
+
+  const planFor = useMemo(
+    () => unitIds.filter((u) => selected.has(u) && unitSteps.has(u)),
+    [unitIds, selected, unitSteps]
+  );
+
+  // Everything the planner would move, so left-out changes can be ticked again
+  const proposed = useMemo(
+    () => planUnits(planFor, rows, stepsOf, config, { startFrom, onlyUnscheduled }),
+    [planFor, rows, stepsOf, config, startFrom, onlyUnscheduled]
+  );
+
+  // Re-planned with the left-out rows kept where they are, so the steps
+  // after them are not planned around dates that will never be applied
+  const keptChanges = useMemo(
+    () => proposed.filter((c) => excluded.has(c.id)),
+    [proposed, excluded]
+  );
+  const included = useMemo(
+    () =>
+      keptChanges.length === 0
+        ? proposed
+        : planUnits(planFor, rows, stepsOf, config, {
+            startFrom,
+            onlyUnscheduled,
+            keep: new Set(keptChanges.map((c) => c.id)),
+          }),
+    [proposed, keptChanges, planFor, rows, stepsOf, config, startFrom, onlyUnscheduled]
+  );
+
+  const changes = useMemo(() => {
+    const unitRank = new Map(planFor.map((u, i) => [u, i]));
+    const orderOf = (c: PlanChange) => stepsOf(c.unit_id).get(c.step_id)?.order ?? c.step_id;
+    return [...included, ...keptChanges].sort(
+      (a, b) =>
+        (unitRank.get(a.unit_id) ?? 0) - (unitRank.get(b.unit_id) ?? 0) ||
+        orderOf(a) - orderOf(b)
+    );
+  }, [included, keptChanges, planFor, stepsOf]);
+
+  function toggleUnit(unitId: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(unitId)) next.delete(unitId);
+      else next.add(unitId);
+      return next;
+    });
+  }
+
+  function toggleChange(id: string) {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function toggleWeekday(dow: number) {
+    const workingDays = config.workingDays.includes(dow)
+      ? config.workingDays.filter((d) => d !== dow)
+      : [...config.workingDays, dow].sort();
+    onConfigChange({ ...config, workingDays });
+  }
+
+  function setDuration(stepId: number, value: string) {
+    const n = parseInt(value, 10);
+    const durations = { ...config.durations };
+    if (!value || isNaN(n)) delete durations[stepId];
+    else durations[stepId] = Math.max(1, n);
+    onConfigChange({ ...config, durations });
+  }
+
+  return (
+    <div className="prompt-backdrop">
+      <div className="prompt-modal autoplan-modal">
+        <div className="prompt-title">Auto-plan schedule</div>
+
+        <div className="autoplan-grid">
+          <div>
+            <div className="autoplan-section-title">
+              Units ({selected.size}/{unitIds.length})
+              <button
+                type="button"
+                className="btn btn-ghost btn-xs"
+                onClick={() =>
+                  setSelected(
+                    selected.size === unitIds.length ? new Set() : new Set(unitIds)
+                  )
+                }
+              >
+                {selected.size === unitIds.length ? "None" : "All"}
+              </button>
+            </div>
+            <div className="autoplan-units">
+              {unitIds.map((u) => (
+                <label
+                  key={u}
+                  className="autoplan-check"
+                  title={unitSteps.has(u) ? undefined : "Test plan still loading"}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(u)}
+                    disabled={!unitSteps.has(u)}
+                    onChange={() => toggleUnit(u)}
+                  />
+                  {u}
+                </label>
+              ))}
+            </div>
+
+            <label className="form-label">
+              Earliest start
+              <input
+                type="date"
+                className="scheduler-field"
+                value={startFrom}
+                onChange={(e) => setStartFrom(e.target.value || todayKey())}
+              />
+            </label>
+
+            <label className="autoplan-check">
+              <input
+                type="checkbox"
+                checked={onlyUnscheduled}
+                onChange={(e) => setOnlyUnscheduled(e.target.checked)}
+              />
+              Keep steps that already have dates
+            </label>
+          </div>
+
+          <div>
+            <details>
+              <summary className="autoplan-section-title">
+                Step durations (working days)
+              </summary>
+              <table className="queue-table autoplan-table">
+                <tbody>
+                  {sortedSteps.map((s) => (
+                    <tr key={s.id}>
+                      <td>
+                        {s.order}. {s.name}
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          min={1}
+                          className="scheduler-field autoplan-number"
+                          value={config.durations[s.id] ?? ""}
+                          placeholder={String(stepDuration(s, config))}
+                          onChange={(e) => setDuration(s.id, e.target.value)}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <label className="form-label">
+                Default duration
+                <input
+                  type="number"
+                  min={1}
+                  className="scheduler-field autoplan-number"
+                  value={config.defaultDuration}
+                  onChange={(e) =>
+                    onConfigChange({
+                      ...config,
+                      defaultDuration: Math.max(1, parseInt(e.target.value || "1", 10)),
+                    })
+                  }
+                />
+              </label>
+            </details>
+
+            <details>
+              <summary className="autoplan-section-title">Working calendar</summary>
+              <div className="autoplan-weekdays">
+                {WEEKDAYS.map((label, dow) => (
+                  <label key={dow} className="autoplan-check">
+                    <input
+                      type="checkbox"
+                      checked={config.workingDays.includes(dow)}
+                      onChange={() => toggleWeekday(dow)}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <label className="form-label">
+                Holidays (YYYY-MM-DD, comma separated)
+                <textarea
+                  className="form-control"
+                  rows={2}
+                  value={holidaysText}
+                  onChange={(e) => {
+                    setHolidaysText(e.target.value);
+                    onConfigChange({
+                      ...config,
+                      holidays: parseDateList(e.target.value),
+                    });
+                  }}
+                />
+              </label>
+            </details>
+
+            <details>
+              <summary className="autoplan-section-title">Tester availability</summary>
+              {testers.length === 0 && (
+                <p className="text-muted">No testers loaded.</p>
+              )}
+              {testers.map((t) => (
+                <label key={t} className="form-label">
+                  {t} – days off
+                  <input
+                    className="form-control"
+                    placeholder="2025-01-02, 2025-01-03"
+                    value={unavailableText[t] ?? ""}
+                    onChange={(e) => {
+                      const text = e.target.value;
+                      setUnavailableText((prev) => ({ ...prev, [t]: text }));
+                      onConfigChange({
+                        ...config,
+                        unavailable: { ...config.unavailable, [t]: parseDateList(text) },
+                      });
+                    }}
+                  />
+                </label>
+              ))}
+            </details>
+          </div>
+        </div>
+
+        <div className="autoplan-section-title">
+          Preview – {changes.length} change{changes.length !== 1 ? "s" : ""}
+        </div>
+        {changes.length === 0 ? (
+          <p className="text-muted">The selected units are already planned.</p>
+        ) : (
+          <div className="autoplan-preview">
+            <table className="queue-table">
+              <thead>
+                <tr>
+                  <th />
+                  <th align="left">Unit</th>
+                  <th align="left">Step</th>
+                  <th align="left">Tester</th>
+                  <th align="left">Current</th>
+                  <th align="left">Planned</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map((c) => {
+                  const step = stepsOf(c.unit_id).get(c.step_id);
+                  return (
+                    <tr key={c.id}>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={!excluded.has(c.id)}
+                          onChange={() => toggleChange(c.id)}
+                        />
+                      </td>
+                      <td>{c.unit_id}</td>
+                      <td>{step ? `${step.order}. ${step.name}` : c.step_id}</td>
+                      <td>{c.tester_id || "—"}</td>
+                      <td className="autoplan-before">
+                        {formatRange(c.before.start_date, c.before.end_date)}
+                      </td>
+                      <td className="autoplan-after">
+                        {formatRange(c.after.start_date, c.after.end_date)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="prompt-actions">
+          <button type="button" className="btn btn-outline" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="btn btn-primary"
+            disabled={included.length === 0}
+            onClick={() => onApply(included)}
+          >
+            Apply {included.length} change{included.length !== 1 ? "s" : ""}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
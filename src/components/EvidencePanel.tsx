@@ -0,0 +1,265 @@
+// src/components/EvidencePanel.tsx
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useStepEvidence } from "../hooks";
+import {
+  downloadEvidenceFile,
+  fetchEvidenceBlob,
+  getErrorMessage,
+  removeEvidenceFile,
+} from "../api";
+import type { EvidenceFile } from "../api";
+import { parseDelimited } from "../csv";
+import { formatSingaporeDateTime } from "../dates";
+import { formatBytes } from "../uploads";
+import { usePrompt } from "./PromptProvider";
+
+type PreviewKind = "table" | "text" | "image" | "pdf" | null;
+
+// Previews read the whole file; anything bigger is download-only
+const MAX_PREVIEW_BYTES = 5 * 1024 * 1024;
+const MAX_TABLE_ROWS = 500;
+const MAX_TEXT_CHARS = 200_000;
+
+function previewKind(file: EvidenceFile): PreviewKind {
+  const ext = file.name.split(".").pop()?.toLowerCase() ?? "";
+  const type = file.content_type?.toLowerCase() ?? "";
+  if (ext === "csv" || ext === "tsv" || type === "text/csv") return "table";
+  if (type.startsWith("image/") || ["png", "jpg", "jpeg", "gif", "bmp", "webp"].includes(ext))
+    return "image";
+  if (ext === "pdf" || type === "application/pdf") return "pdf";
+  if (type.startsWith("text/") || ["txt", "log", "json", "xml", "ini", "cfg"].includes(ext))
+    return "text";
+  return null;
+}
+
+type LoadedPreview =
+  | { kind: "table"; rows: string[][]; truncated: boolean }
+  | { kind: "text"; text: string; truncated: boolean }
+  | { kind: "image" | "pdf"; url: string };
+
+function EvidencePreview({
+  unitId,
+  stepId,
+  file,
+}: {
+  unitId: string;
+  stepId: number;
+  file: EvidenceFile;
+}) {
+  const kind = previewKind(file);
+  const [preview, setPreview] = useState<LoadedPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!kind || file.size > MAX_PREVIEW_BYTES) return;
+    const controller = new AbortController();
+    let url: string | null = null;
+
+    fetchEvidenceBlob(unitId, stepId, file.name, controller.signal)
+      .then(async (blob) => {
+        if (kind === "image" || kind === "pdf") {
+          // the browser's PDF viewer needs the type even if the server omits it
+          const typed =
+            kind === "pdf" && blob.type !== "application/pdf"
+              ? new Blob([blob], { type: "application/pdf" })
+              : blob;
+          url = URL.createObjectURL(typed);
+          setPreview({ kind, url });
+          return;
+        }
+        const text = await blob.text();
+        if (kind === "table") {
+          const delimiter = file.name.toLowerCase().endsWith(".tsv") ? "\t" : ",";
+          const rows = parseDelimited(text, delimiter, MAX_TABLE_ROWS);
+          setPreview({
+            kind,
+            rows: rows.slice(0, MAX_TABLE_ROWS + 1),
+            truncated: rows.length > MAX_TABLE_ROWS,
+          });
+        } else {
+          setPreview({
+            kind,
+            text: text.slice(0, MAX_TEXT_CHARS),
+            truncated: text.length > MAX_TEXT_CHARS,
+          });
+        }
+      })
+      .catch((err) => {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        setError(getErrorMessage(err));
+      });
+
+    return () => {
+      controller.abort();
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [unitId, stepId, file.name, file.size, kind]);
+
+  if (!kind) return <p className="text-muted">No preview for this file type.</p>;
+  if (file.size > MAX_PREVIEW_BYTES)
+    return <p className="text-muted">File is too large to preview; download it instead.</p>;
+  if (error) return <p className="text-error">Preview failed: {error}</p>;
+  if (!preview) return <p className="text-muted">Loading preview…</p>;
+
+  switch (preview.kind) {
+    case "image":
+      return <img className="evidence-preview__image" src={preview.url} alt={file.name} />;
+    case "pdf":
+      return <iframe className="evidence-preview__pdf" src={preview.url} title={file.name} />;
+    case "text":
+      return (
+        <>
+          <pre className="evidence-preview__text">{preview.text}</pre>
+          {preview.truncated && <p className="text-muted">Preview truncated.</p>}
+        </>
+      );
+    case "table": {
+      const [header, ...body] = preview.rows;
+      return (
+        <>
+          <div className="evidence-preview__table">
+            <table className="queue-table">
+              <thead>
+                <tr>
+                  {(header ?? []).map((h, i) => (
+                    <th key={i} align="left">
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {body.slice(0, MAX_TABLE_ROWS).map((row, r) => (
+                  <tr key={r}>
+                    {row.map((cell, c) => (
+                      <td key={c}>{cell}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {preview.truncated && (
+            <p className="text-muted">Showing the first {MAX_TABLE_ROWS} rows.</p>
+          )}
+        </>
+      );
+    }
+  }
+}
+
+interface Props {
+  unitId: string;
+  stepId: number;
+  canDelete: boolean;
+}
+
+/** File-by-file evidence for one step, with inline previews. */
+export default function EvidencePanel({ unitId, stepId, canDelete }: Props) {
+  const qc = useQueryClient();
+  const prompt = usePrompt();
+  const { data: files, isLoading, error } = useStepEvidence(unitId, stepId);
+  const [previewName, setPreviewName] = useState<string | null>(null);
+
+  const previewFile = files?.find((f) => f.name === previewName) ?? null;
+
+  async function handleDownload(name: string) {
+    try {
+      await downloadEvidenceFile(unitId, stepId, name);
+    } catch (err) {
+      prompt.alert(`Download failed: ${getErrorMessage(err)}`, "Download Error");
+    }
+  }
+
+  async function handleDelete(name: string) {
+    const ok = await prompt.confirm(
+      `Delete "${name}" from this step's evidence?`,
+      "Delete File",
+      { confirmText: "Delete", cancelText: "Cancel" }
+    );
+    if (!ok) return;
+
+    try {
+      await removeEvidenceFile(unitId, stepId, name);
+      if (previewName === name) setPreviewName(null);
+      await qc.invalidateQueries({ queryKey: ["unit", unitId] });
+    } catch (err) {
+      prompt.alert(`Failed to delete file: ${getErrorMessage(err)}`, "Delete Error");
+    }
+  }
+
+  if (isLoading) return <p className="text-muted">Loading files…</p>;
+  if (error) return <p className="text-error">Error: {getErrorMessage(error)}</p>;
+  if (!files || files.length === 0) return <p className="text-muted">No files.</p>;
+
+  return (
+    <div className="evidence-panel">
+      <table className="queue-table evidence-panel__table">
+        <thead>
+          <tr>
+            <th align="left">File</th>
+            <th align="right">Size</th>
+            <th align="left">Uploaded by</th>
+            <th align="left">Uploaded at</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {files.map((f) => (
+            <tr
+              key={f.name}
+              className={f.name === previewName ? "evidence-panel__row--active" : ""}
+            >
+              <td className="evidence-panel__name" title={f.name}>
+                {f.name}
+              </td>
+              <td align="right">{formatBytes(f.size)}</td>
+              <td>{f.uploaded_by || "-"}</td>
+              <td>{formatSingaporeDateTime(f.uploaded_at)}</td>
+              <td className="evidence-panel__actions">
+                {previewKind(f) && (
+                  <button
+                    type="button"
+                    className="btn btn-ghost btn-xs"
+                    onClick={() => setPreviewName(f.name === previewName ? null : f.name)}
+                  >
+                    {f.name === previewName ? "Hide" : "Preview"}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="btn btn-outline btn-xs"
+                  onClick={() => handleDownload(f.name)}
+                >
+                  Download
+                </button>
+                {canDelete && (
+                  <button
+                    type="button"
+                    className="btn btn-danger-outline btn-xs"
+                    onClick={() => handleDelete(f.name)}
+                  >
+                    Delete
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {previewFile && (
+        <div className="evidence-preview">
+          <div className="evidence-preview__title">{previewFile.name}</div>
+          <EvidencePreview
+            key={previewFile.name}
+            unitId={unitId}
+            stepId={stepId}
+            file={previewFile}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
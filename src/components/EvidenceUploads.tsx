@@ -0,0 +1,137 @@
+// src/components/EvidenceUploads.tsx
+import { useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useUploadTasks } from "../hooks";
+import {
+  cancelUpload,
+  clearFinishedUploads,
+  formatBytes,
+  pauseUpload,
+  reattachFiles,
+  resumeUpload,
+} from "../uploads";
+import type { UploadTask } from "../uploads";
+import { usePrompt } from "./PromptProvider";
+
+const STATUS_LABEL: Record<UploadTask["status"], string> = {
+  queued: "Queued",
+  uploading: "Uploading",
+  retrying: "Retrying",
+  paused: "Paused",
+  "needs-file": "Choose file to resume",
+  done: "Uploaded",
+  error: "Failed",
+  cancelled: "Cancelled",
+};
+
+/**
+ * Progress list for chunked evidence uploads: the current result's files
+ * plus any unfinished uploads left over from before a reload.
+ */
+export default function EvidenceUploads({ resultId }: { resultId: string | null }) {
+  const qc = useQueryClient();
+  const prompt = usePrompt();
+  const allTasks = useUploadTasks();
+
+  const tasks = allTasks.filter(
+    (t) =>
+      t.resultId === resultId || (t.status !== "done" && t.status !== "cancelled")
+  );
+  const needsFile = tasks.filter((t) => t.status === "needs-file");
+
+  // Refresh the unit once each file lands
+  const seenDone = useRef(new Set<string>());
+  useEffect(() => {
+    for (const t of allTasks) {
+      if (t.status !== "done" || seenDone.current.has(t.id)) continue;
+      seenDone.current.add(t.id);
+      qc.invalidateQueries({ queryKey: ["unit", t.unitId] });
+    }
+  }, [allTasks, qc]);
+
+  if (tasks.length === 0) return null;
+
+  return (
+    <div className="evidence-uploads">
+      {needsFile.length > 0 && (
+        <div className="banner banner--error evidence-uploads__resume">
+          {needsFile.length} upload{needsFile.length !== 1 ? "s were" : " was"} interrupted.
+          Choose the same file{needsFile.length !== 1 ? "s" : ""} again to continue:
+          <input
+            type="file"
+            multiple
+            onChange={async (e) => {
+              const picked = Array.from(e.target.files ?? []);
+              e.target.value = "";
+              const matched = reattachFiles(picked);
+              if (matched === 0) {
+                await prompt.alert(
+                  "None of the chosen files match an interrupted upload (name, size and date must be the same).",
+                  "Resume Upload"
+                );
+              }
+            }}
+          />
+        </div>
+      )}
+
+      <ul className="evidence-uploads__list">
+        {tasks.map((t) => {
+          const pct = t.size === 0 ? 100 : Math.floor((t.received / t.size) * 100);
+          const active = t.status === "uploading" || t.status === "retrying" || t.status === "queued";
+          return (
+            <li key={t.id} className={`evidence-upload evidence-upload--${t.status}`}>
+              <div className="evidence-upload__head">
+                <span className="evidence-upload__name" title={t.fileName}>
+                  {t.fileName}
+                </span>
+                <span className="evidence-upload__meta">
+                  {t.resultId !== resultId && `${t.unitId} · `}
+                  {formatBytes(t.received)} / {formatBytes(t.size)} ·{" "}
+                  {STATUS_LABEL[t.status]}
+                  {t.status === "retrying" && ` (attempt ${t.attempt})`}
+                </span>
+              </div>
+
+              <div className="evidence-upload__bar">
+                <div className="evidence-upload__fill" style={{ width: `${pct}%` }} />
+              </div>
+
+              {t.error && (t.status === "error" || t.status === "retrying") && (
+                <div className="evidence-upload__error">{t.error}</div>
+              )}
+
+              <div className="evidence-upload__actions">
+                {active && (
+                  <button type="button" className="btn btn-ghost btn-xs" onClick={() => pauseUpload(t.id)}>
+                    Pause
+                  </button>
+                )}
+                {(t.status === "paused" || t.status === "error") && (
+                  <button type="button" className="btn btn-ghost btn-xs" onClick={() => resumeUpload(t.id)}>
+                    {t.status === "error" ? "Retry" : "Resume"}
+                  </button>
+                )}
+                {t.status !== "done" && t.status !== "cancelled" && (
+                  <button type="button" className="btn btn-ghost btn-xs" onClick={() => cancelUpload(t.id)}>
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {tasks.some((t) => t.status === "done" || t.status === "cancelled") && (
+        <button
+          type="button"
+          className="btn btn-outline btn-xs"
+          onClick={() => clearFinishedUploads(resultId ?? undefined)}
+        >
+          Clear finished
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+// src/components/LiveStatusIndicator.tsx
+import { useLiveStatus } from "../hooks";
+import type { LiveStatus } from "../liveEvents";
+
+const LABELS: Record<LiveStatus, { text: string; title: string }> = {
+  connected: { text: "Live", title: "Receiving live updates from the server." },
+  connecting: { text: "Connecting…", title: "Opening the live update stream." },
+  reconnecting: {
+    text: "Reconnecting…",
+    title: "Live updates dropped. Refreshing periodically until reconnected.",
+  },
+  offline: {
+    text: "Offline",
+    title: "Not connected for live updates. Data refreshes periodically.",
+  },
+  unsupported: {
+    text: "Polling",
+    title: "This browser does not support live updates. Data refreshes periodically.",
+  },
+};
+
+export default function LiveStatusIndicator() {
+  const status = useLiveStatus();
+  const { text, title } = LABELS[status];
+
+  return (
+    <span className={`live-status live-status--${status}`} title={title}>
+      <span className="live-status__dot" />
+      {text}
+    </span>
+  );
+}
@@ -0,0 +1,278 @@
+// src/components/MetricTrendChart.tsx
+import { useMemo } from "react";
+import { useStepResults } from "../hooks";
+import { getErrorMessage } from "../api";
+import type { Result, TestStep } from "../api";
+import { formatSingaporeDateTime } from "../dates";
+import {
+  NEAR_LIMIT_FRACTION,
+  VERDICT_OVERRIDE_KEY,
+  evaluateLimit,
+  formatLimit,
+  hasLimit,
+  isNearLimit,
+  numericMetric,
+} from "../metrics";
+
+interface Props {
+  steps: TestStep[];
+  stepId: number | null;
+  metricKey: string;
+  currentUnitId: string;
+  onChange: (stepId: number | null, metricKey: string) => void;
+  onOpenUnit: (unitId: string) => void;
+}
+
+interface Point {
+  unitId: string;
+  value: number;
+  finishedAt: string;
+  status: "pass" | "fail" | "near" | "plain";
+}
+
+const W = 720;
+const H = 260;
+const PAD = { top: 16, right: 16, bottom: 40, left: 56 };
+const MAX_X_LABELS = 30;
+
+function niceTicks(min: number, max: number, count = 5): number[] {
+  if (min === max) return [min];
+  const step = (max - min) / (count - 1);
+  return Array.from({ length: count }, (_, i) => min + step * i);
+}
+
+function formatTick(n: number) {
+  const abs = Math.abs(n);
+  if (abs !== 0 && (abs >= 1e5 || abs < 1e-2)) return n.toExponential(1);
+  return Number(n.toFixed(2)).toString();
+}
+
+/**
+ * One metric of one step plotted across every unit that has a result for it,
+ * oldest first, with the step limit as a threshold line.
+ */
+export default function MetricTrendChart({
+  steps,
+  stepId,
+  metricKey,
+  currentUnitId,
+  onChange,
+  onOpenUnit,
+}: Props) {
+  const { data: results, isLoading, error } = useStepResults(stepId);
+  const step = steps.find((s) => s.id === stepId) ?? null;
+  const sortedSteps = useMemo(
+    () => steps.slice().sort((a, b) => a.order - b.order),
+    [steps]
+  );
+
+  // Every numeric metric recorded for this step, limit metric first
+  const metricKeys = useMemo(() => {
+    const keys = new Set<string>();
+    for (const r of results ?? []) {
+      for (const [k, v] of Object.entries(r.metrics ?? {})) {
+        if (k !== VERDICT_OVERRIDE_KEY && numericMetric(v) !== null) keys.add(k);
+      }
+    }
+    const limitKey = step?.limit_metric?.trim();
+    const list = Array.from(keys).sort();
+    return limitKey && keys.has(limitKey)
+      ? [limitKey, ...list.filter((k) => k !== limitKey)]
+      : list;
+  }, [results, step]);
+
+  const points: Point[] = useMemo(() => {
+    const isLimitMetric = metricKey === step?.limit_metric?.trim();
+    return (results ?? [])
+      .map((r) => ({ r, value: numericMetric(r.metrics?.[metricKey]) }))
+      .filter((x): x is { r: Result; value: number } => x.value !== null)
+      .sort((a, b) => a.r.finished_at.localeCompare(b.r.finished_at))
+      .map(({ r, value }) => {
+        let status: Point["status"] = "plain";
+        if (isLimitMetric && hasLimit(step)) {
+          if (evaluateLimit(step, value) === "FAIL") status = "fail";
+          else if (isNearLimit(step, value)) status = "near";
+          else status = "pass";
+        }
+        return { unitId: r.unit_id, value, finishedAt: r.finished_at, status };
+      });
+  }, [results, metricKey, step]);
+
+  const limitValue =
+    hasLimit(step) && metricKey === step?.limit_metric?.trim()
+      ? (step!.limit_value as number)
+      : null;
+
+  // y-range covers the data and the threshold, with a little headroom
+  const values = points.map((p) => p.value);
+  if (limitValue !== null) values.push(limitValue);
+  let yMin = values.length ? Math.min(...values) : 0;
+  let yMax = values.length ? Math.max(...values) : 1;
+  const span = yMax - yMin || Math.abs(yMax) || 1;
+  yMin -= span * 0.1;
+  yMax += span * 0.1;
+
+  const plotW = W - PAD.left - PAD.right;
+  const plotH = H - PAD.top - PAD.bottom;
+  const x = (i: number) =>
+    PAD.left + (points.length <= 1 ? plotW / 2 : (i / (points.length - 1)) * plotW);
+  const y = (v: number) => PAD.top + (1 - (v - yMin) / (yMax - yMin)) * plotH;
+
+  const nearCount = points.filter((p) => p.status === "near").length;
+  const failCount = points.filter((p) => p.status === "fail").length;
+
+  return (
+    <div className="metric-trend">
+      <div className="metric-trend__controls">
+        <label className="form-label">
+          Step
+          <select
+            className="scheduler-field"
+            value={stepId ?? ""}
+            onChange={(e) => {
+              const id = e.target.value ? Number(e.target.value) : null;
+              const next = steps.find((s) => s.id === id);
+              onChange(id, next?.limit_metric?.trim() ?? "");
+            }}
+          >
+            <option value="">Choose a step…</option>
+            {sortedSteps.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.order}. {s.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="form-label">
+          Metric
+          <select
+            className="scheduler-field"
+            value={metricKey}
+            disabled={!stepId}
+            onChange={(e) => onChange(stepId, e.target.value)}
+          >
+            {!metricKey && <option value="">Choose a metric…</option>}
+            {metricKey && !metricKeys.includes(metricKey) && (
+              <option value={metricKey}>{metricKey}</option>
+            )}
+            {metricKeys.map((k) => (
+              <option key={k} value={k}>
+                {k}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {step && limitValue !== null && (
+          <span className="metric-trend__limit">Limit: {formatLimit(step)}</span>
+        )}
+      </div>
+
+      {!stepId ? (
+        <p className="text-muted">Pick a step to compare its results across units.</p>
+      ) : isLoading ? (
+        <p className="text-muted">Loading results…</p>
+      ) : error ? (
+        <p className="text-error">Error: {getErrorMessage(error)}</p>
+      ) : !metricKey || points.length === 0 ? (
+        <p className="text-muted">No numeric values recorded for this metric yet.</p>
+      ) : (
+        <>
+          <svg
+            className="metric-trend__chart"
+            viewBox={`0 0 ${W} ${H}`}
+            role="img"
+            aria-label={`${metricKey} across units`}
+          >
+            {niceTicks(yMin, yMax).map((t) => (
+              <g key={t}>
+                <line
+                  className="metric-trend__grid"
+                  x1={PAD.left}
+                  x2={W - PAD.right}
+                  y1={y(t)}
+                  y2={y(t)}
+                />
+                <text className="metric-trend__tick" x={PAD.left - 6} y={y(t) + 4} textAnchor="end">
+                  {formatTick(t)}
+                </text>
+              </g>
+            ))}
+
+            {limitValue !== null && (
+              <g>
+                <line
+                  className="metric-trend__threshold"
+                  x1={PAD.left}
+                  x2={W - PAD.right}
+                  y1={y(limitValue)}
+                  y2={y(limitValue)}
+                />
+                <text
+                  className="metric-trend__threshold-label"
+                  x={W - PAD.right}
+                  y={y(limitValue) - 4}
+                  textAnchor="end"
+                >
+                  limit {formatTick(limitValue)}
+                </text>
+              </g>
+            )}
+
+            <polyline
+              className="metric-trend__line"
+              points={points.map((p, i) => `${x(i)},${y(p.value)}`).join(" ")}
+            />
+
+            {points.map((p, i) => (
+              <circle
+                key={`${p.unitId}-${i}`}
+                className={
+                  `metric-trend__point metric-trend__point--${p.status}` +
+                  (p.unitId === currentUnitId ? " metric-trend__point--current" : "")
+                }
+                cx={x(i)}
+                cy={y(p.value)}
+                r={p.unitId === currentUnitId ? 6 : 4}
+                onClick={() => onOpenUnit(p.unitId)}
+              >
+                <title>
+                  {p.unitId}: {p.value} ({formatSingaporeDateTime(p.finishedAt)})
+                </title>
+              </circle>
+            ))}
+
+            {points.length <= MAX_X_LABELS &&
+              points.map((p, i) => (
+                <text
+                  key={`label-${p.unitId}-${i}`}
+                  className="metric-trend__tick"
+                  x={x(i)}
+                  y={H - PAD.bottom + 14}
+                  textAnchor="end"
+                  transform={`rotate(-30 ${x(i)} ${H - PAD.bottom + 14})`}
+                >
+                  {p.unitId}
+                </text>
+              ))}
+          </svg>
+
+          <div className="metric-trend__legend">
+            {points.length} unit{points.length !== 1 ? "s" : ""}
+            {limitValue !== null && (
+              <>
+                {" · "}
+                <span className="metric-trend__swatch metric-trend__swatch--near" />
+                {nearCount} within {NEAR_LIMIT_FRACTION * 100}% of limit
+                {" · "}
+                <span className="metric-trend__swatch metric-trend__swatch--fail" />
+                {failCount} over limit
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+// src/components/NcrPanel.tsx
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useNcrTransition, usePermissions, useTesters, useUpdateNcr } from "../hooks";
+import { ApiError, getErrorMessage } from "../api";
+import type { Ncr, NcrAction, NcrDisposition, TestStep } from "../api";
+import { formatSingaporeDateTime } from "../dates";
+import { DISPOSITION_LABELS, NCR_STATUS_LABELS, isOpenNcr, ncrLabel } from "../ncr";
+import { usePrompt } from "./PromptProvider";
+
+interface Props {
+  unitId: string;
+  ncrs: Ncr[];
+  stepsById: Map<number, TestStep>;
+}
+
+const DISPOSITIONS = Object.keys(DISPOSITION_LABELS) as NcrDisposition[];
+
+function NcrItem({
+  ncr,
+  step,
+  testers,
+}: {
+  ncr: Ncr;
+  step: TestStep | undefined;
+  testers: string[];
+}) {
+  const qc = useQueryClient();
+  const prompt = usePrompt();
+  const { can } = usePermissions();
+  const canWork = can("ncr:raise");
+  const canApprove = can("ncr:approve");
+  const updateNcr = useUpdateNcr();
+  const transition = useNcrTransition();
+
+  const [disposition, setDisposition] = useState<NcrDisposition | "">(ncr.disposition ?? "");
+  const [owner, setOwner] = useState(ncr.owner ?? "");
+  const [note, setNote] = useState("");
+
+  const busy = updateNcr.isPending || transition.isPending;
+  const dirty = disposition !== (ncr.disposition ?? "") || owner.trim() !== (ncr.owner ?? "");
+
+  async function handleError(err: unknown, title: string) {
+    if (err instanceof ApiError && err.isConflict) {
+      await qc.invalidateQueries({ queryKey: ["unit", ncr.unit_id, "ncrs"] });
+      prompt.alert(
+        "This NCR was changed by someone else. It has been reloaded; please try again.",
+        title
+      );
+      return;
+    }
+    prompt.alert(getErrorMessage(err), title);
+  }
+
+  /** Saves the disposition and owner; false when the save failed (already reported). */
+  async function save(): Promise<boolean> {
+    try {
+      await updateNcr.mutateAsync({
+        id: ncr.id,
+        patch: {
+          disposition: disposition || null,
+          owner: owner.trim() || null,
+          version: ncr.version,
+        },
+      });
+      return true;
+    } catch (err) {
+      await handleError(err, "Save Failed");
+      return false;
+    }
+  }
+
+  async function run(action: NcrAction, confirmText?: string) {
+    if (confirmText) {
+      const ok = await prompt.confirm(confirmText, NCR_STATUS_LABELS[ncr.status], {
+        confirmText: "Confirm",
+        cancelText: "Cancel",
+      });
+      if (!ok) return;
+    }
+    try {
+      if (action === "submit" && dirty && !(await save())) return;
+      await transition.mutateAsync({ id: ncr.id, action, note: note.trim() || undefined });
+      setNote("");
+    } catch (err) {
+      await handleError(err, "Update Failed");
+    }
+  }
+
+  const editable = canWork && ncr.status === "OPEN";
+
+  return (
+    <li className={`ncr-item ncr-item--${ncr.status.toLowerCase()}`}>
+      <div className="ncr-item__header">
+        <span className="ncr-item__id">{ncrLabel(ncr)}</span>
+        <span className="ncr-item__step">
+          {step ? `${step.order}. ${step.name}` : `Step ${ncr.step_id}`}
+        </span>
+        <span className={`ncr-status ncr-status--${ncr.status.toLowerCase()}`}>
+          {NCR_STATUS_LABELS[ncr.status]}
+        </span>
+      </div>
+
+      <p className="ncr-item__description">{ncr.description}</p>
+
+      <div className="ncr-item__fields">
+        <label className="form-label">
+          Disposition
+          {editable ? (
+            <select
+              className="scheduler-field"
+              value={disposition}
+              onChange={(e) => setDisposition(e.target.value as NcrDisposition | "")}
+            >
+              <option value="">Choose…</option>
+              {DISPOSITIONS.map((d) => (
+                <option key={d} value={d}>
+                  {DISPOSITION_LABELS[d]}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <span>{ncr.disposition ? DISPOSITION_LABELS[ncr.disposition] : "-"}</span>
+          )}
+        </label>
+
+        <label className="form-label">
+          Owner
+          {editable ? (
+            <>
+              <input
+                className="scheduler-field"
+                list={`ncr-owners-${ncr.id}`}
+                value={owner}
+                onChange={(e) => setOwner(e.target.value)}
+              />
+              <datalist id={`ncr-owners-${ncr.id}`}>
+                {testers.map((t) => (
+                  <option key={t} value={t} />
+                ))}
+              </datalist>
+            </>
+          ) : (
+            <span>{ncr.owner || "-"}</span>
+          )}
+        </label>
+
+        <div className="ncr-item__meta">
+          Raised by {ncr.created_by || "unknown"} · {formatSingaporeDateTime(ncr.created_at)}
+          {ncr.approved_by && (
+            <>
+              <br />
+              Approved by {ncr.approved_by} · {formatSingaporeDateTime(ncr.approved_at)}
+            </>
+          )}
+          {ncr.closed_at && (
+            <>
+              <br />
+              Closed · {formatSingaporeDateTime(ncr.closed_at)}
+            </>
+          )}
+        </div>
+      </div>
+
+      {ncr.review_note && <p className="ncr-item__note">Review note: {ncr.review_note}</p>}
+
+      {ncr.status === "AWAITING_APPROVAL" && canApprove && (
+        <textarea
+          className="form-control ncr-item__note-input"
+          rows={2}
+          placeholder="Review note (required to reject)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+      )}
+
+      <div className="ncr-item__actions">
+        {editable && (
+          <>
+            <button
+              type="button"
+              className="btn btn-outline btn-xs"
+              disabled={busy || !dirty}
+              onClick={save}
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              className="btn btn-primary btn-xs"
+              disabled={busy || !disposition || !owner.trim()}
+              title={!disposition || !owner.trim() ? "Choose a disposition and owner first" : ""}
+              onClick={() => run("submit")}
+            >
+              Submit for approval
+            </button>
+          </>
+        )}
+
+        {ncr.status === "AWAITING_APPROVAL" && canApprove && (
+          <>
+            <button
+              type="button"
+              className="btn btn-primary btn-xs"
+              disabled={busy}
+              onClick={() =>
+                run(
+                  "approve",
+                  `Approve "${ncr.disposition ? DISPOSITION_LABELS[ncr.disposition] : "-"}" for ${ncr.unit_id}?`
+                )
+              }
+            >
+              Approve
+            </button>
+            <button
+              type="button"
+              className="btn btn-danger-outline btn-xs"
+              disabled={busy || !note.trim()}
+              onClick={() => run("reject")}
+            >
+              Reject
+            </button>
+          </>
+        )}
+
+        {ncr.status === "APPROVED" && canWork && (
+          <button
+            type="button"
+            className="btn btn-primary btn-xs"
+            disabled={busy}
+            onClick={() =>
+              run(
+                "close",
+                ncr.disposition === "SCRAP"
+                  ? "Close this NCR? The unit is scrapped and its remaining steps stay blocked."
+                  : "Close this NCR? The disposition has been carried out and the unit's next steps will be released."
+              )
+            }
+          >
+            Close NCR
+          </button>
+        )}
+
+        {ncr.status === "CLOSED" && canApprove && (
+          <button
+            type="button"
+            className="btn btn-ghost btn-xs"
+            disabled={busy}
+            onClick={() => run("reopen", "Reopen this NCR? The unit's next steps will be blocked again.")}
+          >
+            Reopen
+          </button>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/** Non-conformances raised on this unit; open ones first. */
+export default function NcrPanel({ unitId, ncrs, stepsById }: Props) {
+  const { data: testers } = useTesters();
+  const sorted = ncrs
+    .slice()
+    .sort(
+      (a, b) =>
+        Number(isOpenNcr(b)) - Number(isOpenNcr(a)) ||
+        String(b.created_at).localeCompare(String(a.created_at))
+    );
+
+  if (sorted.length === 0) {
+    return <p className="text-muted">No non-conformances raised for {unitId}.</p>;
+  }
+
+  return (
+    <ul className="ncr-list">
+      {sorted.map((n) => (
+        <NcrItem
+          key={`${n.id}-${n.version ?? ""}-${n.status}`}
+          ncr={n}
+          step={stepsById.get(n.step_id)}
+          testers={testers ?? []}
+        />
+      ))}
+    </ul>
+  );
+}
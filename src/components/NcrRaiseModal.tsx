@@ -0,0 +1,118 @@
+// src/components/NcrRaiseModal.tsx
+import { useState } from "react";
+import { useCreateNcr, useTesters } from "../hooks";
+import { getErrorMessage } from "../api";
+import type { NcrDisposition, Result, TestStep } from "../api";
+import { DISPOSITION_LABELS } from "../ncr";
+
+interface Props {
+  unitId: string;
+  step: TestStep;
+  result: Result;
+  onClose: () => void;
+}
+
+const DISPOSITIONS = Object.keys(DISPOSITION_LABELS) as NcrDisposition[];
+
+/** Raise a non-conformance against a failed result. */
+export default function NcrRaiseModal({ unitId, step, result, onClose }: Props) {
+  const createNcr = useCreateNcr();
+  const { data: testers } = useTesters();
+  const [description, setDescription] = useState("");
+  const [disposition, setDisposition] = useState<NcrDisposition | "">("");
+  const [owner, setOwner] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit() {
+    if (!description.trim()) {
+      setError("Please describe the non-conformance.");
+      return;
+    }
+    setError(null);
+    try {
+      await createNcr.mutateAsync({
+        unit_id: unitId,
+        step_id: step.id,
+        result_id: result.id,
+        description: description.trim(),
+        disposition: disposition || null,
+        owner: owner.trim() || null,
+      });
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  }
+
+  return (
+    <div className="prompt-backdrop">
+      <div className="prompt-modal ncr-modal">
+        <div className="prompt-title">Raise NCR</div>
+        <div className="prompt-message">
+          <p className="text-muted" style={{ marginBottom: 8 }}>
+            {unitId} · {step.order}. {step.name} failed on{" "}
+            {String(result.finished_at).slice(0, 10)}. The unit's later steps are blocked
+            until the NCR is closed.
+          </p>
+
+          <label className="form-label">
+            What went wrong
+            <textarea
+              className="form-control"
+              rows={3}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </label>
+
+          <label className="form-label">
+            Proposed disposition
+            <select
+              className="form-control"
+              value={disposition}
+              onChange={(e) => setDisposition(e.target.value as NcrDisposition | "")}
+            >
+              <option value="">Decide later</option>
+              {DISPOSITIONS.map((d) => (
+                <option key={d} value={d}>
+                  {DISPOSITION_LABELS[d]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="form-label">
+            Owner
+            <input
+              className="form-control"
+              list="ncr-raise-owners"
+              value={owner}
+              onChange={(e) => setOwner(e.target.value)}
+            />
+            <datalist id="ncr-raise-owners">
+              {(testers ?? []).map((t) => (
+                <option key={t} value={t} />
+              ))}
+            </datalist>
+          </label>
+
+          {error && <div className="banner banner--error">{error}</div>}
+        </div>
+
+        <div className="prompt-actions">
+          <button type="button" className="btn btn-outline" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="btn btn-primary"
+            disabled={createNcr.isPending}
+            onClick={handleSubmit}
+          >
+            {createNcr.isPending ? "Raising…" : "Raise NCR"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
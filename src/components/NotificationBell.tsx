@@ -0,0 +1,149 @@
+// src/components/NotificationBell.tsx
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import {
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+  useSteps,
+  useTesterNotifications,
+} from "../hooks";
+import type { Notification } from "../api";
+import { parseBackendTimestamp } from "../dates";
+
+const DROPDOWN_LIMIT = 10;
+
+function stepLabel(
+  stepNames: Map<number, string>,
+  stepId: number
+): string {
+  return stepNames.get(stepId) ?? `Step ${stepId}`;
+}
+
+function timeAgo(iso: string): string {
+  const d = parseBackendTimestamp(iso);
+  if (!d) return "-";
+  return formatDistanceToNow(d, { addSuffix: true });
+}
+
+export default function NotificationBell({ testerId }: { testerId: string }) {
+  const { data: notifications } = useTesterNotifications(testerId);
+  const { data: steps } = useSteps();
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // close when clicking anywhere outside the bell / dropdown
+  useEffect(() => {
+    if (!open) return;
+    const onDown = (e: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", onDown);
+    return () => document.removeEventListener("mousedown", onDown);
+  }, [open]);
+
+  const stepNames = useMemo(() => {
+    const m = new Map<number, string>();
+    steps?.forEach((s) => m.set(s.id, s.name));
+    return m;
+  }, [steps]);
+
+  const sorted: Notification[] = useMemo(
+    () =>
+      (notifications ?? [])
+        .slice()
+        .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+    [notifications]
+  );
+
+  const unread = sorted.filter((n) => !n.read);
+  const unreadCount = unread.length;
+
+  return (
+    <div className="notif-bell" ref={rootRef}>
+      <button
+        type="button"
+        className="notif-bell__button"
+        onClick={() => setOpen((v) => !v)}
+        aria-label={`Notifications (${unreadCount} unread)`}
+      >
+        🔔
+        {unreadCount > 0 && (
+          <span className="notif-bell__badge">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="notif-dropdown">
+          <div className="notif-dropdown__header">
+            <span className="notif-dropdown__title">Notifications</span>
+            <button
+              type="button"
+              className="btn btn-outline btn-xs"
+              disabled={unreadCount === 0 || markAllRead.isPending}
+              onClick={() => markAllRead.mutate(unread.map((n) => n.id))}
+            >
+              Mark all read
+            </button>
+          </div>
+
+          {sorted.length === 0 && (
+            <div className="notif-dropdown__empty">No notifications yet.</div>
+          )}
+
+          <ul className="notif-list">
+            {sorted.slice(0, DROPDOWN_LIMIT).map((n) => (
+              <li
+                key={n.id}
+                className={"notif-item" + (n.read ? "" : " notif-item--unread")}
+              >
+                <Link
+                  to={`/units/${encodeURIComponent(n.unit_id)}`}
+                  className="notif-item__link"
+                  onClick={() => {
+                    if (!n.read) markRead.mutate(n.id);
+                    setOpen(false);
+                  }}
+                >
+                  <div className="notif-item__unit">{n.unit_id}</div>
+                  <div className="notif-item__handoff">
+                    {stepLabel(stepNames, n.from_step_id)} →{" "}
+                    {stepLabel(stepNames, n.to_step_id)}
+                  </div>
+                  {n.message && (
+                    <div className="notif-item__message">{n.message}</div>
+                  )}
+                  <div className="notif-item__time">{timeAgo(n.created_at)}</div>
+                </Link>
+
+                {!n.read && (
+                  <button
+                    type="button"
+                    className="btn btn-ghost btn-xs"
+                    title="Mark read"
+                    onClick={() => markRead.mutate(n.id)}
+                  >
+                    ✓
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="notif-dropdown__footer">
+            <Link to="/notifications" onClick={() => setOpen(false)}>
+              View all notifications
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
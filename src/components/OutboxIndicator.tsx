@@ -0,0 +1,128 @@
+// src/components/OutboxIndicator.tsx
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useOnlineStatus, useOutbox } from "../hooks";
+import {
+  discardOutboxEntry,
+  forceOutboxEntry,
+  replayOutbox,
+} from "../offline";
+import { usePrompt } from "./PromptProvider";
+import { getErrorMessage } from "../api";
+
+export default function OutboxIndicator({ testerId }: { testerId: string }) {
+  const qc = useQueryClient();
+  const prompt = usePrompt();
+  const online = useOnlineStatus();
+  const entries = useOutbox().filter((e) => e.testerId === testerId);
+  const [open, setOpen] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+
+  const pending = entries.filter((e) => e.state === "pending").length;
+  const problems = entries.filter((e) => e.state !== "pending");
+
+  if (online && entries.length === 0) return null;
+
+  const syncNow = async () => {
+    setSyncing(true);
+    try {
+      await replayOutbox(qc, testerId);
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <div
+      className={
+        "outbox-banner" +
+        (problems.length > 0 ? " outbox-banner--problem" : "") +
+        (!online ? " outbox-banner--offline" : "")
+      }
+    >
+      <div className="outbox-banner__summary">
+        <span>
+          {!online && <strong>Offline. </strong>}
+          {entries.length === 0
+            ? "Your actions will be saved and sent when the connection returns."
+            : `${pending} action${pending !== 1 ? "s" : ""} pending sync`}
+          {problems.length > 0 &&
+            ` · ${problems.length} need${problems.length === 1 ? "s" : ""} attention`}
+        </span>
+
+        {entries.length > 0 && (
+          <span style={{ display: "flex", gap: 6 }}>
+            {online && pending > 0 && (
+              <button
+                type="button"
+                className="btn btn-outline btn-xs"
+                disabled={syncing}
+                onClick={syncNow}
+              >
+                {syncing ? "Syncing…" : "Sync now"}
+              </button>
+            )}
+            <button
+              type="button"
+              className="btn btn-ghost btn-xs"
+              onClick={() => setOpen((v) => !v)}
+            >
+              {open ? "Hide" : "Details"}
+            </button>
+          </span>
+        )}
+      </div>
+
+      {open && entries.length > 0 && (
+        <ul className="outbox-list">
+          {entries.map((e) => (
+            <li key={e.id} className={`outbox-item outbox-item--${e.state}`}>
+              <div>
+                <div className="outbox-item__label">{e.label}</div>
+                <div className="outbox-item__meta">
+                  {new Date(e.createdAt).toLocaleTimeString()}
+                  {e.state === "pending" ? " · waiting" : ` · ${e.error ?? e.state}`}
+                </div>
+              </div>
+
+              {e.state !== "pending" && (
+                <span style={{ display: "flex", gap: 6 }}>
+                  <button
+                    type="button"
+                    className="btn btn-outline btn-xs"
+                    disabled={!online}
+                    onClick={async () => {
+                      const ok = await prompt.confirm(
+                        `Send "${e.label}" anyway? This overwrites the other change.`,
+                        "Resolve Conflict",
+                        { confirmText: "Send mine" }
+                      );
+                      if (!ok) return;
+                      try {
+                        await forceOutboxEntry(qc, e.id);
+                      } catch (err) {
+                        await prompt.alert(getErrorMessage(err), "Sync Failed");
+                      }
+                    }}
+                  >
+                    Send mine
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-ghost btn-xs"
+                    onClick={() => {
+                      discardOutboxEntry(e.id);
+                      qc.invalidateQueries({ queryKey: ["testerAssignments", testerId] });
+                    }}
+                  >
+                    Discard
+                  </button>
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+// src/components/PrerequisitePicker.tsx
+import type { EditableStep } from "../stepCatalog";
+
+interface Props {
+  step: EditableStep;
+  rows: EditableStep[]; // the whole editor, in display order
+  disabled?: boolean;
+  onChange: (prerequisites: string[] | null) => void;
+}
+
+/** Which steps a catalog row waits for: the row above (linear) or any set of earlier rows. */
+export default function PrerequisitePicker({ step, rows, disabled, onChange }: Props) {
+  const index = rows.findIndex((r) => r.key === step.key);
+  const chosen = new Set(step.prerequisites ?? []);
+  // Earlier rows, plus anything already picked so it can be unticked after a reorder
+  const options = rows.filter(
+    (r, i) => r.key !== step.key && ((i < index && !r.retired) || chosen.has(r.key))
+  );
+  const nameOf = (key: string) =>
+    rows.find((r) => r.key === key)?.name.trim() || "Unnamed step";
+
+  const summary =
+    step.prerequisites == null
+      ? "Step above"
+      : step.prerequisites.length === 0
+        ? "None (can start first)"
+        : step.prerequisites.map(nameOf).join(", ");
+
+  function toggle(key: string, on: boolean) {
+    const next = (step.prerequisites ?? []).filter((k) => k !== key);
+    onChange(on ? [...next, key] : next);
+  }
+
+  if (disabled) return <span className="text-muted">{summary}</span>;
+
+  return (
+    <details className="step-prereqs">
+      <summary className="step-prereqs__summary" title={summary}>
+        {summary}
+      </summary>
+      <div className="step-prereqs__menu">
+        <label className="step-prereqs__option">
+          <input
+            type="radio"
+            checked={step.prerequisites == null}
+            onChange={() => onChange(null)}
+          />
+          The step above (linear)
+        </label>
+        <label className="step-prereqs__option">
+          <input
+            type="radio"
+            checked={step.prerequisites != null}
+            onChange={() => onChange([])}
+          />
+          Only these steps:
+        </label>
+        {step.prerequisites != null &&
+          (options.length === 0 ? (
+            <div className="step-prereqs__empty text-muted">No earlier steps.</div>
+          ) : (
+            options.map((r) => (
+              <label key={r.key} className="step-prereqs__option step-prereqs__option--step">
+                <input
+                  type="checkbox"
+                  checked={chosen.has(r.key)}
+                  onChange={(e) => toggle(r.key, e.target.checked)}
+                />
+                {nameOf(r.key)}
+              </label>
+            ))
+          ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,49 @@
+// src/components/RequirePermission.tsx
+import type { ReactNode } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { getErrorMessage, getRole, hasSession } from "../api";
+import { useCurrentUser } from "../hooks";
+import { can } from "../permissions";
+import type { Permission } from "../permissions";
+import ForbiddenPage from "../pages/ForbiddenPage";
+
+interface Props {
+  // any one of these is enough; omit to allow any signed-in user
+  permission?: Permission | Permission[];
+  children: ReactNode;
+}
+
+/**
+ * Gate a route on the role the SERVER reports for the current token,
+ * not the role cached in localStorage (offline, the role it last
+ * reported). Signed-in users without the permission get the 403 page
+ * instead of the route.
+ */
+export default function RequirePermission({ permission, children }: Props) {
+  const location = useLocation();
+  const { data: me, isLoading, isPaused, error } = useCurrentUser();
+
+  if (!hasSession()) {
+    const next = location.pathname + location.search;
+    return <Navigate to={`/login?next=${encodeURIComponent(next)}`} replace />;
+  }
+
+  if (error) {
+    return <p className="text-error">Could not verify your session: {getErrorMessage(error)}</p>;
+  }
+
+  // Offline (query paused): fall back to the role /auth/me last confirmed
+  const role = me?.role ?? (isPaused ? getRole() : null);
+  if (isLoading || !role) return <p className="text-muted">Checking access…</p>;
+
+  const required = permission
+    ? Array.isArray(permission)
+      ? permission
+      : [permission]
+    : [];
+  if (required.length > 0 && !required.some((p) => can(role, p))) {
+    return <ForbiddenPage />;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,95 @@
+// src/components/ResultMetrics.tsx
+import type { Result, TestStep } from "../api";
+import {
+  formatLimit,
+  formatMetricValue,
+  isNearLimit,
+  metricEntries,
+  numericMetric,
+  readVerdictOverride,
+} from "../metrics";
+
+interface Props {
+  result: Result;
+  step: TestStep;
+  onShowTrend?: (metricKey: string) => void;
+}
+
+/** One result's recorded metrics as a table, limit metric first. */
+export default function ResultMetrics({ result, step, onShowTrend }: Props) {
+  const entries = metricEntries(result, step);
+  const override = readVerdictOverride(result.metrics);
+  const limit = formatLimit(step);
+
+  return (
+    <div className="result-metrics">
+      <div className="result-metrics__header">
+        <span className="result-metrics__title">
+          {step.order}. {step.name}
+        </span>
+        <span
+          className={`result-pill ${result.passed ? "result-pill--pass" : "result-pill--fail"}`}
+        >
+          {result.passed ? "PASS" : "FAIL"}
+        </span>
+        {limit && <span className="result-metrics__limit">Limit: {limit}</span>}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-muted">No metrics recorded.</p>
+      ) : (
+        <table className="queue-table result-metrics__table">
+          <thead>
+            <tr>
+              <th align="left">Metric</th>
+              <th align="right">Value</th>
+              <th align="left">Unit</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((m) => (
+              <tr
+                key={m.key}
+                className={
+                  m.verdict === "FAIL"
+                    ? "result-metrics__row--fail"
+                    : isNearLimit(step, m.value) && m.isLimit
+                    ? "result-metrics__row--near"
+                    : ""
+                }
+              >
+                <td>
+                  {m.label}
+                  {m.isLimit && <span className="result-metrics__badge">limit</span>}
+                </td>
+                <td align="right" className="result-metrics__value">
+                  {formatMetricValue(m.value)}
+                </td>
+                <td>{m.unit ?? ""}</td>
+                <td align="right">
+                  {onShowTrend && numericMetric(m.value) !== null && (
+                    <button
+                      type="button"
+                      className="btn btn-ghost btn-xs"
+                      onClick={() => onShowTrend(m.key)}
+                    >
+                      Trend
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {override && (
+        <p className="result-metrics__override">
+          Verdict overridden to <strong>{override.chosen}</strong>
+          {override.computed && ` (computed ${override.computed})`}: {override.justification}
+        </p>
+      )}
+    </div>
+  );
+}
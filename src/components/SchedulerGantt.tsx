@@ -0,0 +1,299 @@
+// src/components/SchedulerGantt.tsx
+import { useMemo, useState } from "react";
+import type { PointerEvent as ReactPointerEvent } from "react";
+import type { Assignment } from "../api";
+import { addDays, diffDays, parseDateKey, todayKey } from "../dates";
+
+export type GanttLaneMode = "unit" | "tester";
+
+export interface GanttBar {
+  assignment: Assignment;
+  laneKey: string;
+  laneLabel: string;
+  label: string; // text shown on the bar
+  title: string; // hover text
+  start: string; // YYYY-MM-DD ("" when unscheduled)
+  end: string;
+  status: string;
+  dirty?: boolean;
+  warning?: string | null;
+}
+
+type DragMode = "move" | "resize-start" | "resize-end";
+
+interface DragState {
+  id: string;
+  mode: DragMode;
+  originX: number;
+  start: string;
+  end: string;
+  deltaDays: number;
+}
+
+interface Props {
+  bars: GanttBar[];
+  onChangeDates: (a: Assignment, start: string, end: string) => void;
+}
+
+const DAY_W = 28;
+const ROW_H = 26;
+const LANE_LABEL_W = 160;
+const PAD_DAYS_BEFORE = 3;
+const PAD_DAYS_AFTER = 10;
+
+function statusClass(status: string) {
+  switch (status) {
+    case "PASS":
+      return "gantt-bar--pass";
+    case "FAIL":
+      return "gantt-bar--fail";
+    case "RUNNING":
+      return "gantt-bar--running";
+    default:
+      return "gantt-bar--pending";
+  }
+}
+
+// Apply an in-progress drag to a bar's dates (end never before start)
+function draggedDates(d: DragState): { start: string; end: string } {
+  if (d.mode === "move") {
+    return { start: addDays(d.start, d.deltaDays), end: addDays(d.end, d.deltaDays) };
+  }
+  if (d.mode === "resize-start") {
+    const start = addDays(d.start, d.deltaDays);
+    return { start: start > d.end ? d.end : start, end: d.end };
+  }
+  const end = addDays(d.end, d.deltaDays);
+  return { start: d.start, end: end < d.start ? d.start : end };
+}
+
+/**
+ * Greedy row packing: bars in a lane share a row when their dates don't overlap.
+ */
+function packRows(bars: { id: string; start: string; end: string }[]) {
+  const rowEnds: string[] = [];
+  const rowOf = new Map<string, number>();
+  const sorted = bars.slice().sort((a, b) => a.start.localeCompare(b.start));
+  for (const b of sorted) {
+    let row = rowEnds.findIndex((end) => end < b.start);
+    if (row === -1) {
+      row = rowEnds.length;
+      rowEnds.push(b.end);
+    } else {
+      rowEnds[row] = b.end;
+    }
+    rowOf.set(b.id, row);
+  }
+  return { rowOf, rowCount: Math.max(1, rowEnds.length) };
+}
+
+export default function SchedulerGantt({ bars, onChangeDates }: Props) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  // Bars with their live (possibly dragged) dates
+  const liveBars = useMemo(
+    () =>
+      bars.map((b) => {
+        if (drag && drag.id === b.assignment.id) {
+          return { ...b, ...draggedDates(drag) };
+        }
+        return b;
+      }),
+    [bars, drag]
+  );
+
+  // Based on the saved/edited dates only, so the grid doesn't shift mid-drag
+  const range = useMemo(() => {
+    const dated = bars.filter((b) => b.start && b.end);
+    const today = todayKey();
+    let min = today;
+    let max = today;
+    for (const b of dated) {
+      if (b.start < min) min = b.start;
+      if (b.end > max) max = b.end;
+    }
+    const from = addDays(min, -PAD_DAYS_BEFORE);
+    const to = addDays(max, PAD_DAYS_AFTER);
+    const days: string[] = [];
+    for (let d = from; d <= to; d = addDays(d, 1)) days.push(d);
+    return { from, days };
+  }, [bars]);
+
+  const lanes = useMemo(() => {
+    const map = new Map<string, { label: string; bars: GanttBar[] }>();
+    for (const b of liveBars) {
+      if (!map.has(b.laneKey)) map.set(b.laneKey, { label: b.laneLabel, bars: [] });
+      map.get(b.laneKey)!.bars.push(b);
+    }
+    return Array.from(map.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, lane]) => {
+        const dated = lane.bars.filter((b) => b.start && b.end);
+        const packed = packRows(
+          dated.map((b) => ({ id: b.assignment.id, start: b.start, end: b.end }))
+        );
+        return {
+          key,
+          label: lane.label,
+          dated,
+          unscheduled: lane.bars.filter((b) => !b.start || !b.end),
+          ...packed,
+        };
+      });
+  }, [liveBars]);
+
+  const today = todayKey();
+  const gridWidth = range.days.length * DAY_W;
+
+  function beginDrag(
+    e: ReactPointerEvent<HTMLDivElement>,
+    bar: GanttBar,
+    mode: DragMode
+  ) {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+    (e.currentTarget.closest(".gantt-bar") as HTMLElement | null)?.setPointerCapture(
+      e.pointerId
+    );
+    setDrag({
+      id: bar.assignment.id,
+      mode,
+      originX: e.clientX,
+      start: bar.start,
+      end: bar.end,
+      deltaDays: 0,
+    });
+  }
+
+  function onPointerMove(e: ReactPointerEvent<HTMLDivElement>) {
+    if (!drag) return;
+    const deltaDays = Math.round((e.clientX - drag.originX) / DAY_W);
+    if (deltaDays !== drag.deltaDays) setDrag({ ...drag, deltaDays });
+  }
+
+  function endDrag(bar: GanttBar) {
+    if (!drag) return;
+    const { start, end } = draggedDates(drag);
+    setDrag(null);
+    if (start !== bar.start || end !== bar.end) {
+      onChangeDates(bar.assignment, start, end);
+    }
+  }
+
+  if (bars.length === 0) {
+    return <p className="text-muted">No assignments to show.</p>;
+  }
+
+  return (
+    <div className="gantt">
+      <div className="gantt-scroll">
+        <div style={{ width: LANE_LABEL_W + gridWidth }}>
+          {/* Day header */}
+          <div className="gantt-header">
+            <div className="gantt-lane-label" style={{ width: LANE_LABEL_W }} />
+            {range.days.map((d) => {
+              const dow = parseDateKey(d).getDay();
+              return (
+                <div
+                  key={d}
+                  className={
+                    "gantt-day" +
+                    (dow === 0 || dow === 6 ? " gantt-day--weekend" : "") +
+                    (d === today ? " gantt-day--today" : "")
+                  }
+                  style={{ width: DAY_W }}
+                  title={d}
+                >
+                  <div className="gantt-day__month">
+                    {d.endsWith("-01") || d === range.from ? d.slice(5, 7) + "/" : ""}
+                  </div>
+                  <div>{d.slice(8, 10)}</div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Lanes */}
+          {lanes.map((lane) => (
+            <div key={lane.key} className="gantt-lane">
+              <div className="gantt-lane-label" style={{ width: LANE_LABEL_W }}>
+                <div className="gantt-lane-title">{lane.label}</div>
+                {lane.unscheduled.length > 0 && (
+                  <div
+                    className="gantt-lane-meta"
+                    title={lane.unscheduled.map((b) => b.label).join("\n")}
+                  >
+                    {lane.unscheduled.length} unscheduled
+                  </div>
+                )}
+              </div>
+
+              <div
+                className="gantt-lane-grid"
+                style={{ width: gridWidth, height: lane.rowCount * ROW_H + 6 }}
+              >
+                {range.days.map((d, i) => {
+                  const dow = parseDateKey(d).getDay();
+                  if (dow !== 0 && dow !== 6 && d !== today) return null;
+                  return (
+                    <div
+                      key={d}
+                      className={
+                        d === today ? "gantt-col-today" : "gantt-col-weekend"
+                      }
+                      style={{ left: i * DAY_W, width: DAY_W }}
+                    />
+                  );
+                })}
+
+                {lane.dated.map((b) => {
+                  const left = diffDays(range.from, b.start) * DAY_W;
+                  const width = (diffDays(b.start, b.end) + 1) * DAY_W - 2;
+                  const row = lane.rowOf.get(b.assignment.id) ?? 0;
+                  const isDragging = drag?.id === b.assignment.id;
+
+                  return (
+                    <div
+                      key={b.assignment.id}
+                      className={
+                        "gantt-bar " +
+                        statusClass(b.status) +
+                        (b.dirty ? " gantt-bar--dirty" : "") +
+                        (b.warning ? " gantt-bar--warning" : "") +
+                        (isDragging ? " gantt-bar--dragging" : "")
+                      }
+                      style={{ left, width, top: row * ROW_H + 3, height: ROW_H - 4 }}
+                      title={`${b.title}\n${b.start} → ${b.end}${
+                        b.warning ? `\n⚠ ${b.warning}` : ""
+                      }`}
+                      onPointerDown={(e) => beginDrag(e, b, "move")}
+                      onPointerMove={onPointerMove}
+                      onPointerUp={() => endDrag(b)}
+                      onPointerCancel={() => setDrag(null)}
+                    >
+                      <div
+                        className="gantt-bar__handle gantt-bar__handle--start"
+                        onPointerDown={(e) => beginDrag(e, b, "resize-start")}
+                      />
+                      <span className="gantt-bar__label">{b.label}</span>
+                      <div
+                        className="gantt-bar__handle gantt-bar__handle--end"
+                        onPointerDown={(e) => beginDrag(e, b, "resize-end")}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="gantt-legend">
+        Drag a bar to move it, drag its edges to change duration. Changes are kept
+        as unsaved edits until you click <strong>Save changes</strong>.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+// src/components/StepDependencyGraph.tsx
+import type { TestStep } from "../api";
+import { STEP_STATE_LABELS, prerequisiteMap, stepLevels } from "../stepGraph";
+import type { StepState, StepStatus } from "../stepGraph";
+
+interface Props {
+  steps: TestStep[]; // the unit's plan steps
+  statuses: Map<number, StepStatus>;
+}
+
+const NODE_W = 168;
+const NODE_H = 46;
+const GAP_X = 56;
+const GAP_Y = 14;
+const PAD = 8;
+const MAX_NAME = 22;
+
+const LEGEND: StepState[] = ["passed", "running", "ready", "blocked", "failed", "skipped"];
+
+function shorten(name: string) {
+  return name.length > MAX_NAME ? `${name.slice(0, MAX_NAME - 1)}…` : name;
+}
+
+/**
+ * The unit's steps laid out left to right by dependency: a step's column is
+ * one past the furthest step it needs, so steps in the same column can run
+ * in parallel.
+ */
+export default function StepDependencyGraph({ steps, statuses }: Props) {
+  const prereqs = prerequisiteMap(steps);
+  const levels = stepLevels(steps);
+
+  const columns: TestStep[][] = [];
+  steps
+    .slice()
+    .sort((a, b) => a.order - b.order)
+    .forEach((s) => {
+      const level = levels.get(s.id) ?? 0;
+      (columns[level] ??= []).push(s);
+    });
+
+  const pos = new Map<number, { x: number; y: number }>();
+  columns.forEach((col, ci) =>
+    col.forEach((s, ri) =>
+      pos.set(s.id, { x: PAD + ci * (NODE_W + GAP_X), y: PAD + ri * (NODE_H + GAP_Y) })
+    )
+  );
+
+  const rowsTall = Math.max(1, ...columns.map((c) => c.length));
+  const width = PAD * 2 + columns.length * NODE_W + Math.max(0, columns.length - 1) * GAP_X;
+  const height = PAD * 2 + rowsTall * NODE_H + (rowsTall - 1) * GAP_Y;
+
+  return (
+    <div className="step-graph">
+      <div className="step-graph__legend">
+        {LEGEND.map((state) => (
+          <span key={state} className={`step-graph__key step-graph__key--${state}`}>
+            {STEP_STATE_LABELS[state]}
+          </span>
+        ))}
+      </div>
+
+      <div className="step-graph__scroll">
+        <svg
+          className="step-graph__svg"
+          width={width}
+          height={height}
+          viewBox={`0 0 ${width} ${height}`}
+          role="img"
+          aria-label="Step dependency graph"
+        >
+          <defs>
+            <marker
+              id="step-graph-arrow"
+              viewBox="0 0 8 8"
+              refX="8"
+              refY="4"
+              markerWidth="8"
+              markerHeight="8"
+              orient="auto"
+            >
+              <path d="M0,0 L8,4 L0,8 z" className="step-graph__arrow" />
+            </marker>
+          </defs>
+
+          {steps.flatMap((s) =>
+            (prereqs.get(s.id) ?? []).map((pid) => {
+              const from = pos.get(pid);
+              const to = pos.get(s.id);
+              if (!from || !to) return null;
+              const x1 = from.x + NODE_W;
+              const y1 = from.y + NODE_H / 2;
+              const x2 = to.x;
+              const y2 = to.y + NODE_H / 2;
+              const bend = Math.max(24, (x2 - x1) / 2);
+              const done = ["passed", "skipped"].includes(statuses.get(pid)?.state ?? "");
+              return (
+                <path
+                  key={`${pid}-${s.id}`}
+                  className={"step-graph__edge" + (done ? " step-graph__edge--done" : "")}
+                  d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+                  markerEnd="url(#step-graph-arrow)"
+                />
+              );
+            })
+          )}
+
+          {steps.map((s) => {
+            const p = pos.get(s.id)!;
+            const status = statuses.get(s.id);
+            const state = status?.state ?? "blocked";
+            const tip = [
+              `${s.order}. ${s.name}`,
+              STEP_STATE_LABELS[state],
+              ...(status?.reasons ?? []),
+            ].join("\n");
+            return (
+              <g key={s.id} transform={`translate(${p.x},${p.y})`}>
+                <title>{tip}</title>
+                <rect
+                  className={`step-graph__node step-graph__node--${state}`}
+                  width={NODE_W}
+                  height={NODE_H}
+                  rx={6}
+                />
+                <text className="step-graph__name" x={10} y={19}>
+                  {s.order}. {shorten(s.name)}
+                </text>
+                <text className="step-graph__state" x={10} y={36}>
+                  {STEP_STATE_LABELS[state]}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+// src/components/TestPlanModal.tsx
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useSaveTestPlan } from "../hooks";
+import { ApiError, getErrorMessage } from "../api";
+import type { TestPlan, TestStep } from "../api";
+import { formatLimit } from "../metrics";
+import type { LimitComp } from "../metrics";
+import { LIMIT_COMPS, moveStep } from "../stepCatalog";
+import { toPlanEditorRows, toTestPlanSteps, validatePlanEditor } from "../testPlans";
+import type { PlanEditorRow } from "../testPlans";
+import { resolvePrerequisites } from "../stepGraph";
+
+interface Props {
+  plan: TestPlan | null; // null: new plan
+  steps: TestStep[]; // current catalog
+  onClose: () => void;
+}
+
+/** Create or edit a named test plan: which catalog steps, in what order, with which limits. */
+export default function TestPlanModal({ plan, steps, onClose }: Props) {
+  const qc = useQueryClient();
+  const savePlan = useSaveTestPlan();
+
+  const [name, setName] = useState(plan?.name ?? "");
+  const [sku, setSku] = useState(plan?.sku ?? "");
+  const [rev, setRev] = useState(plan?.rev ?? "");
+  const [rows, setRows] = useState<PlanEditorRow[]>(() => toPlanEditorRows(plan, steps));
+  const [dragKey, setDragKey] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  function update(key: string, patch: Partial<PlanEditorRow>) {
+    setRows((list) => list.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+  }
+
+  async function handleSave() {
+    const found = validatePlanEditor(name, sku, rev, rows);
+    setErrors(found);
+    if (found.length > 0) return;
+
+    try {
+      await savePlan.mutateAsync({
+        id: plan?.id ?? null,
+        plan: {
+          name: name.trim(),
+          sku: sku.trim() || null,
+          rev: rev.trim() || null,
+          steps: toTestPlanSteps(rows),
+          version: plan?.version,
+        },
+      });
+      onClose();
+    } catch (err) {
+      if (err instanceof ApiError && err.isConflict) {
+        await qc.invalidateQueries({ queryKey: ["testPlans"] });
+        setErrors([
+          "This plan was changed by someone else, or another plan already covers this SKU / revision. Close and reopen it to see the latest version.",
+        ]);
+        return;
+      }
+      setErrors([getErrorMessage(err)]);
+    }
+  }
+
+  const orderByKey = new Map(rows.filter((r) => r.included).map((r, i) => [r.key, i + 1]));
+  // What each included step waits for within this plan
+  const needsById = new Map(
+    resolvePrerequisites(
+      rows.filter((r) => r.included).map((r) => r.step),
+      steps
+    ).map((s) => [s.id, s.prerequisites ?? []])
+  );
+  const stepName = (id: number) => steps.find((s) => s.id === id)?.name ?? `Step ${id}`;
+
+  return (
+    <div className="prompt-backdrop">
+      <div className="prompt-modal test-plan-modal">
+        <div className="prompt-title">{plan ? `Edit ${plan.name}` : "New test plan"}</div>
+
+        <div className="test-plan-modal__fields">
+          <label className="form-label">
+            Name *
+            <input
+              className="form-control"
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </label>
+          <label className="form-label">
+            SKU
+            <input className="form-control" value={sku} onChange={(e) => setSku(e.target.value)} />
+          </label>
+          <label className="form-label">
+            Revision
+            <input
+              className="form-control"
+              value={rev}
+              placeholder="Any"
+              onChange={(e) => setRev(e.target.value)}
+            />
+          </label>
+        </div>
+        <p className="text-muted">
+          New units with this SKU (and revision, if set) get this plan; units already started keep
+          the version they started with. Tick the steps the plan runs and drag to set their order;
+          a step must come after the steps it needs. Blank limit fields use the catalog's limit.
+        </p>
+
+        <div className="test-plan-modal__table-wrap">
+          <table className="queue-table step-catalog__table">
+            <thead>
+              <tr>
+                <th aria-label="Drag" />
+                <th>In plan</th>
+                <th>#</th>
+                <th>Step</th>
+                <th>Needs</th>
+                <th>Required</th>
+                <th>Limit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr
+                  key={r.key}
+                  className={
+                    "step-catalog__row" +
+                    (r.included ? "" : " test-plan-modal__row--excluded") +
+                    (r.key === dragKey ? " step-catalog__row--dragging" : "")
+                  }
+                  onDragOver={(e) => {
+                    if (!dragKey) return;
+                    e.preventDefault();
+                    if (dragKey !== r.key) setRows((list) => moveStep(list, dragKey, r.key));
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    setDragKey(null);
+                  }}
+                >
+                  <td>
+                    <span
+                      className="step-catalog__handle"
+                      draggable
+                      title="Drag to reorder"
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = "move";
+                        e.dataTransfer.setData("text/plain", r.key);
+                        setDragKey(r.key);
+                      }}
+                      onDragEnd={() => setDragKey(null)}
+                    >
+                      ⠿
+                    </span>
+                  </td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={r.included}
+                      onChange={(e) => update(r.key, { included: e.target.checked })}
+                    />
+                  </td>
+                  <td>{orderByKey.get(r.key) ?? "-"}</td>
+                  <td>{r.step.name}</td>
+                  <td className="test-plan-modal__needs">
+                    {r.included
+                      ? needsById.get(r.step.id)!.map(stepName).join(", ") || "—"
+                      : ""}
+                  </td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={r.required}
+                      disabled={!r.included}
+                      onChange={(e) => update(r.key, { required: e.target.checked })}
+                    />
+                  </td>
+                  <td>
+                    <div className="step-catalog__limit">
+                      <input
+                        className="scheduler-field"
+                        value={r.limit_metric}
+                        disabled={!r.included}
+                        placeholder={r.step.limit_metric || "metric"}
+                        title={formatLimit(r.step) ? `Catalog: ${formatLimit(r.step)}` : ""}
+                        onChange={(e) => update(r.key, { limit_metric: e.target.value })}
+                      />
+                      <select
+                        className="scheduler-field"
+                        value={r.limit_comp}
+                        disabled={!r.included}
+                        onChange={(e) =>
+                          update(r.key, { limit_comp: e.target.value as LimitComp | "" })
+                        }
+                      >
+                        <option value="">—</option>
+                        {LIMIT_COMPS.map((c) => (
+                          <option key={c} value={c}>
+                            {c}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        className="scheduler-field"
+                        inputMode="decimal"
+                        value={r.limit_value}
+                        disabled={!r.included}
+                        placeholder={
+                          r.step.limit_value != null ? String(r.step.limit_value) : "value"
+                        }
+                        onChange={(e) => update(r.key, { limit_value: e.target.value })}
+                      />
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="banner banner--error">
+            {errors.map((e) => (
+              <div key={e}>{e}</div>
+            ))}
+          </div>
+        )}
+
+        <div className="prompt-actions">
+          <button type="button" className="btn btn-outline" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="btn btn-primary"
+            disabled={savePlan.isPending}
+            onClick={handleSave}
+          >
+            {savePlan.isPending ? "Saving…" : plan ? "Save plan" : "Create plan"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 // src/components/UnitCard.tsx
 import { UnitSummary } from "../api";
 import { Link } from "react-router-dom";
+import { PRIORITY_LABELS, isUnitOverdue } from "../units";
 
 interface Props {
   unit: UnitSummary;
@@ -15,7 +16,7 @@ export default function UnitCard({ unit }: Props) {
         borderRadius: 8,
         padding: "1rem",
         width: 200,
-        height: 160,
+        minHeight: 160,
         display: "flex",
         flexDirection: "column",
         justifyContent: "space-between",
@@ -32,12 +33,34 @@ export default function UnitCard({ unit }: Props) {
       >
         {unit.unit_id}
       </div>
+      {(unit.sku || unit.customer) && (
+        <div className="unit-card-meta">
+          {[unit.sku && `${unit.sku}${unit.rev ? ` rev ${unit.rev}` : ""}`, unit.customer]
+            .filter(Boolean)
+            .join(" · ")}
+        </div>
+      )}
       <div>
         <div>Status: {unit.status}</div>
         <div>Progress: {unit.progress_percent.toFixed(0)}%</div>
         {unit.next_step_name && (
           <div>Next: {unit.next_step_name}</div>
         )}
+        {(unit.priority === "HIGH" || unit.priority === "URGENT") && (
+          <div className={`unit-card-priority unit-card-priority--${unit.priority.toLowerCase()}`}>
+            {PRIORITY_LABELS[unit.priority]} priority
+          </div>
+        )}
+        {unit.due_date && (
+          <div className={isUnitOverdue(unit) ? "unit-card-due--overdue" : undefined}>
+            Due: {unit.due_date.slice(0, 10)}
+          </div>
+        )}
+        {!!unit.open_ncr_count && (
+          <div className="unit-card-ncr" title="Open non-conformance reports">
+            {unit.open_ncr_count} open NCR{unit.open_ncr_count !== 1 ? "s" : ""}
+          </div>
+        )}
       </div>
     </Link>
   );
@@ -0,0 +1,114 @@
+// src/components/UnitFilterBar.tsx
+import type { UnitSummary } from "../api";
+import {
+  EMPTY_UNIT_FILTERS,
+  PRIORITIES,
+  PRIORITY_LABELS,
+  distinctUnitValues,
+  hasActiveFilters,
+} from "../units";
+import type { DueFilter, UnitFilters } from "../units";
+
+interface Props {
+  units: UnitSummary[];
+  filters: UnitFilters;
+  onChange: (filters: UnitFilters) => void;
+}
+
+/** SKU / revision / customer / priority / due-date filters shared by the unit views. */
+export default function UnitFilterBar({ units, filters, onChange }: Props) {
+  const skus = distinctUnitValues(units, "sku");
+  // only the revisions of the chosen SKU
+  const revs = distinctUnitValues(
+    filters.sku ? units.filter((u) => u.sku === filters.sku) : units,
+    "rev"
+  );
+  const customers = distinctUnitValues(units, "customer");
+
+  const set = <K extends keyof UnitFilters>(key: K, value: UnitFilters[K]) =>
+    onChange({ ...filters, [key]: value });
+
+  return (
+    <div className="unit-filter-bar">
+      <input
+        className="form-control unit-filter-bar__search"
+        placeholder="Unit ID, lot or serial…"
+        value={filters.search}
+        onChange={(e) => set("search", e.target.value)}
+      />
+
+      <select
+        className="form-control"
+        value={filters.sku}
+        onChange={(e) => onChange({ ...filters, sku: e.target.value, rev: "" })}
+      >
+        <option value="">All SKUs</option>
+        {skus.map((v) => (
+          <option key={v} value={v}>
+            {v}
+          </option>
+        ))}
+      </select>
+
+      <select
+        className="form-control"
+        value={filters.rev}
+        onChange={(e) => set("rev", e.target.value)}
+      >
+        <option value="">All revisions</option>
+        {revs.map((v) => (
+          <option key={v} value={v}>
+            {v}
+          </option>
+        ))}
+      </select>
+
+      <select
+        className="form-control"
+        value={filters.customer}
+        onChange={(e) => set("customer", e.target.value)}
+      >
+        <option value="">All customers</option>
+        {customers.map((v) => (
+          <option key={v} value={v}>
+            {v}
+          </option>
+        ))}
+      </select>
+
+      <select
+        className="form-control"
+        value={filters.priority}
+        onChange={(e) => set("priority", e.target.value as UnitFilters["priority"])}
+      >
+        <option value="">Any priority</option>
+        {PRIORITIES.map((p) => (
+          <option key={p} value={p}>
+            {PRIORITY_LABELS[p]}
+          </option>
+        ))}
+      </select>
+
+      <select
+        className="form-control"
+        value={filters.due}
+        onChange={(e) => set("due", e.target.value as DueFilter)}
+      >
+        <option value="">Any due date</option>
+        <option value="overdue">Overdue</option>
+        <option value="week">Due within 7 days</option>
+        <option value="none">No due date</option>
+      </select>
+
+      {hasActiveFilters(filters) && (
+        <button
+          type="button"
+          className="btn btn-ghost btn-xs"
+          onClick={() => onChange(EMPTY_UNIT_FILTERS)}
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+// src/components/UnitFormModal.tsx
+import { useState } from "react";
+import { ApiError, getErrorMessage } from "../api";
+import type { TestPlan, UnitFields } from "../api";
+import {
+  EMPTY_UNIT_FORM,
+  PRIORITIES,
+  PRIORITY_LABELS,
+  UNIT_ID_MAX_LENGTH,
+  formValuesToFields,
+  validateUnitForm,
+} from "../units";
+import type { UnitFormErrors, UnitFormValues } from "../units";
+import { matchTestPlan, testPlanLabel } from "../testPlans";
+
+interface Props {
+  mode: "create" | "edit";
+  initial: UnitFormValues;
+  existingIds?: string[]; // create: reject duplicates before the round trip
+  plans?: TestPlan[]; // create: the unit's test plan is fixed from then on
+  onSubmit: (unitId: string, fields: UnitFields, testPlanId?: string | null) => Promise<void>;
+  onClose: () => void;
+}
+
+const TEXT_FIELDS: { key: keyof UnitFormValues; label: string; placeholder?: string }[] = [
+  { key: "sku", label: "SKU" },
+  { key: "rev", label: "Revision", placeholder: "e.g. B" },
+  { key: "lot", label: "Lot" },
+  { key: "serial", label: "Serial number" },
+  { key: "customer", label: "Customer" },
+];
+
+// Server field errors arrive as dotted paths like "body.sku"
+function fieldFromPath(path: string): keyof UnitFormValues | null {
+  const last = path.split(".").pop() ?? "";
+  const keys = Object.keys(EMPTY_UNIT_FORM) as (keyof UnitFormValues)[];
+  return keys.find((k) => k === last) ?? null;
+}
+
+// Plan select values besides a plan id
+const PLAN_AUTO = "";
+const PLAN_NONE = "~none";
+
+export default function UnitFormModal({
+  mode,
+  initial,
+  existingIds,
+  plans,
+  onSubmit,
+  onClose,
+}: Props) {
+  const [values, setValues] = useState<UnitFormValues>(initial);
+  const [planChoice, setPlanChoice] = useState(PLAN_AUTO);
+  const [errors, setErrors] = useState<UnitFormErrors>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const isNew = mode === "create";
+  const matchedPlan = matchTestPlan(plans, values.sku, values.rev);
+  const testPlanId =
+    planChoice === PLAN_AUTO
+      ? (matchedPlan?.id ?? null)
+      : planChoice === PLAN_NONE
+        ? null
+        : planChoice;
+
+  function set<K extends keyof UnitFormValues>(key: K, value: UnitFormValues[K]) {
+    setValues((v) => ({ ...v, [key]: value }));
+    setErrors((e) => ({ ...e, [key]: undefined }));
+  }
+
+  async function handleSubmit() {
+    const found = validateUnitForm(values, { isNew, existingIds });
+    setErrors(found);
+    setFormError(null);
+    if (Object.keys(found).length > 0) return;
+
+    setSaving(true);
+    try {
+      await onSubmit(values.unit_id.trim(), formValuesToFields(values), testPlanId);
+      onClose();
+    } catch (err) {
+      if (err instanceof ApiError && err.fieldErrors.length > 0) {
+        const mapped: UnitFormErrors = {};
+        for (const fe of err.fieldErrors) {
+          const key = fieldFromPath(fe.field);
+          if (key) mapped[key] = fe.message;
+        }
+        setErrors(mapped);
+      }
+      setFormError(getErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="prompt-backdrop">
+      <form
+        className="prompt-modal unit-form-modal"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSubmit();
+        }}
+      >
+        <div className="prompt-title">{isNew ? "Create unit" : `Edit ${initial.unit_id}`}</div>
+
+        <div className="unit-form-grid">
+          {isNew && (
+            <label className="form-label unit-form-grid__wide">
+              Unit ID *
+              <input
+                className="form-control"
+                autoFocus
+                maxLength={UNIT_ID_MAX_LENGTH}
+                value={values.unit_id}
+                onChange={(e) => set("unit_id", e.target.value)}
+              />
+              {errors.unit_id && <span className="unit-form-error">{errors.unit_id}</span>}
+            </label>
+          )}
+
+          {TEXT_FIELDS.map((f) => (
+            <label key={f.key} className="form-label">
+              {f.label}
+              <input
+                className="form-control"
+                placeholder={f.placeholder}
+                value={values[f.key]}
+                onChange={(e) => set(f.key, e.target.value)}
+              />
+              {errors[f.key] && <span className="unit-form-error">{errors[f.key]}</span>}
+            </label>
+          ))}
+
+          <label className="form-label">
+            Priority
+            <select
+              className="form-control"
+              value={values.priority}
+              onChange={(e) => set("priority", e.target.value as UnitFormValues["priority"])}
+            >
+              <option value="">—</option>
+              {PRIORITIES.map((p) => (
+                <option key={p} value={p}>
+                  {PRIORITY_LABELS[p]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="form-label">
+            Due date
+            <input
+              type="date"
+              className="form-control"
+              value={values.due_date}
+              onChange={(e) => set("due_date", e.target.value)}
+            />
+            {errors.due_date && <span className="unit-form-error">{errors.due_date}</span>}
+          </label>
+
+          {isNew && plans && plans.length > 0 && (
+            <label className="form-label unit-form-grid__wide">
+              Test plan
+              <select
+                className="form-control"
+                value={planChoice}
+                onChange={(e) => setPlanChoice(e.target.value)}
+              >
+                <option value={PLAN_AUTO}>
+                  Match SKU / revision
+                  {values.sku.trim() ? ` → ${matchedPlan ? matchedPlan.name : "no plan"}` : ""}
+                </option>
+                <option value={PLAN_NONE}>No plan (all steps)</option>
+                {plans.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {testPlanLabel(p)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        {formError && <div className="banner banner--error">{formError}</div>}
+
+        <div className="prompt-actions">
+          <button type="button" className="btn btn-outline" onClick={onClose}>
+            Cancel
+          </button>
+          <button type="submit" className="btn btn-primary" disabled={saving}>
+            {saving ? "Saving…" : isNew ? "Create unit" : "Save"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
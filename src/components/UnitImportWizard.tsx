@@ -0,0 +1,311 @@
+// src/components/UnitImportWizard.tsx
+import { useState } from "react";
+import { useImportUnits, usePermissions, useTestPlans } from "../hooks";
+import type { UnitImportOutcome } from "../hooks";
+import { getErrorMessage, parseImportSheet } from "../api";
+import type { UnitSummary } from "../api";
+import { parseDelimited, sniffDelimiter } from "../csv";
+import { MAX_IMPORT_ROWS, PRIORITY_LABELS, formValuesToFields, readImportSheet } from "../units";
+import type { ImportSheet } from "../units";
+import { matchTestPlan } from "../testPlans";
+
+interface Props {
+  units: UnitSummary[]; // existing units: duplicate check + template choices
+  onClose: () => void;
+}
+
+type WizardStep = "file" | "preview" | "done";
+
+const STEP_TITLES: Record<WizardStep, string> = {
+  file: "1. Choose file",
+  preview: "2. Check rows",
+  done: "3. Imported",
+};
+
+/** CSV/TSV is read in the browser; XLSX goes through the server. */
+async function readSheetCells(file: File): Promise<string[][]> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx") || name.endsWith(".xls")) {
+    const { rows } = await parseImportSheet(file);
+    return rows.map((r) => r.map((c) => String(c ?? "")));
+  }
+  const text = (await file.text()).replace(/^\uFEFF/, "");
+  return parseDelimited(text, name.endsWith(".tsv") ? "\t" : sniffDelimiter(text));
+}
+
+/** Bulk-create units from a spreadsheet, optionally copying a template unit's schedule. */
+export default function UnitImportWizard({ units, onClose }: Props) {
+  const { can } = usePermissions();
+  const canSchedule = can("schedule:edit");
+  const importUnits = useImportUnits();
+  const { data: plans } = useTestPlans();
+
+  const [step, setStep] = useState<WizardStep>("file");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [reading, setReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [templateUnit, setTemplateUnit] = useState("");
+  const [dayShift, setDayShift] = useState(0);
+  const [outcome, setOutcome] = useState<UnitImportOutcome | null>(null);
+
+  const validRows = sheet?.rows.filter((r) => r.errors.length === 0) ?? [];
+  const invalidCount = (sheet?.rows.length ?? 0) - validRows.length;
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    setError(null);
+    setReading(true);
+    try {
+      const cells = await readSheetCells(file);
+      const parsed = readImportSheet(cells, units.map((u) => u.unit_id));
+      if (parsed.error) {
+        setError(parsed.error);
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setStep("preview");
+    } catch (err) {
+      setError(`Could not read ${file.name}: ${getErrorMessage(err)}`);
+    } finally {
+      setReading(false);
+    }
+  }
+
+  async function handleImport() {
+    setError(null);
+    try {
+      const result = await importUnits.mutateAsync({
+        units: validRows.map((r) => ({
+          unit_id: r.values.unit_id,
+          ...formValuesToFields(r.values),
+          test_plan_id: matchTestPlan(plans, r.values.sku, r.values.rev)?.id ?? null,
+        })),
+        template: templateUnit ? { source_unit_id: templateUnit, day_shift: dayShift } : null,
+      });
+      setOutcome(result);
+      setStep("done");
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  }
+
+  const created = outcome?.results.filter((r) => r.ok) ?? [];
+  const failed = outcome?.results.filter((r) => !r.ok) ?? [];
+
+  return (
+    <div className="prompt-backdrop">
+      <div className="prompt-modal unit-import">
+        <div className="prompt-title">Import units</div>
+
+        <ol className="unit-import__steps">
+          {(Object.keys(STEP_TITLES) as WizardStep[]).map((s) => (
+            <li
+              key={s}
+              className={"unit-import__step" + (s === step ? " unit-import__step--active" : "")}
+            >
+              {STEP_TITLES[s]}
+            </li>
+          ))}
+        </ol>
+
+        {step === "file" && (
+          <div className="prompt-message">
+            <p className="text-muted">
+              CSV, TSV or XLSX with a header row. Only <strong>Unit ID</strong> is required;
+              optional columns are SKU, Revision, Lot, Serial, Customer, Priority (
+              {Object.values(PRIORITY_LABELS).join(" / ")}) and Due date (YYYY-MM-DD). Up to{" "}
+              {MAX_IMPORT_ROWS} rows per file. Each unit gets the test plan matching its SKU and
+              revision.
+            </p>
+            <input
+              type="file"
+              className="form-control"
+              accept=".csv,.tsv,.txt,.xlsx,.xls"
+              disabled={reading}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            {reading && <p className="text-muted">Reading file…</p>}
+          </div>
+        )}
+
+        {step === "preview" && sheet && (
+          <div className="prompt-message">
+            <p>
+              <strong>{fileName}</strong>: {validRows.length} ready
+              {invalidCount > 0 && (
+                <span className="unit-import__invalid-count">
+                  , {invalidCount} with problems (skipped)
+                </span>
+              )}
+              .
+            </p>
+            {sheet.truncated && (
+              <div className="banner banner--error">
+                Only the first {MAX_IMPORT_ROWS} rows are shown and imported. Split the file to
+                import the rest.
+              </div>
+            )}
+            {sheet.ignoredColumns.length > 0 && (
+              <p className="text-muted">Ignored columns: {sheet.ignoredColumns.join(", ")}</p>
+            )}
+
+            <div className="unit-import__table-wrap">
+              <table className="queue-table unit-import__table">
+                <thead>
+                  <tr>
+                    <th>Row</th>
+                    <th>Unit ID</th>
+                    <th>SKU / Rev</th>
+                    <th>Lot</th>
+                    <th>Serial</th>
+                    <th>Customer</th>
+                    <th>Priority</th>
+                    <th>Due</th>
+                    <th>Test plan</th>
+                    <th>Check</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sheet.rows.map((r) => (
+                    <tr
+                      key={r.line}
+                      className={r.errors.length > 0 ? "unit-import__row--invalid" : undefined}
+                    >
+                      <td>{r.line}</td>
+                      <td>{r.values.unit_id || "-"}</td>
+                      <td>
+                        {r.values.sku || "-"}
+                        {r.values.rev ? ` rev ${r.values.rev}` : ""}
+                      </td>
+                      <td>{r.values.lot || "-"}</td>
+                      <td>{r.values.serial || "-"}</td>
+                      <td>{r.values.customer || "-"}</td>
+                      <td>{r.values.priority ? PRIORITY_LABELS[r.values.priority] : "-"}</td>
+                      <td>{r.values.due_date || "-"}</td>
+                      <td>{matchTestPlan(plans, r.values.sku, r.values.rev)?.name ?? "All steps"}</td>
+                      <td>
+                        {r.errors.length === 0 ? (
+                          <span className="result-pill result-pill--pass">OK</span>
+                        ) : (
+                          <ul className="unit-import__errors">
+                            {r.errors.map((e) => (
+                              <li key={e}>{e}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {canSchedule && (
+              <div className="unit-import__template">
+                <label className="form-label">
+                  Copy schedule from
+                  <select
+                    className="form-control"
+                    value={templateUnit}
+                    onChange={(e) => setTemplateUnit(e.target.value)}
+                  >
+                    <option value="">No template (schedule later)</option>
+                    {units.map((u) => (
+                      <option key={u.unit_id} value={u.unit_id}>
+                        {u.unit_id}
+                        {u.sku ? ` · ${u.sku}${u.rev ? ` rev ${u.rev}` : ""}` : ""}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {templateUnit && (
+                  <label className="form-label">
+                    Shift by days
+                    <input
+                      type="number"
+                      className="form-control"
+                      value={dayShift}
+                      onChange={(e) => setDayShift(parseInt(e.target.value || "0", 10))}
+                    />
+                  </label>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "done" && outcome && (
+          <div className="prompt-message">
+            <div className={`banner ${failed.length > 0 ? "banner--error" : "banner--success"}`}>
+              Created {created.length} unit{created.length !== 1 ? "s" : ""}
+              {failed.length > 0 && `; ${failed.length} failed`}.
+              {templateUnit && created.length > 0 && !outcome.scheduleError && (
+                <> Schedule copied from {templateUnit}.</>
+              )}
+            </div>
+            {outcome.scheduleError && (
+              <div className="banner banner--error">
+                The units were created, but copying the schedule from {templateUnit} failed:{" "}
+                {outcome.scheduleError} Use Duplicate in the Scheduler to retry.
+              </div>
+            )}
+            {failed.length > 0 && (
+              <ul className="unit-import__errors">
+                {failed.map((r) => (
+                  <li key={r.unit_id}>
+                    {r.unit_id}: {r.error || "Could not be created."}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {error && <div className="banner banner--error">{error}</div>}
+
+        <div className="prompt-actions">
+          {step === "done" ? (
+            <button type="button" className="btn btn-primary" onClick={onClose}>
+              Close
+            </button>
+          ) : (
+            <>
+              {step === "preview" && (
+                <button
+                  type="button"
+                  className="btn btn-ghost"
+                  disabled={importUnits.isPending}
+                  onClick={() => {
+                    setSheet(null);
+                    setError(null);
+                    setStep("file");
+                  }}
+                >
+                  Back
+                </button>
+              )}
+              <button type="button" className="btn btn-outline" onClick={onClose}>
+                Cancel
+              </button>
+              {step === "preview" && (
+                <button
+                  type="button"
+                  className="btn btn-primary"
+                  disabled={validRows.length === 0 || importUnits.isPending}
+                  onClick={handleImport}
+                >
+                  {importUnits.isPending
+                    ? "Importing…"
+                    : `Import ${validRows.length} unit${validRows.length !== 1 ? "s" : ""}`}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+// src/csv.ts
+
+/**
+ * Minimal CSV/TSV parser: quoted fields, escaped quotes, CRLF.
+ * Stops after `maxRows` rows when given (callers check for truncation).
+ */
+export function parseDelimited(text: string, delimiter: string, maxRows?: number): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+      if (maxRows != null && rows.length > maxRows) break;
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** Tab if the first line has more tabs than commas, else comma. */
+export function sniffDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r|\n|$/));
+  const tabs = firstLine.split("\t").length;
+  const commas = firstLine.split(",").length;
+  return tabs > commas ? "\t" : ",";
+}
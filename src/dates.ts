@@ -0,0 +1,69 @@
+// src/dates.ts
+// Local-calendar "YYYY-MM-DD" helpers (avoid UTC date shifting)
+
+export function isoDateFromBackend(value?: string | null): string {
+  if (!value) return "";
+  return value.slice(0, 10);
+}
+
+export function parseDateKey(dateStr: string): Date {
+  const [y, m, d] = dateStr.split("-").map((x) => parseInt(x, 10));
+  return new Date(y, m - 1, d);
+}
+
+export function toDateKey(dt: Date): string {
+  const y = dt.getFullYear();
+  const m = String(dt.getMonth() + 1).padStart(2, "0");
+  const d = String(dt.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+export function todayKey(): string {
+  return toDateKey(new Date());
+}
+
+export function addDays(dateStr: string, days: number): string {
+  const dt = parseDateKey(dateStr);
+  dt.setDate(dt.getDate() + days);
+  return toDateKey(dt);
+}
+
+/** Whole calendar days from `from` to `to` (negative if `to` is earlier). */
+export function diffDays(from: string, to: string): number {
+  const ms = parseDateKey(to).getTime() - parseDateKey(from).getTime();
+  return Math.round(ms / 86_400_000);
+}
+
+/** Backend timestamp (naive = UTC) as a Date; null when missing or invalid. */
+export function parseBackendTimestamp(iso?: string | null): Date | null {
+  if (!iso) return null;
+  const raw = String(iso).trim();
+  if (!raw || raw.startsWith("1970-01-01")) return null;
+
+  // Normalize "YYYY-MM-DD HH:mm:ss" -> "YYYY-MM-DDTHH:mm:ss"
+  let s = raw.includes(" ") && !raw.includes("T") ? raw.replace(" ", "T") : raw;
+
+  // If there's NO timezone info, assume UTC (backend often serializes naive UTC)
+  const hasTZ = /([zZ]|[+-]\d{2}:\d{2})$/.test(s);
+  if (!hasTZ) s = s + "Z";
+
+  const d = new Date(s);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+/** Backend timestamp (naive = UTC) shown as SGT "YYYY-MM-DD HH:mm". */
+export function formatSingaporeDateTime(iso?: string | null): string {
+  const d = parseBackendTimestamp(iso);
+  if (!d) return "-";
+
+  // Force SGT display regardless of user's machine timezone
+  return new Intl.DateTimeFormat("sv-SE", {
+    timeZone: "Asia/Singapore",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  }).format(d);
+}
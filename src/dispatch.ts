@@ -0,0 +1,90 @@
+// src/dispatch.ts
+import type { Assignment, TesterGroups } from "./api";
+
+export type DispatchKind = "running" | "overdue" | "ready";
+
+export const DISPATCH_KIND_LABELS: Record<DispatchKind, string> = {
+  running: "Running",
+  overdue: "Overdue",
+  ready: "Ready",
+};
+
+export interface DispatchCard {
+  assignment: Assignment;
+  kind: DispatchKind;
+}
+
+export interface DispatchColumn {
+  key: string; // tester id, "group:<name>", or "" for the unassigned pool
+  title: string;
+  members?: string[]; // testers in a group
+  cards: DispatchCard[];
+}
+
+const KIND_RANK: Record<DispatchKind, number> = { overdue: 0, running: 1, ready: 2 };
+
+/**
+ * What is on the floor today: running steps, pending steps past their end
+ * date, and pending steps whose prerequisites have passed, that `isHeld`
+ * (open NCRs, …) does not hold back and whose window has started (or that
+ * are not scheduled yet).
+ */
+export function dispatchCards(
+  assignments: Assignment[],
+  todayKey: string,
+  isHeld: (a: Assignment) => boolean = () => false
+): DispatchCard[] {
+  const cards: DispatchCard[] = [];
+  for (const a of assignments) {
+    if (a.skipped) continue;
+    const start = a.start_at?.slice(0, 10) ?? "";
+    const end = a.end_at?.slice(0, 10) ?? "";
+    if (a.status === "RUNNING") cards.push({ assignment: a, kind: "running" });
+    else if (a.status !== "PENDING") continue;
+    else if (end && end < todayKey) cards.push({ assignment: a, kind: "overdue" });
+    else if (a.prev_passed && (!start || start <= todayKey) && !isHeld(a)) {
+      cards.push({ assignment: a, kind: "ready" });
+    }
+  }
+  return cards.sort(
+    (a, b) =>
+      KIND_RANK[a.kind] - KIND_RANK[b.kind] ||
+      (a.assignment.end_at ?? "").localeCompare(b.assignment.end_at ?? "") ||
+      a.assignment.unit_id.localeCompare(b.assignment.unit_id)
+  );
+}
+
+/**
+ * Unassigned pool first, then one column per tester and per tester group.
+ * Cards for a tester or group not in the lists still get a column.
+ */
+export function dispatchColumns(
+  cards: DispatchCard[],
+  testers: string[],
+  groups: TesterGroups
+): DispatchColumn[] {
+  const columns: DispatchColumn[] = [
+    { key: "", title: "Unassigned", cards: [] },
+    ...testers.map((t) => ({ key: t, title: t, cards: [] })),
+    ...Object.entries(groups).map(([name, members]) => ({
+      key: `group:${name}`,
+      title: `${name} (group)`,
+      members,
+      cards: [],
+    })),
+  ];
+  const byKey = new Map(columns.map((c) => [c.key, c]));
+
+  for (const card of cards) {
+    const key = card.assignment.tester_id ?? "";
+    let column = byKey.get(key);
+    if (!column) {
+      const title = key.startsWith("group:") ? `${key.slice("group:".length)} (group)` : key;
+      column = { key, title, cards: [] };
+      columns.push(column);
+      byKey.set(key, column);
+    }
+    column.cards.push(card);
+  }
+  return columns;
+}
@@ -1,36 +1,274 @@
 // src/hooks.ts
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { getToken, request } from "./api";
-import type { Assignment } from "./api";
+import { useEffect, useMemo, useRef, useSyncExternalStore } from "react";
+import {
+  useQueries,
+  useQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
+import type { QueryClient, UseQueryResult } from "@tanstack/react-query";
+import { getErrorMessage, getToken, hasSession, request } from "./api";
+import type {
+  Assignment,
+  Ncr,
+  NcrAction,
+  NcrPatch,
+  NewUnit,
+  TestPlan,
+  TestPlanInput,
+  TestStep,
+  UnitFields,
+} from "./api";
 
 import {
   fetchUnitSummaries,
   fetchUnitDetails,
+  loadUnitDetails,
   fetchTesterQueue,
   fetchTesterAssignments,
   fetchSteps,
+  fetchStepCatalog,
+  publishStepCatalog,
+  fetchTestPlans,
+  fetchTestPlanVersion,
+  createTestPlan,
+  updateTestPlan,
+  deleteTestPlan,
+  fetchStepEvidence,
+  fetchStepResults,
+  fetchUnitNcrs,
+  createNcr,
+  updateNcr,
+  transitionNcr,
   createUnit,
+  updateUnit,
+  importUnits,
+  duplicateSchedule,
   createResult,
   fetchAssignmentsSchedule,
   updateAssignment,
+  bulkUpdateAssignments,
   fetchTesters,
   getRole,
   getTesterNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
   deleteUnit,
   fetchTesterGroups,
-  setTesterAssignmentStatus,
+  fetchCurrentUser,
+  renameUnit,
+  updateTesterAssignment,
+  removeStepEvidence,
 } from "./api";
-import type { Notification, TesterGroups } from "./api";
+import type {
+  AssignmentUpdate,
+  BulkAssignmentUpdate,
+  Notification,
+  TesterGroups,
+  UnitDetails,
+  UnitImportResult,
+  UnitSummary,
+} from "./api";
+import { assertCan, can } from "./permissions";
+import type { Permission } from "./permissions";
+import {
+  connectLiveEvents,
+  getLiveStatus,
+  subscribeLiveStatus,
+} from "./liveEvents";
+import type { LiveEvent } from "./liveEvents";
+import { getOutbox, replayOutbox, subscribeOutbox } from "./offline";
+import { getUploadTasks, subscribeUploadTasks } from "./uploads";
+import { pinnedPlanKeys, planSteps, planVersionKey, stepsByUnit, unitPlan } from "./testPlans";
+import type { PinnedUnit, PlanPin } from "./testPlans";
 
-// Polling intervals (ms)
+// Polling intervals (ms), only used while the live event stream is down
 const UNITS_REFRESH_MS = 10000; // 10s
 const TESTER_QUEUE_REFRESH_MS = 15000; // 15s
+const ASSIGNMENTS_REFRESH_MS = 10000; // 10s
+const NOTIFICATIONS_REFRESH_MS = 5000; // 5s
+const OUTBOX_RETRY_MS = 30000; // 30s
+
+/* ---------- offline outbox ---------- */
+
+function subscribeOnline(listener: () => void) {
+  window.addEventListener("online", listener);
+  window.addEventListener("offline", listener);
+  return () => {
+    window.removeEventListener("online", listener);
+    window.removeEventListener("offline", listener);
+  };
+}
+
+export function useOnlineStatus() {
+  return useSyncExternalStore(subscribeOnline, () => navigator.onLine);
+}
+
+export function useOutbox() {
+  return useSyncExternalStore(subscribeOutbox, getOutbox);
+}
+
+/**
+ * Replay the tester's queued actions on start-up, whenever the browser comes
+ * back online and whenever something new is queued while online.
+ * Mount once (App).
+ */
+export function useOutboxSync(testerId: string | null) {
+  const qc = useQueryClient();
+  const online = useOnlineStatus();
+  const outbox = useOutbox();
+  const pending = outbox.some((e) => e.state === "pending" && e.testerId === testerId);
+
+  useEffect(() => {
+    if (!testerId || !online || !pending) return;
+    replayOutbox(qc, testerId);
+    // "online" only means a network; keep trying until the server answers
+    const id = setInterval(() => replayOutbox(qc, testerId), OUTBOX_RETRY_MS);
+    return () => clearInterval(id);
+  }, [testerId, online, pending, qc]);
+}
+
+export function useUploadTasks() {
+  return useSyncExternalStore(subscribeUploadTasks, getUploadTasks);
+}
+
+/* ---------- live updates ---------- */
+
+export function useLiveStatus() {
+  return useSyncExternalStore(subscribeLiveStatus, getLiveStatus);
+}
+
+// Poll at `ms` only as a fallback when server push is not connected
+function usePollInterval(ms: number): number | false {
+  return useLiveStatus() === "connected" ? false : ms;
+}
+
+function applyLiveEvent(qc: QueryClient, event: LiveEvent) {
+  switch (event.type) {
+    case "assignment-updated": {
+      const a = event.assignment;
+      const replace = (list: Assignment[] | undefined) =>
+        list?.map((x) => (x.id === a.id ? { ...x, ...a } : x));
+
+      qc.setQueryData<Assignment[]>(["assignmentsSchedule"], replace);
+      qc.setQueryData<UnitDetails>(["unit", a.unit_id], (d) =>
+        d ? { ...d, assignments: replace(d.assignments)! } : d
+      );
+      // derived views (progress, queues) are computed server-side
+      qc.invalidateQueries({ queryKey: ["units"] });
+      qc.invalidateQueries({ queryKey: ["testerQueue"] });
+      qc.invalidateQueries({ queryKey: ["testerAssignments"] });
+      qc.invalidateQueries({ queryKey: ["testerSchedule"] });
+      break;
+    }
+
+    case "result-created": {
+      const r = event.result;
+      if (r) {
+        qc.setQueryData<UnitDetails>(["unit", r.unit_id], (d) =>
+          d && !d.results.some((x) => x.id === r.id)
+            ? { ...d, results: [...d.results, r] }
+            : d
+        );
+      }
+      qc.invalidateQueries({ queryKey: ["unit", event.unit_id] });
+      qc.invalidateQueries({ queryKey: ["stepResults", event.step_id] });
+      qc.invalidateQueries({ queryKey: ["units"] });
+      qc.invalidateQueries({ queryKey: ["testerQueue"] });
+      qc.invalidateQueries({ queryKey: ["testerAssignments"] });
+      qc.invalidateQueries({ queryKey: ["testerNotifications"] });
+      qc.invalidateQueries({ queryKey: ["assignmentsSchedule"] });
+      break;
+    }
+
+    case "unit-renamed": {
+      const { old_id, new_id } = event;
+      qc.setQueryData<UnitSummary[]>(["units"], (list) =>
+        list?.map((u) => (u.unit_id === old_id ? { ...u, unit_id: new_id } : u))
+      );
+      qc.removeQueries({ queryKey: ["unit", old_id] });
+      qc.invalidateQueries({ queryKey: ["assignmentsSchedule"] });
+      qc.invalidateQueries({ queryKey: ["testerQueue"] });
+      qc.invalidateQueries({ queryKey: ["testerAssignments"] });
+      break;
+    }
+
+    case "ncr-updated": {
+      storeNcr(qc, event.ncr);
+      break;
+    }
+
+    case "unit-deleted": {
+      const id = event.unit_id;
+      qc.setQueryData<UnitSummary[]>(["units"], (list) =>
+        list?.filter((u) => u.unit_id !== id)
+      );
+      qc.setQueryData<Assignment[]>(["assignmentsSchedule"], (list) =>
+        list?.filter((a) => a.unit_id !== id)
+      );
+      qc.removeQueries({ queryKey: ["unit", id] });
+      qc.invalidateQueries({ queryKey: ["testerQueue"] });
+      qc.invalidateQueries({ queryKey: ["testerAssignments"] });
+      break;
+    }
+  }
+}
+
+/**
+ * Keep the event stream open while signed in. Mount once (App).
+ * After every reconnect all active queries are refetched to catch up on
+ * anything missed while the stream was down.
+ */
+export function useLiveUpdates(enabled: boolean) {
+  const qc = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let wasConnected = false;
+    let everConnected = false;
+    const unsubscribe = subscribeLiveStatus(() => {
+      const connected = getLiveStatus() === "connected";
+      if (connected && !wasConnected && everConnected) qc.invalidateQueries();
+      if (connected) everConnected = true;
+      wasConnected = connected;
+    });
+    const disconnect = connectLiveEvents((event) => applyLiveEvent(qc, event));
+
+    return () => {
+      unsubscribe();
+      disconnect();
+    };
+  }, [enabled, qc]);
+}
+
+// Re-validate the session role with the server (never trust localStorage alone)
+export function useCurrentUser() {
+  return useQuery({
+    queryKey: ["currentUser"],
+    queryFn: fetchCurrentUser,
+    enabled: hasSession(),
+    staleTime: 60_000,
+    retry: false,
+  });
+}
+
+export function usePermissions() {
+  const { data: user, isLoading, isPaused } = useCurrentUser();
+  // Offline before /auth/me answered: the role it last confirmed
+  const role = user?.role ?? (isPaused ? getRole() : null);
+  return {
+    role,
+    isLoading,
+    can: (permission: Permission) => can(role, permission),
+  };
+}
 
 export function useUnits() {
   return useQuery({
     queryKey: ["units"],
     queryFn: fetchUnitSummaries,
-    refetchInterval: UNITS_REFRESH_MS,
+    refetchInterval: usePollInterval(UNITS_REFRESH_MS),
   });
 }
 
@@ -46,10 +284,347 @@ export function useUnitDetails(id: string) {
   });
 }
 
-export function useSteps() {
+export interface UnitDetailsMany {
+  details: (UnitDetails | undefined)[];
+  loaded: number;
+  error: Error | null;
+}
+
+function combineUnitDetails(results: UseQueryResult<UnitDetails>[]): UnitDetailsMany {
+  return {
+    details: results.map((r) => r.data),
+    loaded: results.filter((r) => r.data).length,
+    error: (results.find((r) => r.error)?.error as Error | undefined) ?? null,
+  };
+}
+
+// Anything here changing means the unit's details are worth refetching
+function summaryFingerprint(u: UnitSummary) {
+  return [u.status, u.passed_steps, u.total_steps, u.next_step_id ?? "", u.progress_percent].join("|");
+}
+
+/**
+ * Details for many units (Matrix View), one cache entry per unit.
+ * Initial loads are coalesced into batch requests and fill in as they
+ * arrive. Afterwards a unit is only refetched when its summary changes
+ * (or a live event invalidates it), not on a timer.
+ */
+export function useUnitDetailsMany(units: UnitSummary[] | undefined) {
+  const qc = useQueryClient();
+  const fingerprints = useRef(new Map<string, string>());
+
+  useEffect(() => {
+    for (const u of units ?? []) {
+      const fp = summaryFingerprint(u);
+      const prev = fingerprints.current.get(u.unit_id);
+      if (prev !== undefined && prev !== fp) {
+        qc.invalidateQueries({ queryKey: ["unit", u.unit_id], exact: true });
+      }
+      fingerprints.current.set(u.unit_id, fp);
+    }
+  }, [units, qc]);
+
+  return useQueries({
+    queries: (units ?? []).map((u) => ({
+      queryKey: ["unit", u.unit_id],
+      queryFn: () => loadUnitDetails(u.unit_id),
+      staleTime: Infinity,
+    })),
+    combine: combineUnitDetails,
+  });
+}
+
+export function useStepEvidence(unitId: string, stepId: number, enabled = true) {
+  return useQuery({
+    // nested under the unit so unit invalidations refresh the file list too
+    queryKey: ["unit", unitId, "evidence", stepId],
+    enabled: enabled && !!unitId,
+    queryFn: () => fetchStepEvidence(unitId, stepId),
+  });
+}
+
+export function useRemoveStepEvidence() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ unitId, stepId }: { unitId: string; stepId: number }) => {
+      assertCan("evidence:delete");
+      return removeStepEvidence(unitId, stepId);
+    },
+    onSuccess: (_data, { unitId }) => {
+      qc.invalidateQueries({ queryKey: ["unit", unitId] });
+    },
+  });
+}
+
+export function useStepResults(stepId: number | null) {
+  return useQuery({
+    queryKey: ["stepResults", stepId],
+    enabled: stepId != null,
+    queryFn: () => fetchStepResults(stepId!),
+  });
+}
+
+/* ---------- non-conformance (NCR) ---------- */
+
+export function useUnitNcrs(unitId: string) {
+  return useQuery({
+    queryKey: ["unit", unitId, "ncrs"],
+    enabled: !!unitId,
+    queryFn: () => fetchUnitNcrs(unitId),
+  });
+}
+
+function combineUnitNcrs(results: UseQueryResult<Ncr[]>[]) {
+  return {
+    data: results.map((r) => r.data),
+    isLoading: results.some((r) => r.isLoading),
+    error: results.find((r) => r.error)?.error ?? null,
+  };
+}
+
+/** NCRs of several units, sharing the cache entries of `useUnitNcrs`. */
+export function useNcrsByUnit(unitIds: string[]) {
+  const queries = useQueries({
+    queries: unitIds.map((id) => ({
+      queryKey: ["unit", id, "ncrs"],
+      queryFn: () => fetchUnitNcrs(id),
+    })),
+    combine: combineUnitNcrs,
+  });
+  const lists = queries.data;
+
+  const data = useMemo(() => {
+    const m = new Map<string, Ncr[]>();
+    unitIds.forEach((id, i) => {
+      const list = lists[i];
+      if (list) m.set(id, list);
+    });
+    return m;
+  }, [unitIds, lists]);
+
+  return { data, isLoading: queries.isLoading, error: queries.error };
+}
+
+// Put a saved NCR into its unit's list; counts and gating live server-side
+function storeNcr(qc: QueryClient, ncr: Ncr) {
+  qc.setQueryData<Ncr[]>(["unit", ncr.unit_id, "ncrs"], (list) =>
+    list
+      ? list.some((n) => n.id === ncr.id)
+        ? list.map((n) => (n.id === ncr.id ? ncr : n))
+        : [...list, ncr]
+      : list
+  );
+  qc.invalidateQueries({ queryKey: ["units"] });
+  qc.invalidateQueries({ queryKey: ["testerQueue"] });
+}
+
+export function useCreateNcr() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: Parameters<typeof createNcr>[0]) => {
+      assertCan("ncr:raise");
+      return createNcr(data);
+    },
+    onSuccess: (ncr) => storeNcr(qc, ncr),
+  });
+}
+
+export function useUpdateNcr() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, patch }: { id: string; patch: NcrPatch }) => {
+      assertCan("ncr:raise");
+      return updateNcr(id, patch);
+    },
+    onSuccess: (ncr) => storeNcr(qc, ncr),
+  });
+}
+
+export function useNcrTransition() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, action, note }: { id: string; action: NcrAction; note?: string }) => {
+      assertCan(action === "approve" || action === "reject" ? "ncr:approve" : "ncr:raise");
+      return transitionNcr(id, action, note);
+    },
+    onSuccess: (ncr) => storeNcr(qc, ncr),
+  });
+}
+
+// Pass a unit's plan_version to get the steps it was started with
+export function useSteps(version?: number | null) {
+  return useQuery({
+    queryKey: version != null ? ["steps", version] : ["steps"],
+    queryFn: () => fetchSteps(version),
+    // Published versions never change
+    staleTime: version != null ? Infinity : undefined,
+  });
+}
+
+export function useStepCatalog() {
+  const role = getRole();
+  return useQuery({
+    queryKey: ["stepCatalog"],
+    queryFn: fetchStepCatalog,
+    enabled: can(role, "steps:manage"),
+  });
+}
+
+export function usePublishStepCatalog() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: Parameters<typeof publishStepCatalog>[0]) => {
+      assertCan("steps:manage");
+      return publishStepCatalog(payload);
+    },
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: ["stepCatalog"] });
+      qc.invalidateQueries({ queryKey: ["steps"], exact: true });
+      qc.invalidateQueries({ queryKey: ["units"] });
+    },
+  });
+}
+
+export function useTestPlans() {
   return useQuery({
-    queryKey: ["steps"],
-    queryFn: fetchSteps,
+    queryKey: ["testPlans"],
+    queryFn: fetchTestPlans,
+  });
+}
+
+function combinePlanVersions(results: UseQueryResult<TestPlan>[]) {
+  const plans = new Map<string, TestPlan>();
+  for (const r of results) if (r.data) plans.set(planVersionKey(r.data.id, r.data.version), r.data);
+  return {
+    plans,
+    isLoading: results.some((r) => r.isLoading),
+    error: results.find((r) => r.error)?.error ?? null,
+  };
+}
+
+/** Each unit's test plan at the version it started on (see `unitPlan`). */
+export function useUnitPlans(units: PlanPin[]) {
+  const plansQuery = useTestPlans();
+  const pinned = useQueries({
+    queries: pinnedPlanKeys(units, plansQuery.data).map(({ id, version }) => ({
+      queryKey: ["testPlan", id, version],
+      queryFn: () => fetchTestPlanVersion(id, version),
+      // Saved plan versions never change
+      staleTime: Infinity,
+    })),
+    combine: combinePlanVersions,
+  });
+
+  return {
+    plans: plansQuery.data,
+    pinned: pinned.plans,
+    isLoading: plansQuery.isLoading || pinned.isLoading,
+    error: plansQuery.error ?? pinned.error,
+  };
+}
+
+/**
+ * Steps a unit runs: its catalog version, narrowed and ordered by the
+ * version of its test plan it started on.
+ */
+export function useUnitSteps(unit: PlanPin | null | undefined) {
+  const stepsQuery = useSteps(unit?.plan_version);
+  const plansQuery = useUnitPlans(unit ? [unit] : []);
+  const plan = unit ? unitPlan(unit, plansQuery.plans, plansQuery.pinned) : null;
+
+  const data = useMemo(() => {
+    if (!stepsQuery.data || plan === undefined) return undefined;
+    return planSteps(plan, stepsQuery.data);
+  }, [stepsQuery.data, plan]);
+
+  const hasPlan = !!unit?.test_plan_id;
+  return {
+    data,
+    plan: plan ?? null,
+    isLoading: stepsQuery.isLoading || (hasPlan && plansQuery.isLoading),
+    error: stepsQuery.error ?? (hasPlan ? plansQuery.error : null),
+  };
+}
+
+function combineStepVersions(results: UseQueryResult<TestStep[]>[]) {
+  return {
+    data: results.map((r) => r.data),
+    isLoading: results.some((r) => r.isLoading),
+    error: results.find((r) => r.error)?.error ?? null,
+  };
+}
+
+/**
+ * Steps per unit for pages that show many units at once (see
+ * `useUnitSteps`): each catalog version in use is fetched once.
+ */
+export function useStepsByUnit(units: PinnedUnit[] | undefined) {
+  const stepsQuery = useSteps();
+  const plansQuery = useUnitPlans(units ?? []);
+  const { plans, pinned } = plansQuery;
+
+  const versions = useMemo(
+    () =>
+      Array.from(
+        new Set((units ?? []).flatMap((u) => (u.plan_version != null ? [u.plan_version] : [])))
+      ),
+    [units]
+  );
+  const versionQueries = useQueries({
+    queries: versions.map((v) => ({
+      queryKey: ["steps", v],
+      queryFn: () => fetchSteps(v),
+      staleTime: Infinity, // published versions never change
+    })),
+    combine: combineStepVersions,
+  });
+  const versionSteps = versionQueries.data;
+
+  const data = useMemo(() => {
+    const byVersion = new Map(versions.map((v, i) => [v, versionSteps[i]]));
+    return stepsByUnit(
+      units ?? [],
+      (u) => unitPlan(u, plans, pinned),
+      (u) => (u.plan_version != null ? byVersion.get(u.plan_version) : stepsQuery.data)
+    );
+  }, [units, plans, pinned, versions, versionSteps, stepsQuery.data]);
+
+  return {
+    data,
+    isLoading: stepsQuery.isLoading || plansQuery.isLoading || versionQueries.isLoading,
+    error: stepsQuery.error ?? plansQuery.error ?? versionQueries.error,
+  };
+}
+
+export function useSaveTestPlan() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      id,
+      plan,
+    }: {
+      id: string | null; // null creates a new plan
+      plan: TestPlanInput & { version?: number };
+    }) => {
+      assertCan("steps:manage");
+      return id ? updateTestPlan(id, plan) : createTestPlan(plan);
+    },
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: ["testPlans"] });
+    },
+  });
+}
+
+export function useDeleteTestPlan() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => {
+      assertCan("steps:manage");
+      return deleteTestPlan(id);
+    },
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: ["testPlans"] });
+    },
   });
 }
 
@@ -58,7 +633,7 @@ export function useTesterQueue(testerId: string) {
     queryKey: ["testerQueue", testerId],
     queryFn: () => fetchTesterQueue(testerId),
     enabled: !!testerId,
-    refetchInterval: TESTER_QUEUE_REFRESH_MS,
+    refetchInterval: usePollInterval(TESTER_QUEUE_REFRESH_MS),
   });
 }
 
@@ -67,7 +642,7 @@ export function useTesterAssignments(testerId: string) {
     queryKey: ["testerAssignments", testerId],
     queryFn: () => fetchTesterAssignments(testerId),
     enabled: !!testerId,
-    refetchInterval: 10000,
+    refetchInterval: usePollInterval(ASSIGNMENTS_REFRESH_MS),
   });
 }
 
@@ -75,7 +650,7 @@ export function useAssignmentsSchedule() {
   return useQuery({
     queryKey: ["assignmentsSchedule"],
     queryFn: fetchAssignmentsSchedule,
-    refetchInterval: 10000,
+    refetchInterval: usePollInterval(ASSIGNMENTS_REFRESH_MS),
   });
 }
 
@@ -84,7 +659,7 @@ export function useTesters() {
   return useQuery({
     queryKey: ["testers"],
     queryFn: fetchTesters,
-    enabled: role === "supervisor",
+    enabled: can(role, "schedule:edit"),
   });
 }
 
@@ -93,7 +668,7 @@ export function useTesterGroups() {
   return useQuery<TesterGroups>({
     queryKey: ["testerGroups"],
     queryFn: fetchTesterGroups,
-    enabled: role === "supervisor",
+    enabled: can(role, "schedule:edit"),
   });
 }
 
@@ -105,13 +680,11 @@ export function useUpdateAssignment() {
       data,
     }: {
       id: string;
-      data: {
-        tester_id?: string;
-        status?: string;
-        start_at?: string | null;
-        end_at?: string | null;
-      };
-    }) => updateAssignment(id, data),
+      data: AssignmentUpdate;
+    }) => {
+      assertCan("schedule:edit");
+      return updateAssignment(id, data);
+    },
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ["assignmentsSchedule"] });
       qc.invalidateQueries({ queryKey: ["units"] });
@@ -119,27 +692,142 @@ export function useUpdateAssignment() {
   });
 }
 
+// Mark one unit's step N/A, or undo it
+export function useSetStepSkipped() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, skipped }: { id: string; unitId: string; skipped: boolean }) => {
+      assertCan("steps:mark_na");
+      return updateAssignment(id, { skipped });
+    },
+    onSettled: (_data, _err, { unitId }) => {
+      qc.invalidateQueries({ queryKey: ["unit", unitId] });
+      qc.invalidateQueries({ queryKey: ["assignmentsSchedule"] });
+      qc.invalidateQueries({ queryKey: ["units"] });
+    },
+  });
+}
+
+export function useUpdateRemark() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, remark }: { id: string; unitId: string; remark: string | null }) => {
+      assertCan("remarks:edit");
+      return updateTesterAssignment(id, { remark });
+    },
+    onSuccess: (_data, { unitId }) => {
+      qc.invalidateQueries({ queryKey: ["unit", unitId] });
+    },
+  });
+}
+
+// Settles even when some rows fail; callers inspect the per-row results
+export function useBulkUpdateAssignments() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (updates: BulkAssignmentUpdate[]) => {
+      assertCan("schedule:edit");
+      return bulkUpdateAssignments(updates);
+    },
+    // Patch saved rows into the schedule right away so the page never shows
+    // the pre-save values (or versions) while the refetch is in flight
+    onSuccess: (results) => {
+      const saved = new Map(
+        results.filter((r) => r.ok && r.assignment).map((r) => [r.id, r.assignment!])
+      );
+      if (saved.size === 0) return;
+      qc.setQueryData<Assignment[]>(["assignmentsSchedule"], (old) =>
+        old?.map((a) => saved.get(a.id) ?? a)
+      );
+    },
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: ["assignmentsSchedule"] });
+      qc.invalidateQueries({ queryKey: ["units"] });
+    },
+  });
+}
+
 export function useCreateUnit() {
   const qc = useQueryClient();
   return useMutation({
-    mutationFn: (unit_id: string) => createUnit(unit_id),
+    mutationFn: (unit: NewUnit) => {
+      assertCan("units:create");
+      return createUnit(unit);
+    },
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ["units"] });
     },
   });
 }
 
+export interface UnitImportOutcome {
+  results: UnitImportResult[];
+  scheduleError: string | null; // units were created but the template copy failed
+}
+
+// Creates the units, then copies the template unit's schedule onto the ones that
+// were created. Settles even when some rows fail; callers inspect the results.
+export function useImportUnits() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      units,
+      template,
+    }: {
+      units: NewUnit[];
+      template?: { source_unit_id: string; day_shift: number } | null;
+    }): Promise<UnitImportOutcome> => {
+      assertCan("units:create");
+      if (template) assertCan("schedule:edit");
+
+      const results = await importUnits(units);
+      const created = results.filter((r) => r.ok).map((r) => r.unit_id);
+
+      let scheduleError: string | null = null;
+      if (template && created.length > 0) {
+        try {
+          await duplicateSchedule({ ...template, new_unit_ids: created });
+        } catch (err) {
+          scheduleError = getErrorMessage(err);
+        }
+      }
+      return { results, scheduleError };
+    },
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: ["units"] });
+      qc.invalidateQueries({ queryKey: ["assignmentsSchedule"] });
+    },
+  });
+}
+
+export function useUpdateUnit() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      unitId,
+      fields,
+    }: {
+      unitId: string;
+      fields: UnitFields & { version?: number };
+    }) => {
+      assertCan("units:edit");
+      return updateUnit(unitId, fields);
+    },
+    onSuccess: (_data, { unitId }) => {
+      qc.invalidateQueries({ queryKey: ["units"] });
+      qc.invalidateQueries({ queryKey: ["unit", unitId], exact: true });
+    },
+  });
+}
+
 // Rename unit
 export function useRenameUnit() {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async (payload: { oldId: string; newId: string }) => {
-      const { oldId, newId } = payload;
-      return request(`/units/${encodeURIComponent(oldId)}/rename`, {
-        method: "PATCH",
-        body: JSON.stringify({ new_unit_id: newId }),
-      });
+      assertCan("units:rename");
+      return renameUnit(payload.oldId, payload.newId);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["units"] });
@@ -150,7 +838,10 @@ export function useRenameUnit() {
 export function useCreateResult() {
   const qc = useQueryClient();
   return useMutation({
-    mutationFn: createResult,
+    mutationFn: (payload: Parameters<typeof createResult>[0]) => {
+      assertCan("results:submit");
+      return createResult(payload);
+    },
     onSuccess: (_, variables) => {
       qc.invalidateQueries({ queryKey: ["unit", variables.unit_id] });
       qc.invalidateQueries({ queryKey: ["units"] });
@@ -162,7 +853,10 @@ export function useCreateResult() {
 export function useDeleteUnit() {
   const qc = useQueryClient();
   return useMutation({
-    mutationFn: (unit_id: string) => deleteUnit(unit_id),
+    mutationFn: (unit_id: string) => {
+      assertCan("units:delete");
+      return deleteUnit(unit_id);
+    },
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ["units"] });
     },
@@ -178,7 +872,27 @@ export function useTesterNotifications(testerId: string | null) {
       return getTesterNotifications(testerId);
     },
     enabled: !!testerId,
-    refetchInterval: 5000,
+    refetchInterval: usePollInterval(NOTIFICATIONS_REFRESH_MS),
+  });
+}
+
+export function useMarkNotificationRead() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (notifId: string) => markNotificationRead(notifId),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["testerNotifications"] });
+    },
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (notifIds: string[]) => markAllNotificationsRead(notifIds),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["testerNotifications"] });
+    },
   });
 }
 
@@ -193,22 +907,3 @@ export function useTesterSchedule(testerId: string) {
     },
   });
 }
-
-export function useTesterSetStatus() {
-  const qc = useQueryClient();
-  return useMutation({
-    mutationFn: ({
-      assignmentId,
-      status,
-    }: {
-      assignmentId: string;
-      status: "RUNNING" | "PENDING";
-    }) => setTesterAssignmentStatus(assignmentId, status),
-    onSuccess: () => {
-      qc.invalidateQueries({ queryKey: ["testerAssignments"] });
-      qc.invalidateQueries({ queryKey: ["testerQueue"] });
-      qc.invalidateQueries({ queryKey: ["testerSchedule"] });
-      qc.invalidateQueries({ queryKey: ["assignmentsSchedule"] });
-    },
-  });
-}
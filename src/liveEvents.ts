@@ -0,0 +1,128 @@
+// src/liveEvents.ts
+import { API_BASE_URL, getFreshToken } from "./api";
+import type { Assignment, Ncr, Result } from "./api";
+
+/* =========================================================
+   Server-sent events
+   ---------------------------------------------------------
+   GET /events?access_token=… streams named events whose data is JSON.
+   EventSource cannot send headers, hence the token in the query string.
+   ========================================================= */
+
+export type LiveEvent =
+  | { type: "result-created"; unit_id: string; step_id: number; result?: Result }
+  | { type: "assignment-updated"; assignment: Assignment }
+  | { type: "unit-renamed"; old_id: string; new_id: string }
+  | { type: "unit-deleted"; unit_id: string }
+  | { type: "ncr-updated"; ncr: Ncr };
+
+const EVENT_TYPES: LiveEvent["type"][] = [
+  "result-created",
+  "assignment-updated",
+  "unit-renamed",
+  "unit-deleted",
+  "ncr-updated",
+];
+
+// "unsupported": no EventSource in this browser, so polling is all we have
+export type LiveStatus = "connecting" | "connected" | "reconnecting" | "offline" | "unsupported";
+
+const MAX_BACKOFF_MS = 30000;
+
+/* ---------- connection status store (for useSyncExternalStore) ---------- */
+
+let status: LiveStatus = "offline";
+const listeners = new Set<() => void>();
+
+function setStatus(next: LiveStatus) {
+  if (next === status) return;
+  status = next;
+  listeners.forEach((l) => l());
+}
+
+export function getLiveStatus(): LiveStatus {
+  return status;
+}
+
+export function subscribeLiveStatus(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/* ---------- client ---------- */
+
+/**
+ * Open the event stream and keep it open, reconnecting with exponential
+ * backoff (and a freshly refreshed token) whenever it drops.
+ * Returns a function that closes the stream for good.
+ */
+export function connectLiveEvents(onEvent: (event: LiveEvent) => void) {
+  if (typeof EventSource === "undefined") {
+    setStatus("unsupported");
+    return () => {};
+  }
+
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let closed = false;
+
+  const scheduleReconnect = () => {
+    if (closed) return;
+    setStatus("reconnecting");
+    const delay = Math.min(MAX_BACKOFF_MS, 1000 * 2 ** attempt);
+    attempt += 1;
+    retryTimer = setTimeout(open, delay);
+  };
+
+  async function open() {
+    if (closed) return;
+    setStatus(attempt === 0 ? "connecting" : "reconnecting");
+
+    const token = await getFreshToken();
+    if (closed) return;
+    if (!token) {
+      setStatus("offline");
+      return;
+    }
+
+    const params = new URLSearchParams({ access_token: token });
+    const es = new EventSource(`${API_BASE_URL}/events?${params.toString()}`);
+    source = es;
+
+    es.onopen = () => {
+      attempt = 0;
+      setStatus("connected");
+    };
+
+    // Browser auto-reconnect would reuse the (possibly expired) token URL
+    es.onerror = () => {
+      es.close();
+      if (source === es) source = null;
+      scheduleReconnect();
+    };
+
+    for (const type of EVENT_TYPES) {
+      es.addEventListener(type, (msg) => {
+        try {
+          const data = JSON.parse((msg as MessageEvent<string>).data);
+          onEvent({ ...data, type } as LiveEvent);
+        } catch {
+          // ignore malformed payloads
+        }
+      });
+    }
+  }
+
+  open();
+
+  return () => {
+    closed = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    source?.close();
+    source = null;
+    setStatus("offline");
+  };
+}
@@ -5,10 +5,15 @@ import { BrowserRouter } from "react-router-dom";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import App from "./App";
 import { PromptProvider } from "./components/PromptProvider";
+import { persistQueryCache, restoreQueryCache } from "./offline";
 
 
 const client = new QueryClient();
 
+// Tester queue, steps and units survive reloads without a connection
+restoreQueryCache(client);
+persistQueryCache(client);
+
 const rootEl = document.getElementById("root");
 if (!rootEl) throw new Error("Root element #root not found");
 
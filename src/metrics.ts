@@ -0,0 +1,215 @@
+// src/metrics.ts
+import type { Result, TestStep } from "./api";
+
+export type Verdict = "PASS" | "FAIL";
+
+export type LimitComp = "<" | "<=" | ">" | ">=" | "==" | "!=";
+
+// Recorded inside Result.metrics when the tester overrides the computed verdict
+export const VERDICT_OVERRIDE_KEY = "verdict_override";
+
+export interface VerdictOverride {
+  computed: Verdict | null;
+  chosen: Verdict;
+  justification: string;
+}
+
+export interface MetricField {
+  key: string;
+  label: string;
+  unit?: string;
+  isLimit: boolean;
+}
+
+const COMP_ALIASES: Record<string, LimitComp> = {
+  "<": "<",
+  lt: "<",
+  "<=": "<=",
+  le: "<=",
+  lte: "<=",
+  ">": ">",
+  gt: ">",
+  ">=": ">=",
+  ge: ">=",
+  gte: ">=",
+  "=": "==",
+  "==": "==",
+  eq: "==",
+  "!=": "!=",
+  ne: "!=",
+};
+
+export function normalizeComp(comp?: string | null): LimitComp | null {
+  if (!comp) return null;
+  return COMP_ALIASES[comp.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Build the metric inputs for a step.
+ * `metrics_hint` is a comma / semicolon / newline separated list, where each
+ * entry may carry a unit in brackets, e.g. "peak_g (g), temp_max [°C]".
+ * The limit metric is always included (first), even if the hint omits it.
+ */
+export function metricFieldsForStep(step?: TestStep | null): MetricField[] {
+  if (!step) return [];
+
+  const limitKey = step.limit_metric?.trim() || null;
+  const fields: MetricField[] = [];
+  const seen = new Set<string>();
+
+  const entries = (step.metrics_hint ?? "")
+    .split(/[,;\n]+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  for (const entry of entries) {
+    const m = entry.match(/^(.*?)\s*[([]\s*([^)\]]*)\s*[)\]]\s*$/);
+    const key = (m ? m[1] : entry).trim();
+    const unit = m ? m[2].trim() || undefined : undefined;
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    fields.push({ key, label: key, unit, isLimit: key === limitKey });
+  }
+
+  if (limitKey && !seen.has(limitKey)) {
+    fields.unshift({ key: limitKey, label: limitKey, isLimit: true });
+  } else if (limitKey) {
+    // keep the limit metric first so testers see it immediately
+    fields.sort((a, b) => Number(b.isLimit) - Number(a.isLimit));
+  }
+
+  return fields;
+}
+
+export function hasLimit(step?: TestStep | null): boolean {
+  return (
+    !!step?.limit_metric &&
+    normalizeComp(step.limit_comp) !== null &&
+    typeof step.limit_value === "number"
+  );
+}
+
+export function formatLimit(step?: TestStep | null): string {
+  if (!step || !hasLimit(step)) return "";
+  return `${step.limit_metric} ${normalizeComp(step.limit_comp)} ${step.limit_value}`;
+}
+
+/**
+ * Compare a measured value against the step limit.
+ * Returns null when the step has no usable limit or the value is not numeric.
+ */
+export function evaluateLimit(
+  step: TestStep | null | undefined,
+  value: unknown
+): Verdict | null {
+  if (!step || !hasLimit(step)) return null;
+
+  const n = typeof value === "number" ? value : Number(value);
+  if (value === "" || value === null || value === undefined || isNaN(n)) {
+    return null;
+  }
+
+  const limit = step.limit_value as number;
+  let ok: boolean;
+  switch (normalizeComp(step.limit_comp)) {
+    case "<":
+      ok = n < limit;
+      break;
+    case "<=":
+      ok = n <= limit;
+      break;
+    case ">":
+      ok = n > limit;
+      break;
+    case ">=":
+      ok = n >= limit;
+      break;
+    case "==":
+      ok = n === limit;
+      break;
+    case "!=":
+      ok = n !== limit;
+      break;
+    default:
+      return null;
+  }
+  return ok ? "PASS" : "FAIL";
+}
+
+/** Numeric strings become numbers; empty inputs are dropped. */
+export function buildMetricsPayload(
+  values: Record<string, string>
+): Record<string, number | string> {
+  const out: Record<string, number | string> = {};
+  for (const [key, raw] of Object.entries(values)) {
+    const v = raw.trim();
+    if (!v) continue;
+    const n = Number(v);
+    out[key] = isNaN(n) ? v : n;
+  }
+  return out;
+}
+
+/* ---------- reading recorded metrics ---------- */
+
+export interface MetricEntry extends MetricField {
+  value: unknown;
+  verdict: Verdict | null; // limit metric only
+}
+
+/** Numeric value of a recorded metric, or null. */
+export function numericMetric(value: unknown): number | null {
+  if (value === "" || value === null || value === undefined || typeof value === "boolean") {
+    return null;
+  }
+  const n = typeof value === "number" ? value : Number(value);
+  return isFinite(n) ? n : null;
+}
+
+export function formatMetricValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "-";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function readVerdictOverride(
+  metrics: Record<string, unknown> | null | undefined
+): VerdictOverride | null {
+  const o = metrics?.[VERDICT_OVERRIDE_KEY] as VerdictOverride | undefined;
+  return o && typeof o === "object" && o.chosen ? o : null;
+}
+
+/**
+ * A result's metrics in display order: the step's hinted fields first
+ * (limit metric leading), then anything else the tester recorded.
+ */
+export function metricEntries(result: Result, step?: TestStep | null): MetricEntry[] {
+  const metrics = result.metrics ?? {};
+  const fields = metricFieldsForStep(step);
+  const known = new Set(fields.map((f) => f.key));
+
+  const extra: MetricField[] = Object.keys(metrics)
+    .filter((k) => k !== VERDICT_OVERRIDE_KEY && !known.has(k))
+    .sort()
+    .map((key) => ({ key, label: key, isLimit: false }));
+
+  return [...fields, ...extra]
+    .filter((f) => f.key in metrics)
+    .map((f) => ({
+      ...f,
+      value: metrics[f.key],
+      verdict: f.isLimit ? evaluateLimit(step, metrics[f.key]) : null,
+    }));
+}
+
+// Passing values this close to the limit (fraction of |limit|) are flagged
+export const NEAR_LIMIT_FRACTION = 0.1;
+
+/** Still passing, but within NEAR_LIMIT_FRACTION of the step limit. */
+export function isNearLimit(step: TestStep | null | undefined, value: unknown): boolean {
+  if (evaluateLimit(step, value) !== "PASS") return false;
+  const n = numericMetric(value);
+  const limit = step!.limit_value as number;
+  if (n === null || limit === 0) return false;
+  return Math.abs(n - limit) <= Math.abs(limit) * NEAR_LIMIT_FRACTION;
+}
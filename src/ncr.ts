@@ -0,0 +1,43 @@
+// src/ncr.ts
+import type { Ncr, NcrDisposition, NcrStatus, TestStep } from "./api";
+import { prerequisiteMap, upstreamSteps } from "./stepGraph";
+
+export const DISPOSITION_LABELS: Record<NcrDisposition, string> = {
+  REWORK: "Rework",
+  RETEST: "Retest",
+  SCRAP: "Scrap",
+  USE_AS_IS: "Use as is",
+};
+
+export const NCR_STATUS_LABELS: Record<NcrStatus, string> = {
+  OPEN: "Open",
+  AWAITING_APPROVAL: "Awaiting approval",
+  APPROVED: "Approved",
+  CLOSED: "Closed",
+};
+
+export function isOpenNcr(ncr: Ncr) {
+  return ncr.status !== "CLOSED";
+}
+
+export function ncrLabel(ncr: Ncr) {
+  return `NCR ${ncr.id}`;
+}
+
+/**
+ * NCRs that hold back `step`: any NCR not closed yet on a step it depends
+ * on. A scrapped unit stays blocked on every other step, even once the NCR
+ * is closed.
+ */
+export function ncrsGatingStep(
+  ncrs: Ncr[],
+  step: TestStep,
+  stepsById: Map<number, TestStep>
+): Ncr[] {
+  const upstream = upstreamSteps(step.id, prerequisiteMap(Array.from(stepsById.values())));
+  return ncrs.filter((n) => {
+    if (!stepsById.has(n.step_id) || n.step_id === step.id) return false;
+    if (n.disposition === "SCRAP") return true;
+    return upstream.has(n.step_id) && isOpenNcr(n);
+  });
+}
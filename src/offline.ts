@@ -0,0 +1,326 @@
+// src/offline.ts
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+import {
+  ApiError,
+  createResult,
+  fetchUnitDetails,
+  getErrorMessage,
+  setTesterAssignmentStatus,
+  updateTesterAssignment,
+} from "./api";
+import type { Assignment, TesterAssignmentPatch } from "./api";
+
+/* =========================================================
+   Persisted query cache
+   ---------------------------------------------------------
+   The tester flow has to keep working when the chamber area loses Wi-Fi,
+   so the queries it needs are mirrored to localStorage and restored on
+   start-up.
+   ========================================================= */
+
+const CACHE_STORAGE_KEY = "offlineCache:v1";
+const PERSISTED_ROOTS = ["currentUser", "testerAssignments", "testerQueue", "steps", "units"];
+const CACHE_WRITE_DELAY_MS = 1000;
+
+interface PersistedQuery {
+  key: QueryKey;
+  data: unknown;
+  updatedAt: number;
+}
+
+export function restoreQueryCache(qc: QueryClient) {
+  try {
+    const raw = localStorage.getItem(CACHE_STORAGE_KEY);
+    if (!raw) return;
+    for (const q of JSON.parse(raw) as PersistedQuery[]) {
+      qc.setQueryData(q.key, q.data, { updatedAt: q.updatedAt });
+    }
+  } catch {
+    localStorage.removeItem(CACHE_STORAGE_KEY);
+  }
+}
+
+/** Keep localStorage in sync with the persisted queries. Returns unsubscribe. */
+export function persistQueryCache(qc: QueryClient) {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const write = () => {
+    timer = null;
+    const queries: PersistedQuery[] = qc
+      .getQueryCache()
+      .getAll()
+      .filter(
+        (q) =>
+          q.state.status === "success" &&
+          PERSISTED_ROOTS.includes(String(q.queryKey[0]))
+      )
+      .map((q) => ({
+        key: q.queryKey,
+        data: q.state.data,
+        updatedAt: q.state.dataUpdatedAt,
+      }));
+    try {
+      localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(queries));
+    } catch {
+      // storage full: the app still works online
+    }
+  };
+
+  return qc.getQueryCache().subscribe((event) => {
+    if (event.type !== "updated" && event.type !== "removed") return;
+    if (!PERSISTED_ROOTS.includes(String(event.query.queryKey[0]))) return;
+    if (!timer) timer = setTimeout(write, CACHE_WRITE_DELAY_MS);
+  });
+}
+
+/** Drop the persisted cache (logout / session expiry). */
+export function clearPersistedCache() {
+  localStorage.removeItem(CACHE_STORAGE_KEY);
+}
+
+/* =========================================================
+   Outbox
+   ---------------------------------------------------------
+   Tester actions are queued here first and replayed in order. Each entry
+   records the assignment as the tester saw it, so replay can tell when
+   someone else changed it in the meantime.
+   ========================================================= */
+
+const OUTBOX_STORAGE_KEY = "offlineOutbox:v1";
+
+export type OutboxAction =
+  | {
+      kind: "createResult";
+      payload: Parameters<typeof createResult>[0];
+    }
+  | {
+      kind: "setStatus";
+      assignmentId: string;
+      status: "RUNNING" | "PENDING";
+    }
+  | {
+      kind: "patchAssignment";
+      assignmentId: string;
+      patch: TesterAssignmentPatch;
+    };
+
+export type OutboxState = "pending" | "conflict" | "error";
+
+export type OutboxEntry = OutboxAction & {
+  id: string;
+  createdAt: string;
+  testerId: string;
+  unitId: string;
+  label: string; // shown in the pending list
+  // assignment as the tester saw it when acting
+  baseStatus: string;
+  baseVersion?: number;
+  state: OutboxState;
+  error?: string;
+};
+
+let outbox: OutboxEntry[] = loadOutbox();
+const outboxListeners = new Set<() => void>();
+
+function loadOutbox(): OutboxEntry[] {
+  try {
+    return JSON.parse(localStorage.getItem(OUTBOX_STORAGE_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+}
+
+function setOutbox(next: OutboxEntry[]) {
+  outbox = next;
+  localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(next));
+  outboxListeners.forEach((l) => l());
+}
+
+export function getOutbox(): OutboxEntry[] {
+  return outbox;
+}
+
+export function subscribeOutbox(listener: () => void) {
+  outboxListeners.add(listener);
+  return () => {
+    outboxListeners.delete(listener);
+  };
+}
+
+function updateEntry(id: string, patch: Partial<OutboxEntry>) {
+  setOutbox(outbox.map((e) => (e.id === id ? ({ ...e, ...patch } as OutboxEntry) : e)));
+}
+
+export function discardOutboxEntry(id: string) {
+  setOutbox(outbox.filter((e) => e.id !== id));
+}
+
+/** Queue an action taken on `assignment` and reflect it in the cached queue. */
+export function enqueueOutbox(
+  qc: QueryClient,
+  action: OutboxAction,
+  ctx: { testerId: string; assignment: Assignment; label: string }
+) {
+  const entry = {
+    ...action,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+    testerId: ctx.testerId,
+    unitId: ctx.assignment.unit_id,
+    label: ctx.label,
+    baseStatus: ctx.assignment.status,
+    baseVersion: ctx.assignment.version,
+    state: "pending",
+  } as OutboxEntry;
+
+  setOutbox([...outbox, entry]);
+  applyOptimistic(qc, entry);
+}
+
+// What the tester should see right away, online or not
+function applyOptimistic(qc: QueryClient, entry: OutboxEntry) {
+  qc.setQueryData<Assignment[]>(["testerAssignments", entry.testerId], (list) =>
+    list?.map((a) => {
+      switch (entry.kind) {
+        case "createResult":
+          return a.unit_id === entry.payload.unit_id &&
+            a.step_id === entry.payload.step_id
+            ? { ...a, status: entry.payload.passed ? "PASS" : "FAIL" }
+            : a;
+        case "setStatus":
+          return a.id === entry.assignmentId ? { ...a, status: entry.status } : a;
+        case "patchAssignment":
+          return a.id === entry.assignmentId ? { ...a, ...entry.patch } : a;
+      }
+      return a;
+    })
+  );
+}
+
+/* ---------- replay ---------- */
+
+class OutboxConflict extends Error {}
+
+// A result can only be recorded once per step attempt
+async function checkResultConflict(entry: OutboxEntry & { kind: "createResult" }) {
+  const details = await fetchUnitDetails(entry.payload.unit_id);
+  const a = details.assignments.find((x) => x.step_id === entry.payload.step_id);
+  if (a && a.status !== entry.baseStatus && (a.status === "PASS" || a.status === "FAIL")) {
+    throw new OutboxConflict(`Step was already marked ${a.status} by someone else.`);
+  }
+}
+
+function send(entry: OutboxEntry, force: boolean): Promise<unknown> {
+  const version = force ? undefined : entry.baseVersion;
+  switch (entry.kind) {
+    case "createResult":
+      return createResult(entry.payload);
+    case "setStatus":
+      return setTesterAssignmentStatus(entry.assignmentId, entry.status, version);
+    case "patchAssignment":
+      return updateTesterAssignment(entry.assignmentId, { ...entry.patch, version });
+  }
+}
+
+// Our own write bumped the version: later queued edits build on it
+function rebaseLaterEntries(
+  assignmentId: string,
+  oldVersion: number | undefined,
+  saved: Assignment | null
+) {
+  if (oldVersion == null || saved?.version == null) return;
+  setOutbox(
+    outbox.map((e) =>
+      e.kind !== "createResult" &&
+      e.assignmentId === assignmentId &&
+      e.baseVersion === oldVersion
+        ? { ...e, baseVersion: saved.version }
+        : e
+    )
+  );
+}
+
+let replaying: Promise<void> | null = null;
+
+/**
+ * Send the tester's queued actions in order. Stops at the first network
+ * failure (still offline); conflicts and rejected actions stay in the outbox
+ * for the tester to retry or discard, and later actions carry on.
+ */
+export function replayOutbox(qc: QueryClient, testerId: string): Promise<void> {
+  if (!replaying) {
+    replaying = doReplay(qc, testerId).finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+async function doReplay(qc: QueryClient, testerId: string) {
+  let sent = 0;
+  const tried = new Set<string>();
+
+  // only the signed-in tester's actions are sent with their token; actions
+  // queued while a pass runs are picked up by the next pass
+  for (;;) {
+    const queue = outbox
+      .filter((e) => e.state === "pending" && e.testerId === testerId && !tried.has(e.id))
+      .map((e) => e.id);
+    if (queue.length === 0) break;
+
+    let offline = false;
+    for (const id of queue) {
+      tried.add(id);
+      // re-read: an earlier send may have moved this entry's base version on
+      const entry = outbox.find((e) => e.id === id);
+      if (!entry) continue;
+      try {
+        if (entry.kind === "createResult") await checkResultConflict(entry);
+        const saved = await send(entry, false);
+        discardOutboxEntry(entry.id);
+        if (entry.kind !== "createResult") {
+          rebaseLaterEntries(entry.assignmentId, entry.baseVersion, saved as Assignment | null);
+        }
+        sent += 1;
+      } catch (err) {
+        if (err instanceof ApiError && err.status === 0) {
+          offline = true; // still offline
+          break;
+        }
+        if (err instanceof OutboxConflict) {
+          updateEntry(entry.id, { state: "conflict", error: err.message });
+        } else if (err instanceof ApiError && err.isConflict) {
+          updateEntry(entry.id, {
+            state: "conflict",
+            error: "Changed by someone else while you were offline.",
+          });
+        } else {
+          updateEntry(entry.id, { state: "error", error: getErrorMessage(err) });
+        }
+      }
+    }
+    if (offline) break;
+  }
+
+  if (sent > 0) {
+    qc.invalidateQueries({ queryKey: ["testerAssignments"] });
+    qc.invalidateQueries({ queryKey: ["testerQueue"] });
+    qc.invalidateQueries({ queryKey: ["units"] });
+    qc.invalidateQueries({ queryKey: ["unit"] });
+  }
+}
+
+/** Send one conflicted/failed entry again, overriding the version check. */
+export async function forceOutboxEntry(qc: QueryClient, id: string) {
+  const entry = outbox.find((e) => e.id === id);
+  if (!entry) return;
+  try {
+    await send(entry, true);
+    discardOutboxEntry(id);
+    qc.invalidateQueries({ queryKey: ["testerAssignments"] });
+    qc.invalidateQueries({ queryKey: ["units"] });
+  } catch (err) {
+    updateEntry(id, { state: "error", error: getErrorMessage(err) });
+    throw err;
+  }
+}
@@ -0,0 +1,33 @@
+// src/pages/ForbiddenPage.tsx
+import { Link } from "react-router-dom";
+import { getUser } from "../api";
+
+export default function ForbiddenPage() {
+  const user = getUser();
+
+  return (
+    <div className="page">
+      <section className="card forbidden-card">
+        <div className="forbidden-code">403</div>
+        <h1>Access denied</h1>
+        <p className="text-muted">
+          {user ? (
+            <>
+              Your account (<strong>{user.name}</strong>, role{" "}
+              <strong>{user.role}</strong>) does not have permission to open
+              this page.
+            </>
+          ) : (
+            <>You do not have permission to open this page.</>
+          )}
+        </p>
+        <p className="text-muted">
+          If you think this is a mistake, ask a supervisor to update your role.
+        </p>
+        <Link to="/units" className="btn btn-primary">
+          Back to Units
+        </Link>
+      </section>
+    </div>
+  );
+}
@@ -1,13 +1,27 @@
 // src/pages/LoginPage.tsx
 import { FormEvent, useState } from "react";
-import { useNavigate } from "react-router-dom";
-import { login } from "../api";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { ApiError, getErrorMessage, login } from "../api";
+
+// Only follow in-app paths after login (never an absolute URL)
+function safeNext(next: string | null): string {
+  if (!next || !next.startsWith("/") || next.startsWith("//")) return "/units";
+  if (next.startsWith("/login")) return "/units";
+  return next;
+}
 
 export default function LoginPage() {
   const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const navigate = useNavigate();
+  const qc = useQueryClient();
+
+  const [searchParams] = useSearchParams();
+  const expired = searchParams.get("expired") === "1";
+  const next = safeNext(searchParams.get("next"));
 
   async function handleSubmit(e: FormEvent) {
     e.preventDefault();
@@ -18,13 +32,22 @@ export default function LoginPage() {
       setErrorMsg("Please enter a username.");
       return;
     }
+    if (!password) {
+      setErrorMsg("Please enter your password.");
+      return;
+    }
 
     try {
       setLoading(true);
-      await login(trimmed); // backend decides role based on name
-      navigate("/units");
-    } catch (err: any) {
-      setErrorMsg(err.message || "Login failed");
+      await login(trimmed, password); // backend decides role
+      await qc.invalidateQueries({ queryKey: ["currentUser"] });
+      navigate(next, { replace: true });
+    } catch (err) {
+      setErrorMsg(
+        err instanceof ApiError && err.status === 401
+          ? "Invalid username or password."
+          : getErrorMessage(err, "Login failed")
+      );
     } finally {
       setLoading(false);
     }
@@ -34,6 +57,15 @@ export default function LoginPage() {
     <div>
       <h2>Login</h2>
 
+      {expired && !errorMsg && (
+        <div
+          className="banner banner--error"
+          style={{ maxWidth: 320, marginBottom: "0.5rem" }}
+        >
+          Your session has expired. Please log in again to continue.
+        </div>
+      )}
+
       {errorMsg && (
         <div style={{ color: "red", fontSize: 13, marginBottom: "0.5rem" }}>
           {errorMsg}
@@ -47,12 +79,26 @@ export default function LoginPage() {
           </label>
           <input
             type="text"
+            autoComplete="username"
             value={name}
             onChange={(e) => setName(e.target.value)}
             style={{ width: "100%", padding: "0.25rem 0.4rem" }}
           />
         </div>
 
+        <div style={{ marginBottom: "0.75rem" }}>
+          <label style={{ display: "block", marginBottom: 4 }}>
+            Password
+          </label>
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            style={{ width: "100%", padding: "0.25rem 0.4rem" }}
+          />
+        </div>
+
         <button type="submit" disabled={loading}>
           {loading ? "Logging in…" : "Login"}
         </button>
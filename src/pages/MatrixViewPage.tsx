@@ -1,14 +1,24 @@
 // src/pages/MatrixViewPage.tsx
-import React, { useEffect, useMemo, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { useUnits, useSteps } from "../hooks";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  useUnits,
+  useSteps,
+  useStepsByUnit,
+  useTestPlans,
+  useUnitDetailsMany,
+} from "../hooks";
 import {
-  fetchUnitDetails,
   type UnitSummary,
   type TestStep,
   type UnitDetails,
 } from "../api";
 
+import { attemptsByStep, latestAttempt, passedAfterRetest } from "../results";
+import UnitFilterBar from "../components/UnitFilterBar";
+import { EMPTY_UNIT_FILTERS, matchesUnitFilters } from "../units";
+import type { UnitFilters } from "../units";
+import { planSteps, testPlanLabel } from "../testPlans";
+
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 
@@ -93,6 +103,14 @@ function displayTester(tester?: string | null): string {
   return tester;
 }
 
+// Plan filter value for units that have no test plan
+const PLAN_NONE = "~none";
+
+// Rows are a fixed height so the body can be windowed
+const ROW_H = 58;
+const ROW_H_COMPACT = 50;
+const OVERSCAN_ROWS = 6;
+
 /* ---------- reusable table renderer ---------- */
 function MatrixTable({
   rows,
@@ -110,9 +128,11 @@ function MatrixTable({
         statusKind: CellStatusKind;
         passed?: boolean;
         remark?: string | null;
+        attempts?: number;
+        passedAfterRetest?: boolean;
       }
     >;
-
+    loading?: boolean;
   }[];
   steps: TestStep[];
   compact?: boolean;
@@ -131,8 +151,32 @@ function MatrixTable({
     text: string;
   } | null>(null);
 
+  // 🪟 virtualized body: only rows near the viewport are rendered
+  const rowH = compact ? ROW_H_COMPACT : ROW_H;
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportH, setViewportH] = useState(800);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(() => setViewportH(el.clientHeight));
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  const firstRow = Math.max(0, Math.floor((scrollTop - headerH) / rowH) - OVERSCAN_ROWS);
+  const lastRow = Math.min(
+    rows.length,
+    firstRow + Math.ceil(viewportH / rowH) + OVERSCAN_ROWS * 2
+  );
+  const padTop = firstRow * rowH;
+  const padBottom = (rows.length - lastRow) * rowH;
+
   return (
     <div
+      ref={scrollRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
       style={{
         width: "100%",
         maxWidth: "100vw",
@@ -247,8 +291,13 @@ function MatrixTable({
 
         {/* ================= BODY ================= */}
         <tbody>
-          {rows.map((row) => (
-            <tr key={row.unitId}>
+          {padTop > 0 && (
+            <tr aria-hidden style={{ height: padTop }}>
+              <td colSpan={steps.length + 1} />
+            </tr>
+          )}
+          {rows.slice(firstRow, lastRow).map((row) => (
+            <tr key={row.unitId} style={{ height: rowH }}>
               {/* Sticky Unit column */}
               <td
                 title={row.unitId}
@@ -274,6 +323,26 @@ function MatrixTable({
 
               {steps.map((step) => {
                 const cell = row.cells[step.id];
+                if (!cell) {
+                  return (
+                    <td
+                      key={step.id}
+                      style={{
+                        borderTop: "1px solid #e5e7eb",
+                        padding: compact ? 3 : 5,
+                        verticalAlign: "top",
+                      }}
+                    >
+                      <div
+                        className="matrix-cell--not-in-plan"
+                        title="Not in this unit's test plan"
+                        style={{ minHeight: compact ? 42 : 46 }}
+                      >
+                        —
+                      </div>
+                    </td>
+                  );
+                }
                 const bg = cellBackground(cell.statusKind, cell.passed);
                 const border = cellBorderColor(cell.statusKind, cell.passed);
 
@@ -289,6 +358,7 @@ function MatrixTable({
                   <div
                     style={{
                       position: "relative", // 👈 ADD
+                      opacity: row.loading ? 0.5 : 1,
                       borderRadius: 8,
                       border: `1px solid ${border}`,
                       background: bg,
@@ -369,6 +439,14 @@ function MatrixTable({
                         }}
                       >
                         {cell.statusLabel}
+                        {cell.passedAfterRetest && (
+                          <span
+                            className="matrix-retest-badge"
+                            title={`Passed on attempt ${cell.attempts} after a retest`}
+                          >
+                            ↻{cell.attempts}
+                          </span>
+                        )}
                       </div>
                     </div>
                   </td>
@@ -376,6 +454,11 @@ function MatrixTable({
               })}
             </tr>
           ))}
+          {padBottom > 0 && (
+            <tr aria-hidden style={{ height: padBottom }}>
+              <td colSpan={steps.length + 1} />
+            </tr>
+          )}
         </tbody>
       </table>
       {hoverRemark && (
@@ -410,6 +493,7 @@ function MatrixTable({
 export default function MatrixViewPage() {
   const { data: units, isLoading: unitsLoading, error: unitsError } = useUnits();
   const { data: steps, isLoading: stepsLoading, error: stepsError } = useSteps();
+  const { data: testPlans } = useTestPlans();
 
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [page, setPage] = useState(0);
@@ -417,8 +501,14 @@ export default function MatrixViewPage() {
 
   type SortMode = "unit_asc" | "unit_desc" | "progress_desc" | "progress_asc";
   const [sortMode, setSortMode] = useState<SortMode>("unit_asc");
+  const [filters, setFilters] = useState<UnitFilters>(EMPTY_UNIT_FILTERS);
+  // "" = every plan, PLAN_NONE = units without a plan, else a plan id
+  const [planFilter, setPlanFilter] = useState("");
 
-  const unitIds = useMemo(() => (units ?? []).map((u) => u.unit_id), [units]);
+  const unitsById = useMemo(
+    () => new Map((units ?? []).map((u) => [u.unit_id, u])),
+    [units]
+  );
 
   const unitStatusMap = useMemo(() => {
     const m: Record<string, string> = {};
@@ -428,24 +518,12 @@ export default function MatrixViewPage() {
     return m;
   }, [units]);
 
+  // One cache entry per unit: batched first load, per-unit refresh after
   const {
-    data: detailsList,
-    isLoading: detailsLoading,
+    details: detailsList,
+    loaded: detailsLoaded,
     error: detailsError,
-  } = useQuery({
-    queryKey: ["matrixDetails", unitIds],
-    enabled: unitIds.length > 0,
-    queryFn: async (): Promise<UnitDetails[]> => {
-      // (kept your style: sequential fetch)
-      const list: UnitDetails[] = [];
-      for (const id of unitIds) {
-        const d = await fetchUnitDetails(id);
-        list.push(d);
-      }
-      return list;
-    },
-  });
-
+  } = useUnitDetailsMany(units);
 
   const unitProgressMap = useMemo(() => {
     const m: Record<string, number> = {};
@@ -460,13 +538,17 @@ export default function MatrixViewPage() {
     [steps]
   );
 
+  // Each unit only gets cells for the steps in its own test plan, as of
+  // the version it started on
+  const { data: unitSteps } = useStepsByUnit(units);
+
   const rows = useMemo(() => {
-    if (!units || !detailsList || stepsOrdered.length === 0) return [];
+    if (!units || stepsOrdered.length === 0) return [];
 
     const todayKey = localYYYYMMDD(); // ✅ FIXED (local date)
 
     const detailsByUnit = new Map<string, UnitDetails>();
-    for (const d of detailsList) detailsByUnit.set(d.unit.id, d);
+    for (const d of detailsList) if (d) detailsByUnit.set(d.unit.id, d);
 
     return units.map((u: UnitSummary) => {
       const d = detailsByUnit.get(u.unit_id);
@@ -479,6 +561,9 @@ export default function MatrixViewPage() {
           statusLabel: string;
           statusKind: CellStatusKind;
           passed?: boolean;
+          remark?: string | null;
+          attempts?: number;
+          passedAfterRetest?: boolean;
         }
       > = {};
 
@@ -486,12 +571,13 @@ export default function MatrixViewPage() {
         const assignByStep = new Map<number, UnitDetails["assignments"][number]>();
         for (const a of d.assignments) assignByStep.set(a.step_id, a);
 
-        const resultByStep = new Map<number, UnitDetails["results"][number]>();
-        for (const r of d.results) resultByStep.set(r.step_id, r);
+        // every attempt per step; the latest decides the cell
+        const attemptsForStep = attemptsByStep(d.results);
 
-        for (const step of stepsOrdered) {
+        for (const step of unitSteps.get(u.unit_id) ?? stepsOrdered) {
           const a = (assignByStep.get(step.id) as any) || null;
-          const r = resultByStep.get(step.id) || null;
+          const attempts = attemptsForStep.get(step.id);
+          const r = latestAttempt(attempts)?.result ?? null;
 
           const tester = a?.tester_id ?? null;
           const skipped = !!a?.skipped;
@@ -593,25 +679,29 @@ export default function MatrixViewPage() {
             statusKind,
             passed,
             remark: a?.remark ?? null, // 👈 ADD THIS
+            attempts: attempts?.length ?? 0,
+            passedAfterRetest: passedAfterRetest(attempts),
           };
 
         }
       } else {
-        for (const step of stepsOrdered) {
+        // details still loading: placeholder row, filled in progressively
+        for (const step of unitSteps.get(u.unit_id) ?? stepsOrdered) {
           cells[step.id] = {
             tester: null,
             date: null,
-            statusLabel: "PENDING",
+            statusLabel: "…",
             statusKind: "PENDING",
           };
         }
       }
 
-      return { unitId: u.unit_id, cells };
+      return { unitId: u.unit_id, cells, loading: !d };
     });
-  }, [units, detailsList, stepsOrdered]);
+  }, [units, detailsList, stepsOrdered, unitSteps]);
 
-  const anyLoading = unitsLoading || stepsLoading || detailsLoading;
+  const anyLoading = unitsLoading || stepsLoading;
+  const unitCount = units?.length ?? 0;
 
   const filteredRows = useMemo(() => {
     if (rows.length === 0) return [];
@@ -620,6 +710,9 @@ export default function MatrixViewPage() {
       const status = unitStatusMap[row.unitId];
       if (!status) return true;
       if (hideCompleted && status === "COMPLETED") return false;
+      const unit = unitsById.get(row.unitId);
+      if (unit && !matchesUnitFilters(unit, filters)) return false;
+      if (planFilter && (unit?.test_plan_id || PLAN_NONE) !== planFilter) return false;
       return true;
     });
   
@@ -639,7 +732,40 @@ export default function MatrixViewPage() {
     });
   
     return filtered;
-  }, [rows, unitStatusMap, hideCompleted, sortMode, unitProgressMap]);
+  }, [
+    rows,
+    unitStatusMap,
+    hideCompleted,
+    sortMode,
+    unitProgressMap,
+    unitsById,
+    filters,
+    planFilter,
+  ]);
+
+  // Columns: every step that some listed unit runs (units on older catalog
+  // or plan versions may still run retired steps), in the chosen plan's
+  // order, otherwise in catalog order
+  const columns: TestStep[] = useMemo(() => {
+    const plan = testPlans?.find((p) => p.id === planFilter);
+    const reference = plan ? planSteps(plan, steps ?? []) : stepsOrdered;
+    const rank = new Map(reference.map((s, i) => [s.id, i]));
+
+    const used = new Map<number, TestStep>();
+    for (const row of filteredRows) {
+      for (const s of unitSteps.get(row.unitId) ?? stepsOrdered) {
+        if (!used.has(s.id)) used.set(s.id, s);
+      }
+    }
+    const current = new Map(reference.map((s) => [s.id, s]));
+    return Array.from(used.values())
+      .map((s) => current.get(s.id) ?? s)
+      .sort(
+        (a, b) =>
+          (rank.get(a.id) ?? reference.length + a.order) -
+          (rank.get(b.id) ?? reference.length + b.order)
+      );
+  }, [testPlans, planFilter, steps, filteredRows, unitSteps, stepsOrdered]);
 
 
   const rowsPerPage = 12;
@@ -719,6 +845,24 @@ export default function MatrixViewPage() {
               <option value="progress_desc">Progress (High → Low)</option>
               <option value="progress_asc">Progress (Low → High)</option>
             </select>
+
+            {testPlans && testPlans.length > 0 && (
+              <select
+                value={planFilter}
+                onChange={(e) => setPlanFilter(e.target.value)}
+                className="input"
+                style={{ height: 36, padding: "0 10px" }}
+                title="Show one test plan's units and steps"
+              >
+                <option value="">All test plans</option>
+                {testPlans.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {testPlanLabel(p)}
+                  </option>
+                ))}
+                <option value={PLAN_NONE}>No plan (all steps)</option>
+              </select>
+            )}
         
             <button
               type="button"
@@ -734,9 +878,18 @@ export default function MatrixViewPage() {
           </div>
         )}
 
+        {rows.length > 0 && (
+          <UnitFilterBar units={units ?? []} filters={filters} onChange={setFilters} />
+        )}
+
       </header>
 
       {anyLoading && <div style={{ padding: 12 }}>Loading matrix…</div>}
+      {!anyLoading && detailsLoaded < unitCount && (
+        <div className="text-muted" style={{ padding: "6px 12px", fontSize: 12 }}>
+          Loading unit details… {detailsLoaded}/{unitCount}
+        </div>
+      )}
 
       {unitsError && (
         <div className="banner banner--error" style={{ margin: 12 }}>
@@ -763,7 +916,7 @@ export default function MatrixViewPage() {
       )}
 
       {/* ✅ NORMAL VIEW TABLE (added back) */}
-      {!anyLoading && hasAnyRows && stepsOrdered.length > 0 && (
+      {!anyLoading && hasAnyRows && columns.length > 0 && (
         <div
           style={{
             flex: 1,
@@ -775,12 +928,12 @@ export default function MatrixViewPage() {
             boxSizing: "border-box",
           }}
         >
-          <MatrixTable rows={filteredRows} steps={stepsOrdered} />
+          <MatrixTable rows={filteredRows} steps={columns} />
         </div>
       )}
 
       {/* ---------- fullscreen overlay ---------- */}
-      {isFullscreen && hasAnyRows && stepsOrdered.length > 0 && (
+      {isFullscreen && hasAnyRows && columns.length > 0 && (
         <div
           style={{
             position: "fixed",
@@ -833,7 +986,7 @@ export default function MatrixViewPage() {
             }}
           >
             <div style={{ flex: 1, overflow: "hidden" }}>
-              <MatrixTable rows={visibleRows} steps={stepsOrdered} compact />
+              <MatrixTable rows={visibleRows} steps={columns} compact />
             </div>
           </div>
         </div>
@@ -0,0 +1,224 @@
+// src/pages/NotificationsPage.tsx
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { getUser } from "../api";
+import type { Notification } from "../api";
+import { formatSingaporeDateTime, parseBackendTimestamp, toDateKey } from "../dates";
+import {
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+  useSteps,
+  useTesterNotifications,
+} from "../hooks";
+
+type ReadFilter = "all" | "unread" | "read";
+
+export default function NotificationsPage() {
+  const user = getUser();
+  const testerId = user?.name ?? "";
+
+  const { data: notifications, isLoading, error } =
+    useTesterNotifications(testerId || null);
+  const { data: steps } = useSteps();
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const [readFilter, setReadFilter] = useState<ReadFilter>("all");
+  const [unitFilter, setUnitFilter] = useState("");
+  const [stepFilter, setStepFilter] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  const stepNames = useMemo(() => {
+    const m = new Map<number, string>();
+    steps?.forEach((s) => m.set(s.id, s.name));
+    return m;
+  }, [steps]);
+
+  const sortedSteps = useMemo(
+    () => (steps ?? []).slice().sort((a, b) => a.order - b.order),
+    [steps]
+  );
+
+  const visible: Notification[] = useMemo(() => {
+    const unitQ = unitFilter.trim().toLowerCase();
+    const stepQ = stepFilter ? Number(stepFilter) : null;
+
+    return (notifications ?? [])
+      .filter((n) => {
+        if (readFilter === "unread" && n.read) return false;
+        if (readFilter === "read" && !n.read) return false;
+        if (unitQ && !n.unit_id.toLowerCase().includes(unitQ)) return false;
+        if (stepQ !== null && n.from_step_id !== stepQ && n.to_step_id !== stepQ)
+          return false;
+
+        // Local calendar day, to match the date inputs
+        const created = parseBackendTimestamp(n.created_at);
+        const day = created ? toDateKey(created) : "";
+        if (fromDate && day < fromDate) return false;
+        if (toDate && day > toDate) return false;
+        return true;
+      })
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }, [notifications, readFilter, unitFilter, stepFilter, fromDate, toDate]);
+
+  const unreadVisible = visible.filter((n) => !n.read);
+
+  if (!testerId) {
+    return (
+      <div className="page">
+        <p className="text-error">
+          No tester name found. Please log out and log in again as a tester.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="page">
+      <header className="page-header">
+        <div className="page-header__title-group">
+          <h1>Notifications</h1>
+          <p>
+            Step hand-offs for units assigned to <strong>{testerId}</strong>.
+          </p>
+        </div>
+
+        <button
+          type="button"
+          className="btn btn-secondary"
+          disabled={unreadVisible.length === 0 || markAllRead.isPending}
+          onClick={() => markAllRead.mutate(unreadVisible.map((n) => n.id))}
+        >
+          Mark all read ({unreadVisible.length})
+        </button>
+      </header>
+
+      <section className="card">
+        <div className="units-toolbar">
+          <div className="units-toolbar-group">
+            <label className="form-label">Status</label>
+            <select
+              className="form-control"
+              value={readFilter}
+              onChange={(e) => setReadFilter(e.target.value as ReadFilter)}
+            >
+              <option value="all">All</option>
+              <option value="unread">Unread</option>
+              <option value="read">Read</option>
+            </select>
+          </div>
+
+          <div className="units-toolbar-group">
+            <label className="form-label">Unit</label>
+            <input
+              className="form-control"
+              placeholder="Search unit ID"
+              value={unitFilter}
+              onChange={(e) => setUnitFilter(e.target.value)}
+            />
+          </div>
+
+          <div className="units-toolbar-group">
+            <label className="form-label">Step</label>
+            <select
+              className="form-control"
+              value={stepFilter}
+              onChange={(e) => setStepFilter(e.target.value)}
+            >
+              <option value="">All steps</option>
+              {sortedSteps.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.order}. {s.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="units-toolbar-group">
+            <label className="form-label">From</label>
+            <input
+              type="date"
+              className="form-control"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+            />
+          </div>
+
+          <div className="units-toolbar-group">
+            <label className="form-label">To</label>
+            <input
+              type="date"
+              className="form-control"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+            />
+          </div>
+        </div>
+      </section>
+
+      <section className="card queue-card">
+        {isLoading && <p className="text-muted">Loading notifications…</p>}
+        {error && (
+          <p className="text-error">
+            Error loading notifications: {(error as Error).message}
+          </p>
+        )}
+
+        {!isLoading && !error && visible.length === 0 && (
+          <p className="text-muted">No notifications match these filters.</p>
+        )}
+
+        {visible.length > 0 && (
+          <div className="queue-table-wrapper">
+            <table className="queue-table">
+              <thead>
+                <tr>
+                  <th align="left">Received</th>
+                  <th align="left">Unit</th>
+                  <th align="left">Hand-off</th>
+                  <th align="left">Message</th>
+                  <th align="left">Status</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((n) => (
+                  <tr
+                    key={n.id}
+                    className={n.read ? "" : "notif-row--unread"}
+                  >
+                    <td>{formatSingaporeDateTime(n.created_at)}</td>
+                    <td>
+                      <Link to={`/units/${encodeURIComponent(n.unit_id)}`}>
+                        {n.unit_id}
+                      </Link>
+                    </td>
+                    <td>
+                      {stepNames.get(n.from_step_id) ?? `Step ${n.from_step_id}`}{" "}
+                      → {stepNames.get(n.to_step_id) ?? `Step ${n.to_step_id}`}
+                    </td>
+                    <td>{n.message || "-"}</td>
+                    <td>{n.read ? "Read" : "Unread"}</td>
+                    <td>
+                      {!n.read && (
+                        <button
+                          type="button"
+                          className="btn btn-outline btn-xs"
+                          disabled={markRead.isPending}
+                          onClick={() => markRead.mutate(n.id)}
+                        >
+                          Mark read
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,15 +1,42 @@
 // src/pages/SchedulerPage.tsx
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useMemo, useState } from "react";
 import {
   useAssignmentsSchedule,
   useSteps,
   useTesters,
-  useUpdateAssignment,
+  useBulkUpdateAssignments,
   useTesterGroups,
+  useStepsByUnit,
+  useUnits,
 } from "../hooks";
-import type { Assignment, TestStep } from "../api";
-import { API_BASE_URL, getToken } from "../api";
+import type {
+  Assignment,
+  BulkAssignmentResult,
+  BulkAssignmentUpdate,
+  TestStep,
+} from "../api";
+import {
+  ApiError,
+  duplicateSchedule as apiDuplicateSchedule,
+  getErrorMessage,
+} from "../api";
 import { usePrompt } from "../components/PromptProvider";
+import SchedulerGantt from "../components/SchedulerGantt";
+import type { GanttBar, GanttLaneMode } from "../components/SchedulerGantt";
+import { isoDateFromBackend } from "../dates";
+import {
+  conflictsByAssignment,
+  detectConflicts,
+  loadSchedulingConfig,
+  saveSchedulingConfig,
+} from "../scheduling";
+import type {
+  PlanChange,
+  PlannedRow,
+  ScheduleConflict,
+  SchedulingConfig,
+} from "../scheduling";
+import AutoPlanModal from "../components/AutoPlanModal";
 
 /* =========================================================
    Types
@@ -20,6 +47,146 @@ interface RowState {
   end_date: string;
   status: string;
   dirty?: boolean;
+  version?: number; // server version the edit is based on
+}
+
+type ViewMode = "table" | "timeline";
+
+// Server state of each row as it was right before the last successful save
+interface SaveSnapshot {
+  rows: Record<string, RowState>;
+  savedAt: Date;
+}
+
+function rowToUpdate(id: string, row: RowState): BulkAssignmentUpdate {
+  return {
+    id,
+    tester_id: row.tester_id || null,
+    status: row.status,
+    start_at: row.start_date ? row.start_date + "T00:00:00" : null,
+    end_at: row.end_date ? row.end_date + "T00:00:00" : null,
+    version: row.version,
+  };
+}
+
+// A row the server rejected because someone else saved it first
+interface EditConflict {
+  id: string;
+  label: string;
+  yours: RowState;
+  theirs: RowState;
+}
+
+const CONFLICT_FIELDS: { key: keyof RowState; label: string }[] = [
+  { key: "tester_id", label: "Tester" },
+  { key: "start_date", label: "Start" },
+  { key: "end_date", label: "End" },
+  { key: "status", label: "Status" },
+];
+
+/* =========================================================
+   Yours vs theirs dialog
+   ========================================================= */
+function EditConflictModal({
+  conflicts,
+  onResolve,
+  onClose,
+}: {
+  conflicts: EditConflict[];
+  onResolve: (choices: Record<string, "mine" | "theirs">) => void;
+  onClose: () => void;
+}) {
+  const [choices, setChoices] = useState<Record<string, "mine" | "theirs">>(
+    () => Object.fromEntries(conflicts.map((c) => [c.id, "theirs"]))
+  );
+
+  const setAll = (choice: "mine" | "theirs") =>
+    setChoices(Object.fromEntries(conflicts.map((c) => [c.id, choice])));
+
+  return (
+    <div className="prompt-backdrop">
+      <div className="prompt-modal edit-conflict-modal">
+        <div className="prompt-title">Someone else changed these rows</div>
+        <div className="prompt-message">
+          {conflicts.length} row{conflicts.length !== 1 ? "s were" : " was"} saved
+          by another user after you started editing. Choose which version to keep.
+        </div>
+
+        <div style={{ display: "flex", gap: 8, margin: "8px 0" }}>
+          <button type="button" className="btn btn-outline btn-xs" onClick={() => setAll("mine")}>
+            Keep all mine
+          </button>
+          <button type="button" className="btn btn-outline btn-xs" onClick={() => setAll("theirs")}>
+            Take all theirs
+          </button>
+        </div>
+
+        {conflicts.map((c) => (
+          <div key={c.id} className="edit-conflict">
+            <div className="edit-conflict__title">{c.label}</div>
+            <table className="queue-table edit-conflict__table">
+              <thead>
+                <tr>
+                  <th />
+                  <th align="left">
+                    <label className="autoplan-check">
+                      <input
+                        type="radio"
+                        name={`conflict-${c.id}`}
+                        checked={choices[c.id] === "mine"}
+                        onChange={() => setChoices((p) => ({ ...p, [c.id]: "mine" }))}
+                      />
+                      Yours
+                    </label>
+                  </th>
+                  <th align="left">
+                    <label className="autoplan-check">
+                      <input
+                        type="radio"
+                        name={`conflict-${c.id}`}
+                        checked={choices[c.id] === "theirs"}
+                        onChange={() => setChoices((p) => ({ ...p, [c.id]: "theirs" }))}
+                      />
+                      Theirs
+                    </label>
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {CONFLICT_FIELDS.map(({ key, label }) => {
+                  const mine = String(c.yours[key] ?? "") || "—";
+                  const theirs = String(c.theirs[key] ?? "") || "—";
+                  return (
+                    <tr
+                      key={key}
+                      className={mine !== theirs ? "edit-conflict__diff" : ""}
+                    >
+                      <td>{label}</td>
+                      <td>{mine}</td>
+                      <td>{theirs}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ))}
+
+        <div className="prompt-actions">
+          <button type="button" className="btn btn-outline" onClick={onClose}>
+            Decide later
+          </button>
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={() => onResolve(choices)}
+          >
+            Apply choices
+          </button>
+        </div>
+      </div>
+    </div>
+  );
 }
 
 type DuplicateModalProps = {
@@ -36,32 +203,6 @@ type DuplicateModalProps = {
   ) => Promise<void>;
 };
 
-/* =========================================================
-   Helpers
-   ========================================================= */
-function isoDateFromBackend(value?: string | null): string {
-  if (!value) return "";
-  return value.slice(0, 10);
-}
-
-function todayKey(): string {
-  const d = new Date();
-  const y = d.getFullYear();
-  const m = String(d.getMonth() + 1).padStart(2, "0");
-  const day = String(d.getDate()).padStart(2, "0");
-  return `${y}-${m}-${day}`;
-}
-
-function addDays(dateStr: string, days: number): string {
-  const [y, m, d] = dateStr.split("-").map((x) => parseInt(x, 10));
-  const dt = new Date(y, m - 1, d);
-  dt.setDate(dt.getDate() + days);
-  const yy = dt.getFullYear();
-  const mm = String(dt.getMonth() + 1).padStart(2, "0");
-  const dd = String(dt.getDate()).padStart(2, "0");
-  return `${yy}-${mm}-${dd}`;
-}
-
 /* =========================================================
    Duplicate Modal (kept outside page)
    ========================================================= */
@@ -138,11 +279,8 @@ function DuplicateModal({
                   "Success"
                 );
                 onClose();
-              } catch (err: any) {
-                await prompt.alert(
-                  err?.message || String(err),
-                  "Duplicate Failed"
-                );
+              } catch (err) {
+                await prompt.alert(getErrorMessage(err), "Duplicate Failed");
               }
             }}
           >
@@ -158,60 +296,193 @@ function DuplicateModal({
   );
 }
 
+/* =========================================================
+   Conflict summary panel
+   ========================================================= */
+const CONFLICT_KIND_LABEL: Record<ScheduleConflict["kind"], string> = {
+  tester_overload: "Tester over-allocated",
+  predecessor: "Before prerequisite ends",
+  unit_overlap: "Overlapping steps",
+  weekend: "Weekend",
+};
+
+function ConflictSummary({
+  conflicts,
+  capacity,
+  onCapacityChange,
+  onOpenUnit,
+}: {
+  conflicts: ScheduleConflict[];
+  capacity: number;
+  onCapacityChange: (n: number) => void;
+  onOpenUnit: (unitId: string) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+
+  const sorted = conflicts
+    .slice()
+    .sort((a, b) =>
+      a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1
+    );
+  const errors = conflicts.filter((c) => c.severity === "error").length;
+  const warnings = conflicts.length - errors;
+  const shown = expanded ? sorted : sorted.slice(0, 5);
+
+  return (
+    <section className="card scheduler-conflicts">
+      <div className="scheduler-conflicts__header">
+        <div>
+          <div className="card__title">Schedule checks</div>
+          <div className="card__subtitle">
+            {conflicts.length === 0
+              ? "No conflicts found."
+              : `${errors} conflict${errors !== 1 ? "s" : ""}, ${warnings} warning${
+                  warnings !== 1 ? "s" : ""
+                }`}
+          </div>
+        </div>
+
+        <label className="form-label scheduler-conflicts__capacity">
+          Steps per tester / day
+          <input
+            type="number"
+            min={1}
+            className="scheduler-field"
+            value={capacity}
+            onChange={(e) =>
+              onCapacityChange(Math.max(1, parseInt(e.target.value || "1", 10)))
+            }
+          />
+        </label>
+      </div>
+
+      {shown.length > 0 && (
+        <ul className="scheduler-conflicts__list">
+          {shown.map((c, i) => (
+            <li
+              key={i}
+              className={"scheduler-row-warning--" + c.severity}
+            >
+              <strong>{CONFLICT_KIND_LABEL[c.kind]}:</strong> {c.message}{" "}
+              {c.unitIds.map((u) => (
+                <button
+                  key={u}
+                  type="button"
+                  className="btn btn-ghost btn-xs"
+                  onClick={() => onOpenUnit(u)}
+                >
+                  Open {u}
+                </button>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {sorted.length > 5 && (
+        <button
+          type="button"
+          className="btn btn-outline btn-xs"
+          onClick={() => setExpanded((v) => !v)}
+        >
+          {expanded ? "Show less" : `Show all ${sorted.length}`}
+        </button>
+      )}
+    </section>
+  );
+}
+
 /* =========================================================
    Main Page
    ========================================================= */
 export default function SchedulerPage() {
   const { data: assignments, isLoading, error } = useAssignmentsSchedule();
   const { data: steps } = useSteps();
+  const { data: unitSummaries } = useUnits();
   const { data: testers } = useTesters();
   const { data: testerGroups } = useTesterGroups();
-  const updateAssignment = useUpdateAssignment();
+  const bulkUpdate = useBulkUpdateAssignments();
   const prompt = usePrompt();
 
   const [editState, setEditState] = useState<Record<string, RowState>>({});
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  // Per-row errors from the last save, shown inline until the row saves
+  const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
+  const [lastSave, setLastSave] = useState<SaveSnapshot | null>(null);
+  const [editConflicts, setEditConflicts] = useState<EditConflict[]>([]);
 
   const [showDuplicateModal, setShowDuplicateModal] = useState(false);
   const [duplicateUnitIdsText, setDuplicateUnitIdsText] = useState("");
   const [duplicateShiftDays, setDuplicateShiftDays] = useState(1);
 
   const [openUnitId, setOpenUnitId] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>("table");
+  const [laneMode, setLaneMode] = useState<GanttLaneMode>("unit");
+  const [schedulingConfig, setSchedulingConfig] = useState<SchedulingConfig>(
+    loadSchedulingConfig
+  );
+  // Units preselected in the auto-plan dialog; null when it is closed
+  const [autoPlanUnits, setAutoPlanUnits] = useState<string[] | null>(null);
 
-  useEffect(() => {
-    setEditState({});
-  }, [assignments]);
+  // Each unit's steps as of the catalog and test plan versions it started
+  // on, numbered in plan order
+  const { data: unitPlanSteps } = useStepsByUnit(unitSummaries);
 
+  // Current catalog, plus steps only older versions still have
   const stepsById = useMemo(() => {
     const m = new Map<number, TestStep>();
     steps?.forEach((s) => m.set(s.id, s));
+    unitPlanSteps.forEach((list) =>
+      list.forEach((s) => {
+        if (!m.has(s.id)) m.set(s.id, s);
+      })
+    );
+    return m;
+  }, [steps, unitPlanSteps]);
+  const planStepsByUnit = useMemo(() => {
+    const m = new Map<string, Map<number, TestStep>>();
+    unitPlanSteps.forEach((list, unitId) => m.set(unitId, new Map(list.map((s) => [s.id, s]))));
     return m;
-  }, [steps]);
+  }, [unitPlanSteps]);
+
+  // Steps outside a unit's test plan are not scheduled or shown
+  const planAssignments = useMemo(
+    () =>
+      (assignments ?? []).filter((a) => {
+        const plan = planStepsByUnit.get(a.unit_id);
+        return !plan || plan.has(a.step_id);
+      }),
+    [assignments, planStepsByUnit]
+  );
+
+  function stepOf(unitId: string, stepId: number): TestStep | undefined {
+    return planStepsByUnit.get(unitId)?.get(stepId) ?? stepsById.get(stepId);
+  }
 
   const units = useMemo(() => {
     if (!assignments) return [] as { unit_id: string; rows: Assignment[] }[];
 
+    const orderOf = (a: Assignment) =>
+      (planStepsByUnit.get(a.unit_id)?.get(a.step_id) ?? stepsById.get(a.step_id))?.order ??
+      a.step_id;
+
     const map = new Map<string, Assignment[]>();
-    assignments.forEach((a) => {
+    planAssignments.forEach((a) => {
       if (!map.has(a.unit_id)) map.set(a.unit_id, []);
       map.get(a.unit_id)!.push(a);
     });
 
     const list: { unit_id: string; rows: Assignment[] }[] = [];
     for (const [unit_id, arr] of map.entries()) {
-      arr.sort((a, b) => {
-        const oa = stepsById.get(a.step_id)?.order ?? a.step_id;
-        const ob = stepsById.get(b.step_id)?.order ?? b.step_id;
-        return oa - ob;
-      });
+      arr.sort((a, b) => orderOf(a) - orderOf(b));
       list.push({ unit_id, rows: arr });
     }
 
     list.sort((a, b) => a.unit_id.localeCompare(b.unit_id));
     return list;
-  }, [assignments, stepsById]);
+  }, [assignments, planAssignments, planStepsByUnit, stepsById]);
 
   const testerOptions = useMemo(
     () => [
@@ -231,6 +502,55 @@ export default function SchedulerPage() {
     [testerGroups, testers]
   );
 
+  // Live cross-check of the schedule, including unsaved edits
+  const plannedRows: PlannedRow[] = planAssignments.map((a) => {
+    const row = getRowState(a);
+    return {
+      id: a.id,
+      unit_id: a.unit_id,
+      step_id: a.step_id,
+      step_order: planStepsByUnit.get(a.unit_id)?.get(a.step_id)?.order,
+      prerequisites: planStepsByUnit.get(a.unit_id)?.get(a.step_id)?.prerequisites ?? undefined,
+      tester_id: row.tester_id,
+      start_date: row.start_date,
+      end_date: row.end_date,
+      status: row.status,
+      skipped: a.skipped,
+    };
+  });
+  const conflicts = detectConflicts(
+    plannedRows,
+    stepsById,
+    schedulingConfig.testerCapacity
+  );
+  const conflictMap = conflictsByAssignment(conflicts);
+  const errorCount = conflicts.filter((c) => c.severity === "error").length;
+
+  const ganttBars: GanttBar[] = units.flatMap(({ unit_id, rows }) =>
+    rows.map((a) => {
+      const step = stepOf(unit_id, a.step_id);
+      const row = getRowState(a);
+      const stepLabel = step ? `${step.order}. ${step.name}` : `Step ${a.step_id}`;
+      const tester = row.tester_id || "";
+      const testerLabel = tester.startsWith("group:")
+        ? `${tester.slice("group:".length)} (group)`
+        : tester || "(unassigned)";
+
+      return {
+        assignment: a,
+        laneKey: laneMode === "unit" ? unit_id : tester || "~unassigned",
+        laneLabel: laneMode === "unit" ? `Unit ${unit_id}` : testerLabel,
+        label: laneMode === "unit" ? stepLabel : `${unit_id} · ${step?.name ?? a.step_id}`,
+        title: `${unit_id} – ${stepLabel}\nTester: ${testerLabel}`,
+        start: row.start_date,
+        end: row.end_date || row.start_date,
+        status: row.status,
+        dirty: row.dirty,
+        warning: conflictMap.get(a.id)?.map((c) => c.message).join("\n") ?? null,
+      };
+    })
+  );
+
   function buildBaseRow(a: Assignment): RowState {
     return {
       tester_id: a.tester_id ?? "",
@@ -238,6 +558,7 @@ export default function SchedulerPage() {
       start_date: isoDateFromBackend(a.start_at),
       end_date: isoDateFromBackend(a.end_at),
       dirty: false,
+      version: a.version,
     };
   }
 
@@ -270,48 +591,44 @@ export default function SchedulerPage() {
   }
 
 
-  function handleSuggest(unitId: string, stepId: number) {
-    if (!assignments || !steps) return;
-
-    const unitAssignments = assignments
-      .filter((a) => a.unit_id === unitId)
-      .sort((a, b) => {
-        const oa = stepsById.get(a.step_id)?.order ?? a.step_id;
-        const ob = stepsById.get(b.step_id)?.order ?? b.step_id;
-        return oa - ob;
-      });
-
-    const idx = unitAssignments.findIndex((a) => a.step_id === stepId);
-    if (idx === -1) return;
-
-    const current = unitAssignments[idx];
-    let suggestedStart: string;
+  // Timeline drag/resize writes both dates as one dirty edit
+  function handleDatesChange(a: Assignment, start: string, end: string) {
+    setEditState((prev) => {
+      const current = prev[a.id] ?? buildBaseRow(a);
+      return {
+        ...prev,
+        [a.id]: { ...current, start_date: start, end_date: end, dirty: true },
+      };
+    });
+  }
 
-    if (idx === 0) {
-      const row = getRowState(current);
-      suggestedStart = row.start_date || todayKey();
-    } else {
-      const prevAssignment = unitAssignments[idx - 1];
-      const prevRow = getRowState(prevAssignment);
-      const prevEnd = prevRow.end_date || prevRow.start_date || todayKey();
-      suggestedStart = addDays(prevEnd, 1);
-    }
+  function updateSchedulingConfig(config: SchedulingConfig) {
+    setSchedulingConfig(config);
+    saveSchedulingConfig(config);
+  }
 
-    const step = stepsById.get(stepId);
-    const isBurnIn = step?.name === "Burn-in Test";
-    const durationDays = isBurnIn ? 8 : 1;
-    const suggestedEnd = addDays(suggestedStart, durationDays - 1);
-
-    const base = getRowState(current);
-    setEditState((prev) => ({
-      ...prev,
-      [current.id]: {
-        ...base,
-        start_date: suggestedStart,
-        end_date: suggestedEnd,
-        dirty: true,
-      },
-    }));
+  // Auto-plan results land in editState like any manual edit
+  function handleApplyPlan(changes: PlanChange[]) {
+    const byId = new Map((assignments ?? []).map((a) => [a.id, a]));
+    setEditState((prev) => {
+      const next = { ...prev };
+      for (const c of changes) {
+        const a = byId.get(c.id);
+        if (!a) continue;
+        const current = next[a.id] ?? buildBaseRow(a);
+        next[a.id] = {
+          ...current,
+          start_date: c.after.start_date,
+          end_date: c.after.end_date,
+          dirty: true,
+        };
+      }
+      return next;
+    });
+    setAutoPlanUnits(null);
+    setMessage(
+      `Planned ${changes.length} step${changes.length !== 1 ? "s" : ""}. Review and click Save changes.`
+    );
   }
 
   /* ✅ Duplicate schedule */
@@ -320,23 +637,11 @@ export default function SchedulerPage() {
     newUnits: string[],
     shift: number
   ) {
-    const token = getToken();
-
-    const res = await fetch(`${API_BASE_URL}/schedule/duplicate`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      },
-      body: JSON.stringify({
-        source_unit_id: sourceUnit,
-        new_unit_ids: newUnits,
-        day_shift: shift,
-      }),
+    await apiDuplicateSchedule({
+      source_unit_id: sourceUnit,
+      new_unit_ids: newUnits,
+      day_shift: shift,
     });
-
-    if (!res.ok) throw new Error(await res.text());
-    await res.json();
   }
 
   async function handleSaveAll() {
@@ -354,40 +659,164 @@ export default function SchedulerPage() {
       return;
     }
 
-    try {
-      setSaving(true);
-
-      for (const [assignmentId, row] of dirtyEntries) {
-        const payload: {
-          tester_id?: string | null;
-          status?: string;
-          start_at?: string | null;
-          end_at?: string | null;
-        } = {
-          tester_id: row.tester_id || null,
-          status: row.status,
-          start_at: row.start_date ? row.start_date + "T00:00:00" : null,
-          end_at: row.end_date ? row.end_date + "T00:00:00" : null,
-        };
+    if (errorCount > 0) {
+      const ok = await prompt.confirm(
+        `The schedule has ${errorCount} conflict${
+          errorCount !== 1 ? "s" : ""
+        } (see Schedule checks). Save anyway?`,
+        "Schedule Conflicts",
+        { confirmText: "Save anyway", cancelText: "Review" }
+      );
+      if (!ok) return;
+    }
 
-        await updateAssignment.mutateAsync({ id: assignmentId, data: payload });
+    // Pre-save server state, for "Undo last save"
+    const byId = new Map(assignments.map((a) => [a.id, a]));
+    const before: Record<string, RowState> = {};
+    for (const [id] of dirtyEntries) {
+      const a = byId.get(id);
+      if (a) before[id] = buildBaseRow(a);
+    }
+
+    const saved = await saveRows(Object.fromEntries(dirtyEntries));
+    if (saved.length > 0) {
+      setLastSave({
+        // undo writes on top of the version this save produced
+        rows: Object.fromEntries(
+          saved.map((r) => [r.id, { ...before[r.id], version: r.assignment?.version }])
+        ),
+        savedAt: new Date(),
+      });
+    }
+  }
+
+  /**
+   * Send rows in one bulk request and reconcile per row: saved rows leave
+   * editState, failed rows stay dirty with their error shown inline, and
+   * stale writes open the yours-vs-theirs dialog. Returns the saved results.
+   */
+  async function saveRows(
+    rows: Record<string, RowState>
+  ): Promise<BulkAssignmentResult[]> {
+    const updates = Object.entries(rows).map(([id, row]) => rowToUpdate(id, row));
+
+    setSaving(true);
+    try {
+      let results: BulkAssignmentResult[];
+      try {
+        results = await bulkUpdate.mutateAsync(updates);
+      } catch (err) {
+        // the whole request failed: nothing was saved
+        const msg = getErrorMessage(err);
+        const status = err instanceof ApiError ? err.status : undefined;
+        results = updates.map((u) => ({ id: u.id, ok: false, status, error: msg }));
       }
 
-      setMessage("Changes saved.");
+      const saved = results.filter((r) => r.ok);
+      const failed = results.filter((r) => !r.ok);
+      const savedIds = new Set(saved.map((r) => r.id));
+
       setEditState((prev) => {
-        const next: typeof prev = {};
-        for (const [id, row] of Object.entries(prev)) {
-          next[id] = { ...row, dirty: false };
-        }
+        const next = { ...prev };
+        for (const id of savedIds) delete next[id];
         return next;
       });
-    } catch (err: any) {
-      setErrorMsg(err?.message || String(err));
+      setRowErrors((prev) => {
+        const next = { ...prev };
+        for (const id of savedIds) delete next[id];
+        for (const r of failed) next[r.id] = r.error || "Save failed.";
+        return next;
+      });
+
+      const byId = new Map((assignments ?? []).map((a) => [a.id, a]));
+      const stale: EditConflict[] = [];
+      for (const r of failed) {
+        if (r.status !== 409 && r.status !== 412) continue;
+        const theirs = r.current ?? byId.get(r.id);
+        if (!theirs) continue;
+        const step = stepOf(theirs.unit_id, theirs.step_id);
+        stale.push({
+          id: r.id,
+          label: `${theirs.unit_id} – ${step ? step.name : `Step ${theirs.step_id}`}`,
+          yours: rows[r.id],
+          theirs: buildBaseRow(theirs),
+        });
+      }
+      if (stale.length > 0) setEditConflicts(stale);
+
+      if (failed.length === 0) {
+        setMessage(`Saved ${saved.length} row${saved.length !== 1 ? "s" : ""}.`);
+      } else {
+        if (saved.length > 0) {
+          setMessage(`Saved ${saved.length} of ${results.length} rows.`);
+        }
+        setErrorMsg(
+          `${failed.length} row${failed.length !== 1 ? "s" : ""} failed to save ` +
+            "and are still marked as changed. Fix them and click Save changes to retry."
+        );
+      }
+      return saved;
     } finally {
       setSaving(false);
     }
   }
 
+  async function handleResolveConflicts(choices: Record<string, "mine" | "theirs">) {
+    const conflicts = editConflicts;
+    setEditConflicts([]);
+
+    const theirs = conflicts.filter((c) => choices[c.id] === "theirs");
+    const mine = conflicts.filter((c) => choices[c.id] === "mine");
+
+    // Taking theirs just drops the local edit; the polled row shows through
+    setEditState((prev) => {
+      const next = { ...prev };
+      for (const c of theirs) delete next[c.id];
+      for (const c of mine) {
+        next[c.id] = { ...c.yours, version: c.theirs.version, dirty: true };
+      }
+      return next;
+    });
+    setRowErrors((prev) => {
+      const next = { ...prev };
+      for (const c of theirs) delete next[c.id];
+      return next;
+    });
+
+    if (mine.length > 0) {
+      setMessage(null);
+      setErrorMsg(null);
+      await saveRows(
+        Object.fromEntries(
+          mine.map((c) => [c.id, { ...c.yours, version: c.theirs.version }])
+        )
+      );
+    }
+  }
+
+  async function handleUndoLastSave() {
+    if (!lastSave) return;
+
+    const count = Object.keys(lastSave.rows).length;
+    const ok = await prompt.confirm(
+      `Restore ${count} row${count !== 1 ? "s" : ""} to how they were before the save at ${lastSave.savedAt.toLocaleTimeString()}?`,
+      "Undo Last Save",
+      { confirmText: "Undo save" }
+    );
+    if (!ok) return;
+
+    setMessage(null);
+    setErrorMsg(null);
+
+    const restored = await saveRows(lastSave.rows);
+
+    const remaining = { ...lastSave.rows };
+    for (const r of restored) delete remaining[r.id];
+    setLastSave(
+      Object.keys(remaining).length > 0 ? { ...lastSave, rows: remaining } : null
+    );
+  }
+
   if (isLoading) return <div>Loading schedule…</div>;
   if (error)
     return (
@@ -405,8 +834,8 @@ export default function SchedulerPage() {
           <h1>Scheduler</h1>
           <p>
             Plan test dates and assign testers. Click a unit block to expand its
-            steps. <strong>Suggest</strong> auto-fills dates based on previous
-            steps (Burn-in Test blocks 8 days).
+            steps. <strong>Auto-plan</strong> fills dates from step durations,
+            the working calendar and tester availability.
           </p>
         </div>
 
@@ -418,6 +847,27 @@ export default function SchedulerPage() {
           {saving ? "Saving…" : "Save changes"}
         </button>
 
+        {lastSave && (
+          <button
+            className="btn btn-outline btn-pill"
+            style={{ marginLeft: 12 }}
+            onClick={handleUndoLastSave}
+            disabled={saving}
+            title={`Saved at ${lastSave.savedAt.toLocaleTimeString()}`}
+          >
+            Undo last save
+          </button>
+        )}
+
+        <button
+          className="btn btn-secondary btn-pill"
+          style={{ marginLeft: 12 }}
+          disabled={units.length === 0}
+          onClick={() => setAutoPlanUnits(units.map((u) => u.unit_id))}
+        >
+          Auto-plan…
+        </button>
+
         <button
           className="btn btn-secondary btn-pill"
           style={{ marginLeft: 12 }}
@@ -452,6 +902,62 @@ export default function SchedulerPage() {
         />
       )}
 
+      {editConflicts.length > 0 && (
+        <EditConflictModal
+          conflicts={editConflicts}
+          onResolve={handleResolveConflicts}
+          onClose={() => setEditConflicts([])}
+        />
+      )}
+
+      {autoPlanUnits && (
+        <AutoPlanModal
+          unitIds={units.map((u) => u.unit_id)}
+          initialSelection={autoPlanUnits}
+          rows={plannedRows}
+          steps={steps ?? []}
+          unitSteps={planStepsByUnit}
+          testers={testers ?? []}
+          config={schedulingConfig}
+          onConfigChange={updateSchedulingConfig}
+          onApply={handleApplyPlan}
+          onClose={() => setAutoPlanUnits(null)}
+        />
+      )}
+
+      <div className="scheduler-view-toolbar">
+        <div className="scheduler-view-toggle">
+          <button
+            type="button"
+            className={"btn btn-xs " + (viewMode === "table" ? "btn-primary" : "btn-outline")}
+            onClick={() => setViewMode("table")}
+          >
+            Table
+          </button>
+          <button
+            type="button"
+            className={"btn btn-xs " + (viewMode === "timeline" ? "btn-primary" : "btn-outline")}
+            onClick={() => setViewMode("timeline")}
+          >
+            Timeline
+          </button>
+        </div>
+
+        {viewMode === "timeline" && (
+          <label className="form-label" style={{ display: "flex", gap: 6, alignItems: "center" }}>
+            Lanes by
+            <select
+              className="scheduler-field"
+              value={laneMode}
+              onChange={(e) => setLaneMode(e.target.value as GanttLaneMode)}
+            >
+              <option value="unit">Unit</option>
+              <option value="tester">Tester</option>
+            </select>
+          </label>
+        )}
+      </div>
+
       {errorMsg && (
         <div className="banner banner--error" style={{ marginBottom: 8 }}>
           {errorMsg}
@@ -463,8 +969,27 @@ export default function SchedulerPage() {
         </div>
       )}
 
-      {units.map(({ unit_id, rows }) => {
+      <ConflictSummary
+        conflicts={conflicts}
+        capacity={schedulingConfig.testerCapacity}
+        onCapacityChange={(testerCapacity) =>
+          updateSchedulingConfig({ ...schedulingConfig, testerCapacity })
+        }
+        onOpenUnit={(unitId) => {
+          setViewMode("table");
+          setOpenUnitId(unitId);
+        }}
+      />
+
+      {viewMode === "timeline" && (
+        <section className="card">
+          <SchedulerGantt bars={ganttBars} onChangeDates={handleDatesChange} />
+        </section>
+      )}
+
+      {viewMode === "table" && units.map(({ unit_id, rows }) => {
         const isOpen = openUnitId === unit_id;
+        const unitConflicts = rows.filter((a) => conflictMap.has(a.id)).length;
 
         return (
           <section key={unit_id} className="card scheduler-card">
@@ -480,6 +1005,23 @@ export default function SchedulerPage() {
                   {rows.length} steps to schedule
                 </div>
               </div>
+              {unitConflicts > 0 && (
+                <span className="scheduler-conflict-pill">
+                  ⚠ {unitConflicts} step{unitConflicts !== 1 ? "s" : ""} with
+                  warnings
+                </span>
+              )}
+              <button
+                type="button"
+                className="btn btn-outline btn-xs"
+                style={{ marginRight: 8 }}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setAutoPlanUnits([unit_id]);
+                }}
+              >
+                Auto-plan
+              </button>
               <div className="scheduler-unit-header-arrow">
                 {isOpen ? "▴" : "▾"}
               </div>
@@ -495,18 +1037,55 @@ export default function SchedulerPage() {
                       <th align="left">Start date</th>
                       <th align="left">End date</th>
                       <th align="left">Status</th>
-                      <th align="left">Auto</th>
                     </tr>
                   </thead>
                   <tbody>
                     {rows.map((a) => {
-                      const step = stepsById.get(a.step_id);
+                      const step = stepOf(a.unit_id, a.step_id);
                       const row = getRowState(a);
+                      const rowConflicts = conflictMap.get(a.id) ?? [];
+                      const saveError = rowErrors[a.id];
+                      // someone saved this row since the local edit started
+                      const changedOnServer =
+                        row.dirty &&
+                        row.version != null &&
+                        a.version != null &&
+                        row.version !== a.version;
 
                       return (
-                        <tr key={a.id}>
+                        <tr
+                          key={a.id}
+                          className={
+                            saveError
+                              ? "scheduler-row--save-failed"
+                              : rowConflicts.length > 0
+                                ? "scheduler-row--conflict"
+                                : ""
+                          }
+                        >
                           <td>
                             {step ? `${step.order}. ${step.name}` : a.step_id}
+                            {changedOnServer && !saveError && (
+                              <div className="scheduler-row-warning scheduler-row-warning--warning">
+                                ⚠ Changed by someone else since you started editing
+                              </div>
+                            )}
+                            {saveError && (
+                              <div className="scheduler-row-warning scheduler-row-warning--error">
+                                ✕ Not saved: {saveError}
+                              </div>
+                            )}
+                            {rowConflicts.map((c, i) => (
+                              <div
+                                key={i}
+                                className={
+                                  "scheduler-row-warning scheduler-row-warning--" +
+                                  c.severity
+                                }
+                              >
+                                ⚠ {c.message}
+                              </div>
+                            ))}
                           </td>
                           <td>
                             <select
@@ -566,16 +1145,6 @@ export default function SchedulerPage() {
                               <option value="FAIL">FAIL</option>
                             </select>
                           </td>
-                          <td>
-                            <button
-                              type="button"
-                              className="btn btn-secondary btn-pill"
-                              style={{ fontSize: 11, padding: "3px 10px" }}
-                              onClick={() => handleSuggest(unit_id, a.step_id)}
-                            >
-                              Suggest
-                            </button>
-                          </td>
                         </tr>
                       );
                     })}
@@ -0,0 +1,484 @@
+// src/pages/StepCatalogPage.tsx
+import { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  useDeleteTestPlan,
+  usePublishStepCatalog,
+  useStepCatalog,
+  useTestPlans,
+} from "../hooks";
+import { ApiError, getErrorMessage } from "../api";
+import type { StepCatalog, TestPlan, TestStep } from "../api";
+import { formatSingaporeDateTime } from "../dates";
+import {
+  LIMIT_COMPS,
+  isCatalogChanged,
+  moveStep,
+  newEditableStep,
+  toEditableSteps,
+  toStepDrafts,
+  validateEditableSteps,
+} from "../stepCatalog";
+import type { EditableStep } from "../stepCatalog";
+import type { LimitComp } from "../metrics";
+import { usePrompt } from "../components/PromptProvider";
+import TestPlanModal from "../components/TestPlanModal";
+import PrerequisitePicker from "../components/PrerequisitePicker";
+
+/* =========================================================
+   Editor for the next version (remounted per published version)
+   ========================================================= */
+function CatalogEditor({ catalog }: { catalog: StepCatalog }) {
+  const qc = useQueryClient();
+  const prompt = usePrompt();
+  const publish = usePublishStepCatalog();
+
+  const [rows, setRows] = useState<EditableStep[]>(() => toEditableSteps(catalog.steps));
+  const [note, setNote] = useState("");
+  const [dragKey, setDragKey] = useState<string | null>(null);
+  const [showErrors, setShowErrors] = useState(false);
+
+  const errors = useMemo(() => validateEditableSteps(rows), [rows]);
+  const errorCount = Object.keys(errors).length;
+  const changed = useMemo(() => isCatalogChanged(rows, catalog.steps), [rows, catalog.steps]);
+
+  // Position in the next version; retired rows have none
+  const orderByKey = useMemo(
+    () => new Map(rows.filter((s) => !s.retired).map((s, i) => [s.key, i + 1])),
+    [rows]
+  );
+
+  const current = catalog.current_version;
+  const pinnedUnits = catalog.versions.find((v) => v.version === current)?.unit_count ?? 0;
+
+  function update(key: string, patch: Partial<EditableStep>) {
+    setRows((list) => list.map((s) => (s.key === key ? { ...s, ...patch } : s)));
+  }
+
+  function addStep() {
+    setRows((list) => [...list, newEditableStep()]);
+  }
+
+  function removeStep(step: EditableStep) {
+    // Existing steps keep their history, so they are retired rather than dropped
+    if (step.id != null) update(step.key, { retired: !step.retired });
+    else
+      setRows((list) =>
+        list
+          .filter((s) => s.key !== step.key)
+          .map((s) =>
+            s.prerequisites?.includes(step.key)
+              ? { ...s, prerequisites: s.prerequisites.filter((k) => k !== step.key) }
+              : s
+          )
+      );
+  }
+
+  async function handleDiscard() {
+    const ok = await prompt.confirm("Discard all unpublished changes?", "Step Catalog", {
+      confirmText: "Discard",
+      cancelText: "Keep editing",
+    });
+    if (!ok) return;
+    setRows(toEditableSteps(catalog.steps));
+    setNote("");
+    setShowErrors(false);
+  }
+
+  async function handlePublish() {
+    setShowErrors(true);
+    if (errorCount > 0) return;
+
+    const retired = rows.filter((s) => s.retired).length;
+    const ok = await prompt.confirm(
+      `Publish version ${current + 1} with ${rows.length - retired} step${
+        rows.length - retired !== 1 ? "s" : ""
+      }${retired > 0 ? ` (${retired} retired)` : ""}? ` +
+        (pinnedUnits > 0
+          ? `The ${pinnedUnits} unit${pinnedUnits !== 1 ? "s" : ""} already on version ${current} keep that plan; `
+          : "") +
+        "new units start on the new version.",
+      "Publish Step Catalog",
+      { confirmText: "Publish", cancelText: "Cancel" }
+    );
+    if (!ok) return;
+
+    try {
+      await publish.mutateAsync({
+        base_version: current,
+        steps: toStepDrafts(rows),
+        note: note.trim() || null,
+      });
+    } catch (err) {
+      if (err instanceof ApiError && err.isConflict) {
+        await qc.invalidateQueries({ queryKey: ["stepCatalog"] });
+        prompt.alert(
+          "Someone else published a new version while you were editing. The catalog has been reloaded; please reapply your changes.",
+          "Publish Failed"
+        );
+        return;
+      }
+      prompt.alert(getErrorMessage(err), "Publish Failed");
+    }
+  }
+
+  return (
+    <section className="card">
+      <div className="card__header">
+        <div>
+          <div className="card__title">Steps</div>
+          <div className="card__subtitle">
+            Editing the next version ({current + 1}). Drag rows to reorder; a step starts once the
+            steps it needs have passed. Nothing changes for testers until you publish.
+          </div>
+        </div>
+        <div className="step-catalog__actions">
+          <button type="button" className="btn btn-outline" onClick={addStep}>
+            + Add step
+          </button>
+          <button
+            type="button"
+            className="btn btn-ghost"
+            disabled={!changed || publish.isPending}
+            onClick={handleDiscard}
+          >
+            Discard
+          </button>
+          <button
+            type="button"
+            className="btn btn-primary"
+            disabled={!changed || publish.isPending}
+            onClick={handlePublish}
+          >
+            {publish.isPending ? "Publishing…" : `Publish v${current + 1}`}
+          </button>
+        </div>
+      </div>
+
+      {showErrors && errors[""] && <div className="banner banner--error">{errors[""][0]}</div>}
+
+      <table className="queue-table step-catalog__table">
+        <thead>
+          <tr>
+            <th aria-label="Drag" />
+            <th>#</th>
+            <th>Name</th>
+            <th>Required</th>
+            <th>Needs</th>
+            <th>Metrics hint</th>
+            <th>Limit</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((s) => {
+            const rowErrors = showErrors ? errors[s.key] : undefined;
+            return (
+              <tr
+                key={s.key}
+                className={
+                  "step-catalog__row" +
+                  (s.retired ? " step-catalog__row--retired" : "") +
+                  (s.key === dragKey ? " step-catalog__row--dragging" : "")
+                }
+                onDragOver={(e) => {
+                  if (!dragKey) return;
+                  e.preventDefault();
+                  if (dragKey !== s.key) setRows((list) => moveStep(list, dragKey, s.key));
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  setDragKey(null);
+                }}
+              >
+                <td>
+                  <span
+                    className="step-catalog__handle"
+                    draggable
+                    title="Drag to reorder"
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      e.dataTransfer.setData("text/plain", s.key);
+                      setDragKey(s.key);
+                    }}
+                    onDragEnd={() => setDragKey(null)}
+                  >
+                    ⠿
+                  </span>
+                </td>
+                <td>{orderByKey.get(s.key) ?? "-"}</td>
+                <td>
+                  <input
+                    className="scheduler-field"
+                    value={s.name}
+                    disabled={s.retired}
+                    placeholder="Step name"
+                    onChange={(e) => update(s.key, { name: e.target.value })}
+                  />
+                  {s.id == null && <span className="step-catalog__new">new</span>}
+                  {rowErrors && (
+                    <ul className="step-catalog__errors">
+                      {rowErrors.map((msg) => (
+                        <li key={msg}>{msg}</li>
+                      ))}
+                    </ul>
+                  )}
+                </td>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={s.required}
+                    disabled={s.retired}
+                    onChange={(e) => update(s.key, { required: e.target.checked })}
+                  />
+                </td>
+                <td>
+                  <PrerequisitePicker
+                    step={s}
+                    rows={rows}
+                    disabled={s.retired}
+                    onChange={(prerequisites) => update(s.key, { prerequisites })}
+                  />
+                </td>
+                <td>
+                  <input
+                    className="scheduler-field step-catalog__hint"
+                    value={s.metrics_hint}
+                    disabled={s.retired}
+                    placeholder="peak_g (g), temp_max [°C]"
+                    onChange={(e) => update(s.key, { metrics_hint: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <div className="step-catalog__limit">
+                    <input
+                      className="scheduler-field"
+                      value={s.limit_metric}
+                      disabled={s.retired}
+                      placeholder="metric"
+                      onChange={(e) => update(s.key, { limit_metric: e.target.value })}
+                    />
+                    <select
+                      className="scheduler-field"
+                      value={s.limit_comp}
+                      disabled={s.retired}
+                      onChange={(e) =>
+                        update(s.key, { limit_comp: e.target.value as LimitComp | "" })
+                      }
+                    >
+                      <option value="">—</option>
+                      {LIMIT_COMPS.map((c) => (
+                        <option key={c} value={c}>
+                          {c}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      className="scheduler-field"
+                      inputMode="decimal"
+                      value={s.limit_value}
+                      disabled={s.retired}
+                      placeholder="value"
+                      onChange={(e) => update(s.key, { limit_value: e.target.value })}
+                    />
+                  </div>
+                </td>
+                <td>
+                  <button
+                    type="button"
+                    className={
+                      s.retired ? "btn btn-ghost btn-xs" : "btn btn-danger-outline btn-xs"
+                    }
+                    onClick={() => removeStep(s)}
+                  >
+                    {s.id == null ? "Remove" : s.retired ? "Restore" : "Retire"}
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <label className="form-label step-catalog__note">
+        Change note
+        <input
+          className="form-control"
+          value={note}
+          placeholder="What changed and why (shown in the version history)"
+          onChange={(e) => setNote(e.target.value)}
+        />
+      </label>
+    </section>
+  );
+}
+
+/* =========================================================
+   Named test plans (per SKU / revision)
+   ========================================================= */
+function TestPlansCard({ steps }: { steps: TestStep[] }) {
+  const prompt = usePrompt();
+  const { data: plans, isLoading, error } = useTestPlans();
+  const deletePlan = useDeleteTestPlan();
+  // undefined: closed, null: new plan
+  const [editing, setEditing] = useState<TestPlan | null | undefined>(undefined);
+
+  async function handleDelete(plan: TestPlan) {
+    const ok = await prompt.confirm(
+      `Delete the ${plan.name} plan? New units with its SKU will get no plan.`,
+      "Delete Test Plan",
+      { confirmText: "Delete", cancelText: "Cancel" }
+    );
+    if (!ok) return;
+    try {
+      await deletePlan.mutateAsync(plan.id);
+    } catch (err) {
+      prompt.alert(getErrorMessage(err), "Delete Failed");
+    }
+  }
+
+  return (
+    <section className="card">
+      <div className="card__header">
+        <div>
+          <div className="card__title">Test plans</div>
+          <div className="card__subtitle">
+            Named step subsets per SKU / revision. A unit picks up its plan when it is created.
+          </div>
+        </div>
+        <button type="button" className="btn btn-outline" onClick={() => setEditing(null)}>
+          + New plan
+        </button>
+      </div>
+
+      {isLoading && <p className="text-muted">Loading plans…</p>}
+      {error && <div className="banner banner--error">{getErrorMessage(error)}</div>}
+      {plans && plans.length === 0 && (
+        <p className="text-muted">No plans yet: every unit runs all catalog steps.</p>
+      )}
+
+      {plans && plans.length > 0 && (
+        <table className="queue-table">
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>SKU</th>
+              <th>Revision</th>
+              <th>Steps</th>
+              <th>Units</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {plans.map((p) => (
+              <tr key={p.id}>
+                <td>{p.name}</td>
+                <td>{p.sku || "-"}</td>
+                <td>{p.sku ? p.rev || "Any" : "-"}</td>
+                <td>{p.steps.length}</td>
+                <td>{p.unit_count ?? "-"}</td>
+                <td>
+                  <div className="step-catalog__actions">
+                    <button
+                      type="button"
+                      className="btn btn-outline btn-xs"
+                      onClick={() => setEditing(p)}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      className="btn btn-danger-outline btn-xs"
+                      disabled={deletePlan.isPending || (p.unit_count ?? 0) > 0}
+                      title={(p.unit_count ?? 0) > 0 ? "Units still use this plan" : ""}
+                      onClick={() => handleDelete(p)}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {editing !== undefined && (
+        <TestPlanModal plan={editing} steps={steps} onClose={() => setEditing(undefined)} />
+      )}
+    </section>
+  );
+}
+
+export default function StepCatalogPage() {
+  const { data: catalog, isLoading, error } = useStepCatalog();
+
+  return (
+    <div className="page">
+      <header className="page-header">
+        <div className="page-header__title-group">
+          <h1>Step Catalog</h1>
+          <p>
+            Every test step, and the per-SKU plans built from them. Units already in progress
+            keep the catalog version they started with.
+          </p>
+        </div>
+      </header>
+
+      {isLoading && <p className="text-muted">Loading catalog…</p>}
+      {error && <div className="banner banner--error">{getErrorMessage(error)}</div>}
+
+      {catalog && (
+        <>
+          <CatalogEditor key={catalog.current_version} catalog={catalog} />
+
+          <TestPlansCard steps={catalog.steps} />
+
+          <section className="card">
+            <div className="card__header">
+              <div>
+                <div className="card__title">Versions</div>
+                <div className="card__subtitle">
+                  Published plans, newest first, with the units pinned to each.
+                </div>
+              </div>
+            </div>
+            {catalog.versions.length === 0 ? (
+              <p className="text-muted">Nothing published yet.</p>
+            ) : (
+              <table className="queue-table">
+                <thead>
+                  <tr>
+                    <th>Version</th>
+                    <th>Published</th>
+                    <th>By</th>
+                    <th>Steps</th>
+                    <th>Units</th>
+                    <th>Note</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {catalog.versions.map((v) => (
+                    <tr key={v.version}>
+                      <td>
+                        v{v.version}
+                        {v.version === catalog.current_version && (
+                          <span className="step-catalog__current">current</span>
+                        )}
+                      </td>
+                      <td>{formatSingaporeDateTime(v.published_at)}</td>
+                      <td>{v.published_by || "-"}</td>
+                      <td>{v.step_count}</td>
+                      <td>{v.unit_count ?? "-"}</td>
+                      <td>{v.note || "-"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,32 @@
 // src/pages/TesterQueuePage.tsx
 import React, { useMemo } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { getRole, getUser, createResult } from "../api";
+import { Link } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { ApiError, getErrorMessage, getUser } from "../api";
 import {
   useTesterAssignments,
+  useTesterQueue,
   useUnits,
   useSteps,
-  useTesterSetStatus,          // 👈 NEW
+  useStepsByUnit,
+  useNcrsByUnit,
+  useOutbox,
+  usePermissions,
+  useAssignmentsSchedule,
+  useTesters,
+  useTesterGroups,
+  useUpdateAssignment,
 } from "../hooks";
-import type { Assignment, TestStep, UnitSummary } from "../api";
+import type { Assignment, Ncr, TestStep, TesterTask, UnitSummary } from "../api";
 import { usePrompt } from "../components/PromptProvider";
+import OutboxIndicator from "../components/OutboxIndicator";
+import { enqueueOutbox } from "../offline";
+import type { OutboxAction } from "../offline";
+import { assertCan } from "../permissions";
+import { DISPATCH_KIND_LABELS, dispatchCards, dispatchColumns } from "../dispatch";
+import { ncrLabel, ncrsGatingStep } from "../ncr";
+import { todayKey } from "../dates";
+import { hasLimit } from "../metrics";
 
 
 const PRE_VIBRATION_STEP_ID = 5;
@@ -26,6 +43,57 @@ function allChecked(v?: SubChecks) {
 
 /* ----------------- Helpers ----------------- */
 
+/**
+ * Look up an assignment's step as its unit knows it: the catalog and test
+ * plan versions the unit started on, else the current catalog.
+ */
+function useAssignmentStep() {
+  const { data: steps } = useSteps();
+  const { data: units } = useUnits();
+  const { data: unitSteps } = useStepsByUnit(units);
+
+  return useMemo(() => {
+    const current = new Map((steps ?? []).map((s) => [s.id, s]));
+    const byUnit = new Map(
+      Array.from(unitSteps, ([unitId, list]) => [unitId, new Map(list.map((s) => [s.id, s]))])
+    );
+    return (a: Assignment): TestStep | undefined =>
+      byUnit.get(a.unit_id)?.get(a.step_id) ?? current.get(a.step_id);
+  }, [steps, unitSteps]);
+}
+
+// Not skipped and not finished
+function isOpenAssignment(a: Assignment) {
+  return !a.skipped && (!a.status || ["PENDING", "RUNNING"].includes(a.status));
+}
+
+// Open, and every prerequisite has passed
+function isReadyAssignment(a: Assignment) {
+  return isOpenAssignment(a) && !!a.prev_passed;
+}
+
+/**
+ * NCRs holding back an assignment's step (see `ncrsGatingStep`). The
+ * server's `prev_passed` only covers prerequisites, not NCRs.
+ */
+function useNcrGates(unitIds: string[]) {
+  const { data: units } = useUnits();
+  const { data: unitSteps } = useStepsByUnit(units);
+  const { data: ncrsByUnit } = useNcrsByUnit(unitIds);
+
+  return useMemo(() => {
+    const stepsByUnit = new Map(
+      Array.from(unitSteps, ([unitId, list]) => [unitId, new Map(list.map((s) => [s.id, s]))])
+    );
+    return (a: Assignment): Ncr[] => {
+      const steps = stepsByUnit.get(a.unit_id);
+      const step = steps?.get(a.step_id);
+      const ncrs = ncrsByUnit.get(a.unit_id);
+      return steps && step && ncrs ? ncrsGatingStep(ncrs, step, steps) : [];
+    };
+  }, [unitSteps, ncrsByUnit]);
+}
+
 function toDateKey(value?: string | null): string | null {
   if (!value) return null;
   return value.slice(0, 10); // "YYYY-MM-DD"
@@ -89,13 +157,13 @@ const btnRemark = {
 /* --------------- Main entry ---------------- */
 
 export default function TesterQueuePage() {
-  const role = getRole();
+  const { can } = usePermissions();
 
-  if (role === "tester") {
+  if (can("queue:work")) {
     return <TesterQueueTesterView />;
   }
 
-  if (role === "supervisor") {
+  if (can("queue:dispatch")) {
     return <TesterQueueSupervisorView />;
   }
 
@@ -133,57 +201,43 @@ function TesterQueueTesterView() {
     isLoading,
     error,
   } = useTesterAssignments(testerId);
+  // Only used for the blocked list; ready cards come from the assignments above
+  const { data: queue, error: queueError } = useTesterQueue(testerId);
 
-  const { data: steps } = useSteps();
+  const stepOf = useAssignmentStep();
+  const readyUnitIds = useMemo(
+    () =>
+      Array.from(
+        new Set((assignments ?? []).filter((a) => a.prev_passed).map((a) => a.unit_id))
+      ).sort(),
+    [assignments]
+  );
+  const ncrGates = useNcrGates(readyUnitIds);
   const qc = useQueryClient();
 
-  const stepById = useMemo(() => {
-    const m = new Map<number, TestStep>();
-    steps?.forEach((s) => m.set(s.id, s));
+  // Every tester action goes through the outbox so it survives Wi-Fi drops
+  const outbox = useOutbox();
+  const pendingByAssignment = useMemo(() => {
+    const m = new Set<string>();
+    for (const e of outbox) {
+      if (e.state !== "pending" || e.testerId !== testerId) continue;
+      if (e.kind === "createResult") m.add(`${e.payload.unit_id}:${e.payload.step_id}`);
+      else m.add(e.assignmentId);
+    }
     return m;
-  }, [steps]);
-
-  const resultMutation = useMutation({
-    mutationFn: createResult,
-    onSuccess: (_data, variables: any) => {
-      qc.invalidateQueries({ queryKey: ["unit", variables.unit_id] });
-      qc.invalidateQueries({ queryKey: ["units"] });
-      qc.invalidateQueries({ queryKey: ["testerAssignments", testerId] });
-    },
-  });
-
-  const statusMutation = useTesterSetStatus();   // 👈 NEW
-
-  const patchAssignmentMutation = useMutation({
-  mutationFn: async ({
-    assignmentId,
-    payload,
-  }: {
-    assignmentId: string;
-    payload: Partial<{
-      sub_checks: SubChecks;
-      remark: string;
-    }>;
-  }) => {
-    const res = await fetch(
-      `${import.meta.env.VITE_API_BASE_URL}/tester/assignments/${assignmentId}`,
-      {
+  }, [outbox, testerId]);
 
-      method: "PATCH",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${localStorage.getItem("token")}`,
-      },
-      body: JSON.stringify(payload),
-    });
+  const isPendingSync = (a: Assignment) =>
+    pendingByAssignment.has(a.id) || pendingByAssignment.has(`${a.unit_id}:${a.step_id}`);
 
-    if (!res.ok) throw new Error("Failed to update assignment");
-    return res.json();
-  },
-  onSuccess: () => {
-    qc.invalidateQueries({ queryKey: ["testerAssignments", testerId] });
-  },
-});
+  const queueAction = (action: OutboxAction, a: Assignment, label: string) => {
+    try {
+      assertCan(action.kind === "createResult" ? "results:submit" : "queue:work");
+      enqueueOutbox(qc, action, { testerId, assignment: a, label });
+    } catch (err) {
+      prompt.alert(getErrorMessage(err), "Update Error");
+    }
+  };
 
   if (!testerId) {
     return (
@@ -196,64 +250,84 @@ function TesterQueueTesterView() {
     );
   }
 
-  const todayKey = new Date().toISOString().slice(0, 10); // "YYYY-MM-DD"
+  const today = todayKey();
 
   const unitCards: UnitCard[] = useMemo(() => {
     if (!assignments) return [];
 
-    // Only include non-skipped assignments that are PENDING or RUNNING
-    const base = assignments.filter(
-      (a) =>
-        !a.skipped &&
-        a.prev_passed && 
-        ["PENDING", "RUNNING", null].includes(a.status as any)
+    // Only include non-skipped assignments that are PENDING or RUNNING,
+    // whose prerequisites have passed and that no NCR holds back. Steps that
+    // don't depend on each other can be ready at the same time, so a unit
+    // may have several cards.
+    const base = assignments.filter((a) => isReadyAssignment(a) && ncrGates(a).length === 0);
+
+    const orderOf = (a: Assignment) => stepOf(a)?.order ?? a.step_id;
+    const cards: UnitCard[] = base.map((a) => ({
+      unit_id: a.unit_id,
+      assignment: a,
+      step: stepOf(a),
+    }));
+
+    // Per unit: running steps first, then by step order
+    cards.sort(
+      (a, b) =>
+        a.unit_id.localeCompare(b.unit_id) ||
+        Number(b.assignment.status === "RUNNING") - Number(a.assignment.status === "RUNNING") ||
+        orderOf(a.assignment) - orderOf(b.assignment)
     );
+    return cards;
+  }, [assignments, stepOf, ncrGates, today]);
+
+  // Ready as far as the server knows, but held by an NCR on an earlier step
+  const heldTasks: TesterTask[] = (assignments ?? []).flatMap((a) => {
+    const step = stepOf(a);
+    const held = isReadyAssignment(a) ? ncrGates(a) : [];
+    if (!step || held.length === 0) return [];
+    return [{ assignment: a, step, reasons_blocked: held.map((n) => `Held by ${ncrLabel(n)}`) }];
+  });
 
-    const todayList = base;
-    const byUnit = new Map<string, Assignment[]>();
-    for (const a of todayList) {
-      if (!byUnit.has(a.unit_id)) byUnit.set(a.unit_id, []);
-      byUnit.get(a.unit_id)!.push(a);
-    }
+  // A task that just became ready can still be in the last queue response
+  const readyIds = new Set(unitCards.map((c) => c.assignment.id));
+  const heldIds = new Set(heldTasks.map((t) => t.assignment.id));
+  const serverBlocked = (queue?.blocked ?? []).filter(
+    (t) => !readyIds.has(t.assignment.id) && !heldIds.has(t.assignment.id)
+  );
 
-    const cards: UnitCard[] = [];
-    for (const [unit_id, list] of byUnit.entries()) {
-      let chosen: Assignment | null = null;
-
-      const running = list.find((a) => a.status === "RUNNING");
-      if (running) {
-        chosen = running;
-      } else {
-        chosen = list
-          .slice()
-          .sort((a, b) => {
-            const oa = stepById.get(a.step_id)?.order ?? a.step_id;
-            const ob = stepById.get(b.step_id)?.order ?? b.step_id;
-            return oa - ob;
-          })[0];
-      }
+  // Not ready but not (yet) in the queue response: still list it, without reasons
+  const serverBlockedIds = new Set(serverBlocked.map((t) => t.assignment.id));
+  const waitingTasks: TesterTask[] = (assignments ?? []).flatMap((a) => {
+    const step = stepOf(a);
+    if (!step || !isOpenAssignment(a) || a.prev_passed || serverBlockedIds.has(a.id)) return [];
+    return [{ assignment: a, step, reasons_blocked: [] }];
+  });
 
-      if (chosen) {
-        cards.push({
-          unit_id,
-          assignment: chosen,
-          step: stepById.get(chosen.step_id),
-        });
-      }
-    }
+  const blockedTasks: TesterTask[] = [...serverBlocked, ...waitingTasks, ...heldTasks].sort(
+    (a, b) =>
+      a.assignment.unit_id.localeCompare(b.assignment.unit_id) || a.step.order - b.step.order
+  );
 
-    cards.sort((a, b) => a.unit_id.localeCompare(b.unit_id));
-    return cards;
-  }, [assignments, stepById, todayKey]);
 
+  // NCRs can load or open after the card was shown
+  const isHeld = (card: UnitCard) => {
+    const held = ncrGates(card.assignment);
+    if (held.length === 0) return false;
+    prompt.alert(
+      `${card.unit_id} has an open non-conformance on an earlier step (${held
+        .map(ncrLabel)
+        .join(", ")}).`,
+      "Step On Hold"
+    );
+    return true;
+  };
 
   const handleQuickResult = async (card: UnitCard, passed: boolean) => {
     if (card.assignment.step_id === PRE_VIBRATION_STEP_ID) {
       return;
     }
+    // Measured steps need a value so the verdict comes from the limit
+    if (hasLimit(card.step)) return;
+    if (isHeld(card)) return;
     
-    if (resultMutation.isLoading) return;
-
     const ok = await prompt.confirm(
       `Mark ${card.unit_id} – ${
         card.step?.name ?? `Step ${card.assignment.step_id}`
@@ -264,17 +338,25 @@ function TesterQueueTesterView() {
 
     if (!ok) return;
 
-    resultMutation.mutate({
-      unit_id: card.unit_id,
-      step_id: card.assignment.step_id,
-      metrics: {},
-      passed,
-    });
+    queueAction(
+      {
+        kind: "createResult",
+        payload: {
+          unit_id: card.unit_id,
+          step_id: card.assignment.step_id,
+          metrics: {},
+          passed,
+        },
+      },
+      card.assignment,
+      `${card.unit_id} – ${card.step?.name ?? `Step ${card.assignment.step_id}`}: ${
+        passed ? "PASS" : "FAIL"
+      }`
+    );
   };
 
   const handleStartRunning = async (card: UnitCard) => {   // 👈 NEW
-    if (statusMutation.isLoading) return;
-
+    if (isHeld(card)) return;
     const ok = await prompt.confirm(
       `Start test for ${card.unit_id} – ${
         card.step?.name ?? `Step ${card.assignment.step_id}`
@@ -284,10 +366,11 @@ function TesterQueueTesterView() {
     );
     if (!ok) return;
 
-    statusMutation.mutate({
-      assignmentId: card.assignment.id,
-      status: "RUNNING",
-    });
+    queueAction(
+      { kind: "setStatus", assignmentId: card.assignment.id, status: "RUNNING" },
+      card.assignment,
+      `${card.unit_id} – ${card.step?.name ?? `Step ${card.assignment.step_id}`}: RUNNING`
+    );
   };
 
   
@@ -298,6 +381,8 @@ function TesterQueueTesterView() {
         Logged in as <strong>{testerId}</strong>.
       </p>
 
+      <OutboxIndicator testerId={testerId} />
+
       {isLoading && <div>Loading your scheduled tests…</div>}
       {error && (
         <div style={{ color: "red", fontSize: 13 }}>
@@ -308,6 +393,8 @@ function TesterQueueTesterView() {
       {!isLoading && unitCards.length === 0 && (
         <div style={{ fontSize: 13, color: "#6b7280", marginTop: "0.5rem" }}>
           No units ready for you right now.
+          {blockedTasks.length > 0 &&
+            ` ${blockedTasks.length} waiting on other steps (see Blocked below).`}
         </div>
       )}
 
@@ -323,6 +410,7 @@ function TesterQueueTesterView() {
         {unitCards.map((card) => {
           const a = card.assignment;
           const isPreVibration = a.step_id === PRE_VIBRATION_STEP_ID;
+          const pendingSync = isPendingSync(a);
 
           const subChecks: SubChecks = a.sub_checks ?? {
             ambient: false,
@@ -342,7 +430,7 @@ function TesterQueueTesterView() {
 
           if (a.status === "PENDING") {
             // Overdue: end date in the past
-            if (endKey && endKey < todayKey) {
+            if (endKey && endKey < today) {
               visualStatus = "OVERDUE";
             }
             // Today window: still show PENDING until tester clicks RUNNING
@@ -440,13 +528,24 @@ function TesterQueueTesterView() {
                 {/* RUNNING button – only for PENDING assignments */}
                 {/* Action buttons row */}
                 <div style={{ display: "flex", flexDirection: "column", gap: "0.35rem" }}>
-                  {/* Row 1: PASS / FAIL */}
-                  {!isPreVibration && (
+                  {/* Row 1: PASS / FAIL, or a link to enter the measured value */}
+                  {!isPreVibration && hasLimit(card.step) && (
+                    <Link
+                      to={`/upload?${new URLSearchParams({
+                        unit: a.unit_id,
+                        step: String(a.step_id),
+                      }).toString()}`}
+                      style={{ ...btnRemark, textAlign: "center", textDecoration: "none" }}
+                    >
+                      ENTER RESULT
+                    </Link>
+                  )}
+                  {!isPreVibration && !hasLimit(card.step) && (
                     <div style={{ display: "flex", gap: "0.4rem" }}>
                       <button
                         style={btnPass}
                         onClick={() => handleQuickResult(card, true)}
-                        disabled={resultMutation.isLoading}
+                        disabled={pendingSync}
                       >
                         PASS
                       </button>
@@ -454,7 +553,7 @@ function TesterQueueTesterView() {
                       <button
                         style={btnFail}
                         onClick={() => handleQuickResult(card, false)}
-                        disabled={resultMutation.isLoading}
+                        disabled={pendingSync}
                       >
                         FAIL
                       </button>
@@ -467,7 +566,7 @@ function TesterQueueTesterView() {
                       <button
                         style={btnRunning}
                         onClick={() => handleStartRunning(card)}
-                        disabled={statusMutation.isLoading}
+                        disabled={pendingSync}
                       >
                         RUNNING
                       </button>
@@ -510,18 +609,26 @@ function TesterQueueTesterView() {
                           onChange={() => {
                             const next = { ...subChecks, [k]: !subChecks[k] };
                 
-                            patchAssignmentMutation.mutate({
-                              assignmentId: a.id,
-                              payload: { sub_checks: next },
-                            });
+                            queueAction(
+                              { kind: "patchAssignment", assignmentId: a.id, patch: { sub_checks: next } },
+                              a,
+                              `${card.unit_id} – ${stepName}: ${k} check ${next[k] ? "on" : "off"}`
+                            );
                 
-                            if (allChecked(next) && !resultMutation.isLoading) {
-                              resultMutation.mutate({
-                                unit_id: card.unit_id,
-                                step_id: a.step_id,
-                                metrics: next,
-                                passed: true,
-                              });
+                            if (allChecked(next)) {
+                              queueAction(
+                                {
+                                  kind: "createResult",
+                                  payload: {
+                                    unit_id: card.unit_id,
+                                    step_id: a.step_id,
+                                    metrics: next,
+                                    passed: true,
+                                  },
+                                },
+                                a,
+                                `${card.unit_id} – ${stepName}: PASS`
+                              );
                             }
                           }}
                         />
@@ -534,7 +641,7 @@ function TesterQueueTesterView() {
 
               </div>
 
-              {(resultMutation.isLoading || statusMutation.isLoading) && (
+              {pendingSync && (
                 <div
                   style={{
                     marginTop: 4,
@@ -543,13 +650,15 @@ function TesterQueueTesterView() {
                     textAlign: "right",
                   }}
                 >
-                  Updating…
+                  Pending sync…
                 </div>
               )}
             </div>
           );
         })}
       </div>
+      <BlockedTasks tasks={blockedTasks} error={queueError} />
+
       {/* STEP 4: Remark Modal */}
       {remarkOpen && remarkAssignment && (
         <div
@@ -608,10 +717,15 @@ function TesterQueueTesterView() {
                   padding: "0.3rem 0.75rem",
                 }}
                 onClick={() => {
-                  patchAssignmentMutation.mutate({
-                    assignmentId: remarkAssignment.id,
-                    payload: { remark: remarkValue },
-                  });
+                  queueAction(
+                    {
+                      kind: "patchAssignment",
+                      assignmentId: remarkAssignment.id,
+                      patch: { remark: remarkValue },
+                    },
+                    remarkAssignment,
+                    `${remarkAssignment.unit_id} – remark`
+                  );
                   setRemarkOpen(false);
                 }}
               >
@@ -625,10 +739,111 @@ function TesterQueueTesterView() {
   );
 }
 
+/* ------------- Blocked tasks ------------- */
+
+function BlockedTasks({ tasks, error }: { tasks: TesterTask[]; error: unknown }) {
+  if (tasks.length === 0 && !error) return null;
+
+  return (
+    <section style={{ marginTop: "1.5rem" }}>
+      <h3 style={{ marginBottom: 4 }}>Blocked ({tasks.length})</h3>
+      <p style={{ fontSize: 13, color: "#6b7280", marginTop: 0 }}>
+        Assigned to you but not ready yet. They move up to your queue as soon as the blocker
+        clears.
+      </p>
+
+      {error != null && (
+        <div style={{ color: "red", fontSize: 13 }}>
+          Error loading blocked tasks: {getErrorMessage(error)}
+        </div>
+      )}
+
+      <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+        {tasks.map((t) => (
+          <li
+            key={t.assignment.id}
+            style={{
+              display: "flex",
+              gap: "0.75rem",
+              alignItems: "baseline",
+              padding: "0.5rem 0.75rem",
+              borderRadius: 8,
+              border: "1px dashed #d1d5db",
+              background: "#f9fafb",
+              marginBottom: "0.4rem",
+            }}
+          >
+            <Link
+              to={`/units/${encodeURIComponent(t.assignment.unit_id)}`}
+              style={{ fontWeight: 700, minWidth: 110 }}
+            >
+              {t.assignment.unit_id}
+            </Link>
+            <div style={{ flex: 1, fontSize: 13 }}>
+              <div style={{ fontWeight: 600 }}>
+                {t.step.order}. {t.step.name}
+              </div>
+              {t.reasons_blocked.length > 0 ? (
+                <ul style={{ margin: "0.2rem 0 0", paddingLeft: "1.1rem", color: "#b45309" }}>
+                  {t.reasons_blocked.map((r) => (
+                    <li key={r}>{r}</li>
+                  ))}
+                </ul>
+              ) : (
+                <div style={{ color: "#6b7280" }}>Waiting on earlier steps.</div>
+              )}
+            </div>
+            <div style={{ fontSize: 12, color: "#6b7280", whiteSpace: "nowrap" }}>
+              {t.assignment.start_at || t.assignment.end_at
+                ? `${formatDateShort(t.assignment.start_at)} → ${formatDateShort(
+                    t.assignment.end_at
+                  )}`
+                : "Not scheduled"}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
 /* ------------- Supervisor view ------------- */
 
 function TesterQueueSupervisorView() {
-  const { data: units, isLoading, error } = useUnits();
+  const qc = useQueryClient();
+  const prompt = usePrompt();
+  const { data: assignments, isLoading, error } = useAssignmentsSchedule();
+  const { data: testers } = useTesters();
+  const { data: testerGroups } = useTesterGroups();
+  const stepOf = useAssignmentStep();
+  const { data: units, isLoading: unitsLoading, error: unitsError } = useUnits();
+  const updateAssignment = useUpdateAssignment();
+
+  const [dragId, setDragId] = React.useState<string | null>(null);
+  const [dropKey, setDropKey] = React.useState<string | null>(null);
+
+  const today = todayKey();
+
+  // Steps held by an NCR are not ready to dispatch
+  const readyUnitIds = useMemo(
+    () =>
+      Array.from(
+        new Set((assignments ?? []).filter(isReadyAssignment).map((a) => a.unit_id))
+      ).sort(),
+    [assignments]
+  );
+  const ncrGates = useNcrGates(readyUnitIds);
+
+  const cards = useMemo(
+    () => dispatchCards(assignments ?? [], today, (a) => ncrGates(a).length > 0),
+    [assignments, today, ncrGates]
+  );
+  const columns = useMemo(
+    () => dispatchColumns(cards, testers ?? [], testerGroups ?? {}),
+    [cards, testers, testerGroups]
+  );
+  const countOf = (kind: keyof typeof DISPATCH_KIND_LABELS) =>
+    cards.filter((c) => c.kind === kind).length;
 
   const sortedUnits: UnitSummary[] = useMemo(
     () =>
@@ -638,21 +853,134 @@ function TesterQueueSupervisorView() {
     [units]
   );
 
+  async function reassign(assignmentId: string, testerKey: string) {
+    const a = assignments?.find((x) => x.id === assignmentId);
+    if (!a || (a.tester_id ?? "") === testerKey) return;
+    const tester_id = testerKey || null;
+
+    // Move the card right away; the refetch after saving confirms it
+    qc.setQueryData<Assignment[]>(["assignmentsSchedule"], (old) =>
+      old?.map((x) => (x.id === a.id ? { ...x, tester_id } : x))
+    );
+    try {
+      await updateAssignment.mutateAsync({ id: a.id, data: { tester_id, version: a.version } });
+    } catch (err) {
+      await qc.invalidateQueries({ queryKey: ["assignmentsSchedule"] });
+      if (err instanceof ApiError && err.isConflict) {
+        prompt.alert(
+          `${a.unit_id} was changed by someone else. The board has been reloaded; please try again.`,
+          "Reassign Failed"
+        );
+        return;
+      }
+      prompt.alert(getErrorMessage(err), "Reassign Failed");
+    }
+  }
+
   return (
     <div>
-      <h2>Unit Progress (Supervisor)</h2>
+      <h2>Today&apos;s Queue (Supervisor)</h2>
       <p style={{ fontSize: 14, color: "#4b5563" }}>
-        Overview of each unit&apos;s progress and next step.
+        {countOf("ready")} ready, {countOf("running")} running, {countOf("overdue")} overdue.
+        Drag a card to another tester or group to reassign it; running tests stay put.
       </p>
 
-      {isLoading && <div>Loading units…</div>}
+      {isLoading && <div>Loading today&apos;s assignments…</div>}
       {error && (
         <div style={{ color: "red", fontSize: 13 }}>
-          Error loading units: {(error as any).message}
+          Error loading assignments: {getErrorMessage(error)}
+        </div>
+      )}
+
+      <div className="dispatch-board">
+        {columns.map((col) => (
+          <section
+            key={col.key || "~unassigned"}
+            className={
+              "dispatch-column" +
+              (col.key === "" ? " dispatch-column--pool" : "") +
+              (dragId && dropKey === col.key ? " dispatch-column--over" : "")
+            }
+            onDragOver={(e) => {
+              if (!dragId) return;
+              e.preventDefault();
+              if (dropKey !== col.key) setDropKey(col.key);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              const id = dragId;
+              setDragId(null);
+              setDropKey(null);
+              if (id) reassign(id, col.key);
+            }}
+          >
+            <header className="dispatch-column__header">
+              <span className="dispatch-column__title">{col.title}</span>
+              <span className="dispatch-column__count">{col.cards.length}</span>
+            </header>
+            {col.members && (
+              <div className="dispatch-column__members">
+                {col.members.length > 0 ? col.members.join(", ") : "No members"}
+              </div>
+            )}
+
+            {col.cards.length === 0 && (
+              <div className="dispatch-column__empty">Nothing for today</div>
+            )}
+            {col.cards.map(({ assignment: a, kind }) => {
+              const step = stepOf(a);
+              const start = formatDateShort(a.start_at);
+              const end = formatDateShort(a.end_at);
+              return (
+                <div
+                  key={a.id}
+                  className={
+                    `dispatch-card dispatch-card--${kind}` +
+                    (dragId === a.id ? " dispatch-card--dragging" : "")
+                  }
+                  draggable={kind !== "running"}
+                  title={
+                    kind === "running" ? "Running tests can't be reassigned" : "Drag to reassign"
+                  }
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    e.dataTransfer.setData("text/plain", a.id);
+                    setDragId(a.id);
+                  }}
+                  onDragEnd={() => {
+                    setDragId(null);
+                    setDropKey(null);
+                  }}
+                >
+                  <div className="dispatch-card__top">
+                    <Link to={`/units/${encodeURIComponent(a.unit_id)}`}>{a.unit_id}</Link>
+                    <span className={`dispatch-card__badge dispatch-card__badge--${kind}`}>
+                      {DISPATCH_KIND_LABELS[kind]}
+                    </span>
+                  </div>
+                  <div className="dispatch-card__step">
+                    {step ? `${step.order}. ${step.name}` : `Step ${a.step_id}`}
+                  </div>
+                  <div className="dispatch-card__dates">
+                    {start === "-" && end === "-" ? "Not scheduled" : `${start} → ${end}`}
+                  </div>
+                </div>
+              );
+            })}
+          </section>
+        ))}
+      </div>
+
+      <h3 style={{ marginTop: "1.5rem" }}>Unit progress</h3>
+
+      {unitsLoading && <div>Loading units…</div>}
+      {unitsError && (
+        <div style={{ color: "red", fontSize: 13 }}>
+          Error loading units: {getErrorMessage(unitsError)}
         </div>
       )}
 
-      {!isLoading && sortedUnits.length === 0 && (
+      {!unitsLoading && sortedUnits.length === 0 && (
         <div style={{ fontSize: 13, color: "#6b7280" }}>
           No units created yet.
         </div>
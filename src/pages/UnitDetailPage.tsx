@@ -1,10 +1,37 @@
 // src/pages/UnitDetailPage.tsx
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { useUnitDetails, useSteps } from "../hooks";
-import { getToken, API_BASE_URL } from "../api";
+import {
+  useUnitDetails,
+  useUnitSteps,
+  usePermissions,
+  useUnitNcrs,
+  useUpdateUnit,
+  useRenameUnit,
+  useSetStepSkipped,
+  useUpdateRemark,
+  useRemoveStepEvidence,
+} from "../hooks";
+import {
+  downloadStepLogs,
+  downloadUnitEvidenceZip,
+  downloadUnitTraveller,
+  getErrorMessage,
+} from "../api";
 import { usePrompt } from "../components/PromptProvider";
-import { useQueryClient } from "@tanstack/react-query";
+import EvidencePanel from "../components/EvidencePanel";
+import ResultMetrics from "../components/ResultMetrics";
+import MetricTrendChart from "../components/MetricTrendChart";
+import AttemptTimeline from "../components/AttemptTimeline";
+import { attemptsByStep, latestAttempt, passedAfterRetest } from "../results";
+import NcrPanel from "../components/NcrPanel";
+import NcrRaiseModal from "../components/NcrRaiseModal";
+import UnitFormModal from "../components/UnitFormModal";
+import StepDependencyGraph from "../components/StepDependencyGraph";
+import { PRIORITY_LABELS, unitToFormValues } from "../units";
+import { NCR_STATUS_LABELS, isOpenNcr, ncrLabel, ncrsGatingStep } from "../ncr";
+import { formatSingaporeDateTime } from "../dates";
+import { stepStatuses } from "../stepGraph";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 
@@ -29,36 +56,6 @@ function toISODate(value: any): string | null {
   return d.toISOString().slice(0, 10);
 }
 
-function formatSingaporeDateTime(iso?: string | null): string {
-  if (!iso) return "-";
-  const raw = String(iso).trim();
-  if (!raw || raw.startsWith("1970-01-01")) return "-";
-
-  // Normalize "YYYY-MM-DD HH:mm:ss" -> "YYYY-MM-DDTHH:mm:ss"
-  let s = raw.includes(" ") && !raw.includes("T") ? raw.replace(" ", "T") : raw;
-
-  // If there's NO timezone info, assume UTC (backend often serializes naive UTC)
-  const hasTZ = /([zZ]|[+\-]\d{2}:\d{2})$/.test(s);
-  if (!hasTZ) s = s + "Z";
-
-  const d = new Date(s);
-  if (isNaN(d.getTime())) return "-";
-
-  // Force SGT display regardless of user's machine timezone
-  return new Intl.DateTimeFormat("sv-SE", {
-    timeZone: "Asia/Singapore",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  }).format(d);
-}
-
-
-
-
 function pickDisplayDate(a: any, r: any): string {
   // 1) ✅ Result finished time (PASS/FAIL from tester queue or upload)
   const finishedAny = r?.finished_at;
@@ -82,19 +79,38 @@ function pickDisplayDate(a: any, r: any): string {
 export default function UnitDetailPage() {
   const prompt = usePrompt();
   const navigate = useNavigate();
-  const qc = useQueryClient();
 
   const params = useParams();
   const unitId = params.unitId ? decodeURIComponent(params.unitId) : null;
 
   const { data, isLoading, error } = useUnitDetails(unitId || "");
-  const { data: steps } = useSteps();
+  // The unit's own test plan, at the catalog version it started on
+  const { data: steps, plan: testPlan } = useUnitSteps(data?.unit);
+  const { data: ncrData } = useUnitNcrs(unitId || "");
+  const { can } = usePermissions();
+  const canRename = can("units:rename");
+  const canEditUnit = can("units:edit");
+  const updateUnit = useUpdateUnit();
+  const renameUnit = useRenameUnit();
+  const setStepSkipped = useSetStepSkipped();
+  const updateRemark = useUpdateRemark();
+  const removeEvidence = useRemoveStepEvidence();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const canMarkNA = can("steps:mark_na");
+  const canDeleteEvidence = can("evidence:delete");
+  const canEditRemarks = can("remarks:edit");
+  const canRaiseNcr = can("ncr:raise");
+  const [raiseNcrFor, setRaiseNcrFor] = useState<number | null>(null); // step id
   const [editingRemarkId, setEditingRemarkId] = useState<string | null>(null);
   const [remarkDraft, setRemarkDraft] = useState("");
 
   const [isRenameOpen, setIsRenameOpen] = useState(false);
   const [renameValue, setRenameValue] = useState("");
   const [selectedSteps, setSelectedSteps] = useState<Set<number>>(new Set());
+  const [openEvidence, setOpenEvidence] = useState<Set<number>>(new Set());
+  const [openHistory, setOpenHistory] = useState<Set<number>>(new Set());
+  // null until the user picks; defaults to this unit's first limited step
+  const [trend, setTrend] = useState<{ stepId: number | null; metric: string } | null>(null);
   if (!unitId)
     return (
       <div className="page">
@@ -126,13 +142,22 @@ export default function UnitDetailPage() {
   const assignmentsByStep = new Map<number, (typeof data.assignments)[number]>();
   data.assignments.forEach((a) => assignmentsByStep.set(a.step_id, a));
 
+  // All attempts per step; the latest one is the step's current result
+  const attemptsForStep = attemptsByStep(data.results);
   const resultsByStep = new Map<number, (typeof data.results)[number]>();
-  data.results.forEach((r) => resultsByStep.set(r.step_id, r));
+  attemptsForStep.forEach((list, stepId) =>
+    resultsByStep.set(stepId, latestAttempt(list)!.result)
+  );
+
+  const stepsById = new Map(steps.map((s) => [s.id, s]));
 
-  const nonSkippedAssignments = data.assignments.filter((a: any) => !a.skipped);
+  // Assignments outside the unit's plan don't count towards progress
+  const nonSkippedAssignments = data.assignments.filter(
+    (a: any) => !a.skipped && stepsById.has(a.step_id)
+  );
   const nonSkippedStepIds = new Set(nonSkippedAssignments.map((a) => a.step_id));
 
-  const passedSteps = data.results.filter(
+  const passedSteps = Array.from(resultsByStep.values()).filter(
     (r) => r.passed && nonSkippedStepIds.has(r.step_id)
   ).length;
 
@@ -141,56 +166,53 @@ export default function UnitDetailPage() {
 
   const unitLabel = (data.unit as any).unit_id || data.unit.id;
 
+  const resultsInOrder = Array.from(resultsByStep.values())
+    .filter((r) => stepsById.has(r.step_id))
+    .sort((a, b) => stepsById.get(a.step_id)!.order - stepsById.get(b.step_id)!.order);
+
+  const ncrs = ncrData ?? [];
+  const ncrByResult = new Map(ncrs.map((n) => [n.result_id, n]));
+  const openNcrCount = ncrs.filter(isOpenNcr).length;
+  // Open NCRs upstream of each step that has not passed yet
+  const ncrGates = new Map(
+    steps.map((s) => [
+      s.id,
+      resultsByStep.get(s.id)?.passed ? [] : ncrsGatingStep(ncrs, s, stepsById),
+    ])
+  );
+  const statuses = stepStatuses(
+    steps,
+    data.assignments,
+    resultsByStep,
+    new Map(
+      Array.from(ncrGates, ([id, gates]) => [id, gates.map((n) => `Held by ${ncrLabel(n)}`)])
+    )
+  );
+  const blockedSteps = steps
+    .slice()
+    .sort((a, b) => a.order - b.order)
+    .filter((s) => statuses.get(s.id)?.state === "blocked");
+
+  const defaultTrendStep = resultsInOrder
+    .map((r) => stepsById.get(r.step_id)!)
+    .find((s) => !!s.limit_metric?.trim());
+  const trendStepId = trend ? trend.stepId : defaultTrendStep?.id ?? null;
+  const trendMetric = trend ? trend.metric : defaultTrendStep?.limit_metric?.trim() ?? "";
+
   async function handleDownloadZip() {
     try {
-      const token = getToken();
-      const res = await fetch(
-        `${API_BASE_URL}/reports/unit/${encodeURIComponent(data.unit.id)}/zip`,
-        {
-          headers: token ? { Authorization: `Bearer ${token}` } : undefined,
-        }
-      );
-      if (!res.ok) throw new Error(await res.text());
-
-      const blob = await res.blob();
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${data.unit.id}_logs.zip`;
-      document.body.appendChild(a);
-      a.click();
-      a.remove();
-      URL.revokeObjectURL(url);
-    } catch (err: any) {
-      prompt.alert(`Download failed: ${err.message || err}`, "Download Error");
+      await downloadUnitEvidenceZip(data.unit.id);
+    } catch (err) {
+      prompt.alert(`Download failed: ${getErrorMessage(err)}`, "Download Error");
     }
   }
 
   async function handleDownloadTraveller() {
     try {
-      const token = getToken();
-      const res = await fetch(
-        `${API_BASE_URL}/reports/unit/${encodeURIComponent(
-          data.unit.id
-        )}/traveller.xlsx`,
-        {
-          headers: token ? { Authorization: `Bearer ${token}` } : undefined,
-        }
-      );
-      if (!res.ok) throw new Error(await res.text());
-
-      const blob = await res.blob();
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${data.unit.id}_traveller.xlsx`;
-      document.body.appendChild(a);
-      a.click();
-      a.remove();
-      URL.revokeObjectURL(url);
-    } catch (err: any) {
+      await downloadUnitTraveller(data.unit.id);
+    } catch (err) {
       prompt.alert(
-        `Download traveller log failed: ${err.message || err}`,
+        `Download traveller log failed: ${getErrorMessage(err)}`,
         "Download Error"
       );
     }
@@ -198,35 +220,17 @@ export default function UnitDetailPage() {
 
   async function handleDownloadStepLogs(stepId: number) {
     try {
-      const token = getToken();
-      const res = await fetch(
-        `${API_BASE_URL}/reports/unit/${encodeURIComponent(
-          data.unit.id
-        )}/step/${stepId}/zip`,
-        {
-          headers: token ? { Authorization: `Bearer ${token}` } : undefined,
-        }
-      );
-      if (!res.ok) throw new Error(await res.text());
-
-      const blob = await res.blob();
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${data.unit.id}_step${stepId}_logs.zip`;
-      document.body.appendChild(a);
-      a.click();
-      a.remove();
-      URL.revokeObjectURL(url);
-    } catch (err: any) {
+      await downloadStepLogs(data.unit.id, stepId);
+    } catch (err) {
       prompt.alert(
-        `Download step logs failed: ${err.message || err}`,
+        `Download step logs failed: ${getErrorMessage(err)}`,
         "Download Error"
       );
     }
   }
 
   async function handleRemoveStepLogs(stepId: number) {
+    if (!canDeleteEvidence) return;
     const ok = await prompt.confirm(
       "Remove all log files for this step?",
       "Remove Evidence",
@@ -235,22 +239,10 @@ export default function UnitDetailPage() {
     if (!ok) return;
 
     try {
-      const token = getToken();
-      const res = await fetch(
-        `${API_BASE_URL}/reports/unit/${encodeURIComponent(
-          data.unit.id
-        )}/step/${stepId}/evidence`,
-        {
-          method: "DELETE",
-          headers: token ? { Authorization: `Bearer ${token}` } : undefined,
-        }
-      );
-      if (!res.ok) throw new Error(await res.text());
-
-      await qc.invalidateQueries({ queryKey: ["unit", unitId] });
-    } catch (err: any) {
+      await removeEvidence.mutateAsync({ unitId: data.unit.id, stepId });
+    } catch (err) {
       prompt.alert(
-        `Failed to remove logs: ${err.message || err}`,
+        `Failed to remove logs: ${getErrorMessage(err)}`,
         "Remove Error"
       );
     }
@@ -262,6 +254,7 @@ export default function UnitDetailPage() {
   }
 
   async function handleConfirmRename() {
+    if (!canRename) return;
     const trimmed = (renameValue || "").trim();
     if (!trimmed || trimmed === unitLabel) {
       setIsRenameOpen(false);
@@ -276,21 +269,7 @@ export default function UnitDetailPage() {
     if (!confirm) return;
 
     try {
-      const token = getToken();
-      const res = await fetch(
-        `${API_BASE_URL}/units/${encodeURIComponent(data.unit.id)}/rename`,
-        {
-          method: "PATCH",
-          headers: {
-            "Content-Type": "application/json",
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-          body: JSON.stringify({ new_unit_id: trimmed }),
-        }
-      );
-      if (!res.ok) throw new Error(await res.text());
-
-      await qc.invalidateQueries({ queryKey: ["units"] });
+      await renameUnit.mutateAsync({ oldId: data.unit.id, newId: trimmed });
       setIsRenameOpen(false);
 
       prompt.alert(
@@ -300,8 +279,8 @@ export default function UnitDetailPage() {
 
       // IMPORTANT: encode the new id in the URL (handles #, spaces, etc.)
       navigate(`/units/${encodeURIComponent(trimmed)}`, { replace: true });
-    } catch (err: any) {
-      prompt.alert(`Rename failed: ${err.message || err}`, "Rename Error");
+    } catch (err) {
+      prompt.alert(`Rename failed: ${getErrorMessage(err)}`, "Rename Error");
     }
   }
 
@@ -309,7 +288,7 @@ export default function UnitDetailPage() {
     assignmentId: string | undefined,
     currentSkipped: boolean | undefined
   ) {
-    if (!assignmentId) return;
+    if (!assignmentId || !canMarkNA || !unitId) return;
 
     const makeSkipped = !currentSkipped;
 
@@ -323,29 +302,33 @@ export default function UnitDetailPage() {
     }
 
     try {
-      const token = getToken();
-      const res = await fetch(
-        `${API_BASE_URL}/assignments/${encodeURIComponent(assignmentId)}`,
-        {
-          method: "PATCH",
-          headers: {
-            "Content-Type": "application/json",
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-          body: JSON.stringify({ skipped: makeSkipped }),
-        }
-      );
-      if (!res.ok) throw new Error(await res.text());
-
-      await qc.invalidateQueries({ queryKey: ["unit", unitId] });
-    } catch (err: any) {
+      await setStepSkipped.mutateAsync({ id: assignmentId, unitId, skipped: makeSkipped });
+    } catch (err) {
       prompt.alert(
-        `Failed to update step: ${err.message || err}`,
+        `Failed to update step: ${getErrorMessage(err)}`,
         "Update Error"
       );
     }
   }
 
+  function toggleHistory(stepId: number) {
+    setOpenHistory((prev) => {
+      const next = new Set(prev);
+      if (next.has(stepId)) next.delete(stepId);
+      else next.add(stepId);
+      return next;
+    });
+  }
+
+  function toggleEvidence(stepId: number) {
+    setOpenEvidence((prev) => {
+      const next = new Set(prev);
+      if (next.has(stepId)) next.delete(stepId);
+      else next.add(stepId);
+      return next;
+    });
+  }
+
   function toggleStepSelection(stepId: number) {
     setSelectedSteps((prev) => {
       const next = new Set(prev);
@@ -366,7 +349,7 @@ export default function UnitDetailPage() {
 }
 
   async function handleBulkSkip(makeSkipped: boolean) {
-    if (selectedSteps.size === 0) return;
+    if (selectedSteps.size === 0 || !canMarkNA || !unitId) return;
   
     const ok = await prompt.confirm(
       `Apply "${makeSkipped ? "Mark N/A" : "Undo N/A"}" to ${
@@ -378,57 +361,29 @@ export default function UnitDetailPage() {
     if (!ok) return;
   
     try {
-      const token = getToken();
-  
       const promises = Array.from(selectedSteps).map((stepId) => {
         const a = assignmentsByStep.get(stepId);
         if (!a?.id) return Promise.resolve();
-  
-        return fetch(
-          `${API_BASE_URL}/assignments/${encodeURIComponent(a.id)}`,
-          {
-            method: "PATCH",
-            headers: {
-              "Content-Type": "application/json",
-              ...(token ? { Authorization: `Bearer ${token}` } : {}),
-            },
-            body: JSON.stringify({ skipped: makeSkipped }),
-          }
-        );
+        return setStepSkipped.mutateAsync({ id: a.id, unitId, skipped: makeSkipped });
       });
-  
+
       await Promise.all(promises);
-  
+
       setSelectedSteps(new Set());
-      await qc.invalidateQueries({ queryKey: ["unit", unitId] });
-    } catch (err: any) {
-      prompt.alert(`Bulk update failed: ${err.message}`, "Error");
+    } catch (err) {
+      prompt.alert(`Bulk update failed: ${getErrorMessage(err)}`, "Error");
     }
   }
   async function saveRemark(assignId: string, value: string | null) {
+    if (!canEditRemarks || !unitId) return;
     try {
-      const token = getToken();
-      const res = await fetch(
-        `${API_BASE_URL}/tester/assignments/${encodeURIComponent(assignId)}`,
-        {
-          method: "PATCH",
-          headers: {
-            "Content-Type": "application/json",
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-          body: JSON.stringify({ remark: value }),
-        }
-      );
-  
-      if (!res.ok) throw new Error(await res.text());
-  
-      await qc.invalidateQueries({ queryKey: ["unit", unitId] });
-  
+      await updateRemark.mutateAsync({ id: assignId, unitId, remark: value });
+
       setEditingRemarkId(null);
       setRemarkDraft("");
-    } catch (err: any) {
+    } catch (err) {
       prompt.alert(
-        `Failed to save remark: ${err.message || err}`,
+        `Failed to save remark: ${getErrorMessage(err)}`,
         "Remark Error"
       );
     }
@@ -472,26 +427,51 @@ export default function UnitDetailPage() {
             <div className="unit-detail-meta-row">
               <span className="unit-detail-meta-label">Unit ID</span>
               <span className="unit-detail-meta-value">{unitLabel}</span>
+              {canRename && (
+                <button
+                  type="button"
+                  className="btn btn-outline btn-xs"
+                  onClick={openRenameModal}
+                >
+                  Rename unit
+                </button>
+              )}
+            </div>
+            {(
+              [
+                ["SKU", data.unit.sku],
+                ["REV", data.unit.rev],
+                ["LOT", data.unit.lot],
+                ["Serial", data.unit.serial],
+                ["Customer", data.unit.customer],
+                ["Priority", data.unit.priority && PRIORITY_LABELS[data.unit.priority]],
+                ["Due date", data.unit.due_date?.slice(0, 10)],
+                [
+                  "Test plan",
+                  testPlan
+                    ? `${testPlan.name}${testPlan.version != null ? ` v${testPlan.version}` : ""}`
+                    : data.unit.test_plan_id
+                      ? ""
+                      : "All steps",
+                ],
+                ["Catalog", data.unit.plan_version != null && `v${data.unit.plan_version}`],
+              ] as const
+            ).map(([label, value]) => (
+              <div key={label} className="unit-detail-meta-row">
+                <span className="unit-detail-meta-label">{label}</span>
+                <span className="unit-detail-meta-value">{value || "-"}</span>
+              </div>
+            ))}
+            {canEditUnit && (
               <button
                 type="button"
                 className="btn btn-outline btn-xs"
-                onClick={openRenameModal}
+                style={{ alignSelf: "flex-start", marginTop: 6 }}
+                onClick={() => setIsEditOpen(true)}
               >
-                Rename unit
+                Edit details
               </button>
-            </div>
-            <div className="unit-detail-meta-row">
-              <span className="unit-detail-meta-label">SKU</span>
-              <span className="unit-detail-meta-value">
-                {data.unit.sku || "-"}
-              </span>
-            </div>
-            <div className="unit-detail-meta-row">
-              <span className="unit-detail-meta-label">LOT</span>
-              <span className="unit-detail-meta-value">
-                {data.unit.lot || "-"}
-              </span>
-            </div>
+            )}
           </div>
 
           <div className="unit-detail-actions">
@@ -513,29 +493,74 @@ export default function UnitDetailPage() {
         </div>
       </section>
 
-      <section className="card unit-detail-steps-card">
+      <section className="card unit-detail-ncr-card">
         <div className="card__header">
-          <div style={{ marginTop: 10, display: "flex", gap: 8 }}>
-            <button
-              className="btn btn-outline btn-sm"
-              disabled={selectedSteps.size === 0}
-              onClick={() => handleBulkSkip(true)}
-            >
-              Mark selected N/A
-            </button>
-          
-            <button
-              className="btn btn-secondary btn-sm"
-              disabled={selectedSteps.size === 0}
-              onClick={() => handleBulkSkip(false)}
-            >
-              Undo N/A
-            </button>
+          <div>
+            <div className="card__title">
+              Non-conformance
+              {openNcrCount > 0 && (
+                <span className="ncr-count-badge">{openNcrCount} open</span>
+              )}
+            </div>
+            <div className="card__subtitle">
+              Dispositions for failed steps. Later steps stay blocked until each NCR is closed.
+            </div>
           </div>
+        </div>
+        <NcrPanel unitId={unitId} ncrs={ncrs} stepsById={stepsById} />
+      </section>
+
+      <section className="card unit-detail-graph-card">
+        <div className="card__header">
+          <div>
+            <div className="card__title">Step dependencies</div>
+            <div className="card__subtitle">
+              Each step starts once the steps it needs have passed; steps in the same column can
+              run in parallel.
+            </div>
+          </div>
+        </div>
+        <StepDependencyGraph steps={steps} statuses={statuses} />
+        {blockedSteps.length > 0 && (
+          <ul className="step-graph__blocked">
+            {blockedSteps.map((s) => (
+              <li key={s.id}>
+                <strong>
+                  {s.order}. {s.name}
+                </strong>
+                : {statuses.get(s.id)!.reasons.join("; ")}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="card unit-detail-steps-card">
+        <div className="card__header">
+          {canMarkNA && (
+            <div style={{ marginTop: 10, display: "flex", gap: 8 }}>
+              <button
+                className="btn btn-outline btn-sm"
+                disabled={selectedSteps.size === 0}
+                onClick={() => handleBulkSkip(true)}
+              >
+                Mark selected N/A
+              </button>
+
+              <button
+                className="btn btn-secondary btn-sm"
+                disabled={selectedSteps.size === 0}
+                onClick={() => handleBulkSkip(false)}
+              >
+                Undo N/A
+              </button>
+            </div>
+          )}
           <div>
             <div className="card__title">Test steps</div>
             <div className="card__subtitle">
-              Assignment status, tester, result, and log evidence for each step.
+              Assignment status, tester, result, and log evidence for each step
+              {testPlan ? ` of the ${testPlan.name} plan` : ""}.
             </div>
           </div>
         </div>
@@ -544,13 +569,15 @@ export default function UnitDetailPage() {
           <table className="unit-detail-table">
             <thead>
               <tr>
-                <th>
-                  <input
-                    type="checkbox"
-                    checked={steps && selectedSteps.size === steps.length}
-                    onChange={toggleSelectAll}
-                  />
-                </th>
+                {canMarkNA && (
+                  <th>
+                    <input
+                      type="checkbox"
+                      checked={steps && selectedSteps.size === steps.length}
+                      onChange={toggleSelectAll}
+                    />
+                  </th>
+                )}
                 <th>#</th>
                 <th>Step</th>
                 <th>Tester</th>
@@ -558,7 +585,7 @@ export default function UnitDetailPage() {
                 <th>Finished at</th>
                 <th>Remark</th>
                 <th>Logs</th>
-                <th>Action</th>
+                {canMarkNA && <th>Action</th>}
 
               </tr>
             </thead>
@@ -589,136 +616,225 @@ export default function UnitDetailPage() {
                   }
 
                   const fileCount = r?.files?.length ?? 0;
+                  const evidenceOpen = fileCount > 0 && openEvidence.has(s.id);
+                  const attempts = attemptsForStep.get(s.id) ?? [];
+                  const historyOpen = attempts.length > 0 && openHistory.has(s.id);
+                  const stepNcr = r ? ncrByResult.get(r.id) : undefined;
+                  const gatedBy = ncrGates.get(s.id) ?? [];
 
                   return (
-                    <tr key={s.id} className={skipped ? "row-skipped" : ""}>
-                      <td>
-                        <input
-                          type="checkbox"
-                          checked={selectedSteps.has(s.id)}
-                          onChange={() => toggleStepSelection(s.id)}
-                        />
-                      </td>
-                      <td>{s.order}</td>
-                      <td>{s.name}</td>
-                      <td>{a?.tester_id || "-"}</td>
-                      <td>
-                        {skipped ? (
-                          <span className="result-pill result-pill--none">N/A</span>
-                        ) : (
-                          <span className={resultClass}>{resultLabel}</span>
-                        )}
-                      </td>
-                      <td>{pickDisplayDate(a, r)}</td>
-                      <td style={{ maxWidth: 280 }}>
-                        {editingRemarkId === a?.id ? (
-                          <div className="unit-detail-remark-edit">
-                            <textarea
-                              value={remarkDraft}
-                              onChange={(e) => setRemarkDraft(e.target.value)}
-                              rows={3}
-                              className="scheduler-field"
-                              placeholder="Enter remark… (Markdown supported)"
-                              style={{ width: "100%", resize: "vertical" }}
+                    <Fragment key={s.id}>
+                      <tr className={skipped ? "row-skipped" : ""}>
+                        {canMarkNA && (
+                          <td>
+                            <input
+                              type="checkbox"
+                              checked={selectedSteps.has(s.id)}
+                              onChange={() => toggleStepSelection(s.id)}
                             />
-                      
-                            <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+                          </td>
+                        )}
+                        <td>{s.order}</td>
+                        <td>{s.name}</td>
+                        <td>{a?.tester_id || "-"}</td>
+                        <td>
+                          {skipped ? (
+                            <span className="result-pill result-pill--none">N/A</span>
+                          ) : (
+                            <span className={resultClass}>{resultLabel}</span>
+                          )}
+                          {stepNcr ? (
+                            <span
+                              className={`ncr-status ncr-status--${stepNcr.status.toLowerCase()}`}
+                              title={ncrLabel(stepNcr)}
+                            >
+                              NCR: {NCR_STATUS_LABELS[stepNcr.status]}
+                            </span>
+                          ) : (
+                            r &&
+                            !r.passed &&
+                            canRaiseNcr && (
                               <button
-                                className="btn btn-primary btn-xs"
-                                onClick={() => saveRemark(a.id, remarkDraft.trim() || null)}
+                                type="button"
+                                className="btn btn-danger-outline btn-xs unit-detail-attempts"
+                                onClick={() => setRaiseNcrFor(s.id)}
                               >
-                                Save
+                                Raise NCR
                               </button>
+                            )
+                          )}
+                          {gatedBy.length > 0 && (
+                            <span
+                              className="ncr-gate-pill"
+                              title={`Blocked until closed: ${gatedBy.map(ncrLabel).join(", ")}`}
+                            >
+                              Blocked by NCR
+                            </span>
+                          )}
+                          {attempts.length > 0 && (
+                            <button
+                              type="button"
+                              className={
+                                "btn btn-ghost btn-xs unit-detail-attempts" +
+                                (passedAfterRetest(attempts)
+                                  ? " unit-detail-attempts--retest"
+                                  : "")
+                              }
+                              title="Show attempt history"
+                              onClick={() => toggleHistory(s.id)}
+                            >
+                              {historyOpen ? "▾" : "▸"}{" "}
+                              {attempts.length > 1
+                                ? `${attempts.length} attempts`
+                                : "History"}
+                            </button>
+                          )}
+                        </td>
+                        <td>{pickDisplayDate(a, r)}</td>
+                        <td style={{ maxWidth: 280 }}>
+                          {editingRemarkId === a?.id ? (
+                            <div className="unit-detail-remark-edit">
+                              <textarea
+                                value={remarkDraft}
+                                onChange={(e) => setRemarkDraft(e.target.value)}
+                                rows={3}
+                                className="scheduler-field"
+                                placeholder="Enter remark… (Markdown supported)"
+                                style={{ width: "100%", resize: "vertical" }}
+                              />
                       
-                              <button
-                                className="btn btn-outline btn-xs"
-                                onClick={() => {
-                                  setEditingRemarkId(null);
-                                  setRemarkDraft("");
-                                }}
-                              >
-                                Cancel
-                              </button>
+                              <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+                                <button
+                                  className="btn btn-primary btn-xs"
+                                  onClick={() => saveRemark(a.id, remarkDraft.trim() || null)}
+                                >
+                                  Save
+                                </button>
                       
-                              <button
-                                className="btn btn-danger-outline btn-xs"
-                                onClick={() => saveRemark(a.id, null)}
-                              >
-                                Clear
-                              </button>
+                                <button
+                                  className="btn btn-outline btn-xs"
+                                  onClick={() => {
+                                    setEditingRemarkId(null);
+                                    setRemarkDraft("");
+                                  }}
+                                >
+                                  Cancel
+                                </button>
+                      
+                                <button
+                                  className="btn btn-danger-outline btn-xs"
+                                  onClick={() => saveRemark(a.id, null)}
+                                >
+                                  Clear
+                                </button>
+                              </div>
                             </div>
-                          </div>
-                        ) : a?.remark ? (
-                          <div className="unit-detail-remark">
-                            <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                              {a.remark}
-                            </ReactMarkdown>
+                          ) : a?.remark ? (
+                            <div className="unit-detail-remark">
+                              <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                                {a.remark}
+                              </ReactMarkdown>
                       
+                              {canEditRemarks && (
+                                <button
+                                  className="btn btn-outline btn-xs"
+                                  style={{ marginTop: 6 }}
+                                  onClick={() => {
+                                    setEditingRemarkId(a.id);
+                                    setRemarkDraft(a.remark || "");
+                                  }}
+                                >
+                                  Edit
+                                </button>
+                              )}
+                            </div>
+                          ) : canEditRemarks ? (
                             <button
                               className="btn btn-outline btn-xs"
-                              style={{ marginTop: 6 }}
                               onClick={() => {
                                 setEditingRemarkId(a.id);
-                                setRemarkDraft(a.remark || "");
+                                setRemarkDraft("");
                               }}
                             >
-                              Edit
+                              Add remark
                             </button>
-                          </div>
-                        ) : (
-                          <button
-                            className="btn btn-outline btn-xs"
-                            onClick={() => {
-                              setEditingRemarkId(a.id);
-                              setRemarkDraft("");
-                            }}
-                          >
-                            Add remark
-                          </button>
-                        )}
-                      </td>
-
-
-                      <td>
-                        {fileCount === 0 ? (
-                          <span className="unit-detail-evidence-empty">
-                            No files
-                          </span>
-                        ) : (
-                          <div className="unit-detail-evidence">
-                            <span className="unit-detail-evidence-count">
-                              {fileCount} file{fileCount !== 1 ? "s" : ""}
+                          ) : (
+                            "-"
+                          )}
+                        </td>
+
+
+                        <td>
+                          {fileCount === 0 ? (
+                            <span className="unit-detail-evidence-empty">
+                              No files
                             </span>
-                            <div className="unit-detail-evidence-actions">
-                              <button
-                                type="button"
-                                className="btn btn-outline btn-xs"
-                                onClick={() => handleDownloadStepLogs(s.id)}
-                              >
-                                Download
-                              </button>
-                              <button
-                                type="button"
-                                className="btn btn-danger-outline btn-xs"
-                                onClick={() => handleRemoveStepLogs(s.id)}
-                              >
-                                Remove
-                              </button>
+                          ) : (
+                            <div className="unit-detail-evidence">
+                              <span className="unit-detail-evidence-count">
+                                {fileCount} file{fileCount !== 1 ? "s" : ""}
+                              </span>
+                              <div className="unit-detail-evidence-actions">
+                                <button
+                                  type="button"
+                                  className="btn btn-outline btn-xs"
+                                  onClick={() => toggleEvidence(s.id)}
+                                >
+                                  {evidenceOpen ? "Hide files" : "Files"}
+                                </button>
+                                <button
+                                  type="button"
+                                  className="btn btn-outline btn-xs"
+                                  title="Download all files for this step (ZIP)"
+                                  onClick={() => handleDownloadStepLogs(s.id)}
+                                >
+                                  ZIP
+                                </button>
+                                {canDeleteEvidence && (
+                                  <button
+                                    type="button"
+                                    className="btn btn-danger-outline btn-xs"
+                                    onClick={() => handleRemoveStepLogs(s.id)}
+                                  >
+                                    Remove all
+                                  </button>
+                                )}
+                              </div>
                             </div>
-                          </div>
+                          )}
+                        </td>
+                        {canMarkNA && (
+                          <td>
+                            <button
+                              className={`btn btn-xs ${
+                                skipped ? "btn-secondary" : "btn-outline"
+                              }`}
+                              onClick={() => handleToggleSkip(a?.id, a?.skipped)}
+                            >
+                              {skipped ? "Undo N/A" : "Mark N/A"}
+                            </button>
+                          </td>
                         )}
-                      </td>
-                      <td>
-                        <button
-                          className={`btn btn-xs ${
-                            skipped ? "btn-secondary" : "btn-outline"
-                          }`}
-                          onClick={() => handleToggleSkip(a?.id, a?.skipped)}
-                        >
-                          {skipped ? "Undo N/A" : "Mark N/A"}
-                        </button>
-                      </td>
-                    </tr>
+                      </tr>
+                      {historyOpen && (
+                        <tr className="unit-detail-history-row">
+                          <td colSpan={canMarkNA ? 9 : 7}>
+                            <AttemptTimeline unitId={unitId} step={s} attempts={attempts} />
+                          </td>
+                        </tr>
+                      )}
+                      {evidenceOpen && (
+                        <tr className="unit-detail-evidence-row">
+                          <td colSpan={canMarkNA ? 9 : 7}>
+                            <EvidencePanel
+                              unitId={unitId}
+                              stepId={s.id}
+                              canDelete={canDeleteEvidence}
+                            />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
                   );
                 })}
             </tbody>
@@ -726,6 +842,65 @@ export default function UnitDetailPage() {
         </div>
       </section>
 
+      <section className="card unit-detail-metrics-card">
+        <div className="card__header">
+          <div>
+            <div className="card__title">Metrics</div>
+            <div className="card__subtitle">
+              Recorded measurements per result, and how a metric compares across units.
+            </div>
+          </div>
+        </div>
+
+        {resultsInOrder.length === 0 ? (
+          <p className="text-muted">No results recorded yet.</p>
+        ) : (
+          <div className="unit-detail-metrics-grid">
+            {resultsInOrder.map((r) => (
+              <ResultMetrics
+                key={r.id}
+                result={r}
+                step={stepsById.get(r.step_id)!}
+                onShowTrend={(metric) => setTrend({ stepId: r.step_id, metric })}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="card__title unit-detail-trend-title">Trend across units</div>
+        <MetricTrendChart
+          steps={steps}
+          stepId={trendStepId}
+          metricKey={trendMetric}
+          currentUnitId={data.unit.id}
+          onChange={(stepId, metric) => setTrend({ stepId, metric })}
+          onOpenUnit={(id) => navigate(`/units/${encodeURIComponent(id)}`)}
+        />
+      </section>
+
+      {raiseNcrFor !== null && resultsByStep.get(raiseNcrFor) && stepsById.get(raiseNcrFor) && (
+        <NcrRaiseModal
+          unitId={unitId}
+          step={stepsById.get(raiseNcrFor)!}
+          result={resultsByStep.get(raiseNcrFor)!}
+          onClose={() => setRaiseNcrFor(null)}
+        />
+      )}
+
+      {isEditOpen && (
+        <UnitFormModal
+          mode="edit"
+          initial={unitToFormValues(unitLabel, data.unit)}
+          onSubmit={async (_id, fields) => {
+            await updateUnit.mutateAsync({
+              unitId: data.unit.id,
+              fields: { ...fields, version: data.unit.version },
+            });
+          }}
+          onClose={() => setIsEditOpen(false)}
+        />
+      )}
+
       {isRenameOpen && (
         <div className="prompt-backdrop">
           <div className="prompt-modal">
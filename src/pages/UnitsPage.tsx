@@ -1,9 +1,21 @@
 // src/pages/UnitsPage.tsx
-import { useState, FormEvent, useMemo } from "react";
-import { useUnits, useCreateUnit, useDeleteUnit, useRenameUnit } from "../hooks";
+import { useState, useMemo } from "react";
+import {
+  useUnits,
+  useCreateUnit,
+  useDeleteUnit,
+  useRenameUnit,
+  usePermissions,
+  useTestPlans,
+} from "../hooks";
 import UnitCard from "../components/UnitCard";
-import { getRole, getToken, API_BASE_URL } from "../api";
+import { downloadBulkTraveller, getErrorMessage } from "../api";
 import { usePrompt } from "../components/PromptProvider";
+import UnitFormModal from "../components/UnitFormModal";
+import UnitFilterBar from "../components/UnitFilterBar";
+import UnitImportWizard from "../components/UnitImportWizard";
+import { EMPTY_UNIT_FILTERS, EMPTY_UNIT_FORM, matchesUnitFilters } from "../units";
+import type { UnitFilters } from "../units";
 
 
 type StatusFilter = "all" | "active" | "completed";
@@ -11,26 +23,25 @@ type SortBy = "unit" | "progress";
 
 export default function UnitsPage() {
   const prompt = usePrompt();
-  const role = getRole();
-  const isSupervisor = role === "supervisor";
+  const { can } = usePermissions();
+  const canCreate = can("units:create");
+  const canDelete = can("units:delete");
+  const canDownload = can("reports:bulk_download");
 
   const { data, isLoading, error } = useUnits();
-  const [newUnitId, setNewUnitId] = useState("");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const createUnit = useCreateUnit();
+  const { data: testPlans } = useTestPlans();
   const deleteUnit = useDeleteUnit();
   const renameUnit = useRenameUnit();
 
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
   const [sortBy, setSortBy] = useState<SortBy>("unit");
+  const [filters, setFilters] = useState<UnitFilters>(EMPTY_UNIT_FILTERS);
 
   const [selectedUnits, setSelectedUnits] = useState<string[]>([]);
 
-  function handleCreate(e: FormEvent) {
-    e.preventDefault();
-    if (!newUnitId.trim()) return;
-    createUnit.mutate(newUnitId.trim());
-    setNewUnitId("");
-  }
 
   async function handleDelete(unitId: string) {
     const ok = await prompt.confirm(
@@ -53,61 +64,38 @@ export default function UnitsPage() {
 
     try {
       await renameUnit.mutateAsync({ oldId: unitId, newId: trimmed });
-    } catch (err: any) {
-      alert(
-        err?.response?.data?.detail ??
-          err?.message ??
+    } catch (err) {
+      prompt.alert(
+        getErrorMessage(
+          err,
           "Failed to rename unit. The new ID may already exist or be invalid."
+        ),
+        "Rename Error"
       );
     }
   }
 
 
   async function handleBulkDownloadTraveller() {
-  if (selectedUnits.length === 0) return;
-
-  try {
-    const token = getToken();
-    const res = await fetch(
-      `${API_BASE_URL}/reports/traveller/bulk.xlsx`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-        body: JSON.stringify({ unit_ids: selectedUnits }),
-      }
-    );
-
+    if (selectedUnits.length === 0) return;
 
-    if (!res.ok) {
-      throw new Error(await res.text());
+    try {
+      await downloadBulkTraveller(selectedUnits);
+    } catch (err) {
+      prompt.alert(
+        `Bulk traveller download failed: ${getErrorMessage(err)}`,
+        "Download Error"
+      );
     }
-
-    const blob = await res.blob();
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "traveller_logs.xlsx";
-    document.body.appendChild(a);
-    a.click();
-    a.remove();
-    URL.revokeObjectURL(url);
-  } catch (err: any) {
-    prompt.alert(
-      `Bulk traveller download failed: ${err.message || err}`,
-      "Download Error"
-    );
   }
-}
 
   const stats = useMemo(() => {
     if (!data) return null;
     const total = data.length;
     const completed = data.filter((u) => u.status === "COMPLETED").length;
     const active = total - completed;
-    return { total, active, completed };
+    const openNcrs = data.reduce((n, u) => n + (u.open_ncr_count ?? 0), 0);
+    return { total, active, completed, openNcrs };
   }, [data]);
 
   const visibleUnits = useMemo(() => {
@@ -121,6 +109,7 @@ export default function UnitsPage() {
     } else if (statusFilter === "completed") {
       list = list.filter((u) => u.status === "COMPLETED");
     }
+    list = list.filter((u) => matchesUnitFilters(u, filters));
 
     // Sort
     if (sortBy === "unit") {
@@ -130,7 +119,7 @@ export default function UnitsPage() {
     }
 
     return list;
-  }, [data, statusFilter, sortBy]);
+  }, [data, statusFilter, sortBy, filters]);
 
   return (
     <div className="page">
@@ -154,6 +143,14 @@ export default function UnitsPage() {
               <span className="units-summary-label">Completed</span>
               <span className="units-summary-value">{stats.completed}</span>
             </div>
+            <div
+              className={
+                "units-summary-chip" + (stats.openNcrs > 0 ? " units-summary-chip--alert" : "")
+              }
+            >
+              <span className="units-summary-label">Open NCRs</span>
+              <span className="units-summary-value">{stats.openNcrs}</span>
+            </div>
           </div>
         )}
       </header>
@@ -161,25 +158,32 @@ export default function UnitsPage() {
       {/* Single control card: create + filter together */}
       <section className="card">
         <div className="units-controls-grid">
-          {isSupervisor && (
+          {canCreate && (
             <div className="units-controls-panel">
               <div>
                 <div className="card__title">Create new unit</div>
                 <div className="card__subtitle">
-                  Add a unit ID to start tracking its tests.
+                  Add a unit with its SKU, revision, lot and due date to start tracking its
+                  tests, or import a batch from a spreadsheet.
                 </div>
               </div>
 
-              <form className="unit-create-form" onSubmit={handleCreate}>
-                <input
-                  className="form-control"
-                  value={newUnitId}
-                  onChange={(e) => setNewUnitId(e.target.value)}
-                />
-                <button type="submit" className="btn btn-primary">
-                  Create unit
+              <div style={{ display: "flex", gap: 8 }}>
+                <button
+                  type="button"
+                  className="btn btn-primary"
+                  onClick={() => setIsCreateOpen(true)}
+                >
+                  New unit…
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-outline"
+                  onClick={() => setIsImportOpen(true)}
+                >
+                  Import CSV / XLSX…
                 </button>
-              </form>
+              </div>
             </div>
           )}
 
@@ -220,6 +224,8 @@ export default function UnitsPage() {
               </div>
             </div>
 
+            <UnitFilterBar units={data ?? []} filters={filters} onChange={setFilters} />
+
             {isLoading && <p className="text-muted">Loading units…</p>}
             {error && (
               <p className="text-error">
@@ -240,7 +246,7 @@ export default function UnitsPage() {
               </p>
             )}
             
-            {isSupervisor && (
+            {canDownload && (
               <button
                 type="button"
                 className="btn btn-secondary"
@@ -260,18 +266,20 @@ export default function UnitsPage() {
         <section className="units-grid">
           {visibleUnits.map((u) => (
             <div key={u.unit_id} className="unit-wrapper">
-              {/* Delete button only for supervisor */}
-              {isSupervisor && (
-                <>
-                  <button
-                    type="button"
-                    onClick={() => handleDelete(u.unit_id)}
-                    className="unit-delete-btn"
-                    title="Delete unit"
-                  >
-                    ×
-                  </button>
+              {/* Delete button only for users allowed to delete */}
+              {canDelete && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(u.unit_id)}
+                  className="unit-delete-btn"
+                  title="Delete unit"
+                >
+                  ×
+                </button>
+              )}
 
+              {canDownload && (
+                <>
                   {/* ✅ select for bulk traveller log */}
                   <input
                     type="checkbox"
@@ -300,6 +308,23 @@ export default function UnitsPage() {
           ))}
         </section>
       )}
+
+      {isCreateOpen && (
+        <UnitFormModal
+          mode="create"
+          initial={EMPTY_UNIT_FORM}
+          existingIds={(data ?? []).map((u) => u.unit_id)}
+          plans={testPlans}
+          onSubmit={async (unit_id, fields, test_plan_id) => {
+            await createUnit.mutateAsync({ unit_id, ...fields, test_plan_id });
+          }}
+          onClose={() => setIsCreateOpen(false)}
+        />
+      )}
+
+      {isImportOpen && (
+        <UnitImportWizard units={data ?? []} onClose={() => setIsImportOpen(false)} />
+      )}
     </div>
   );
 }
@@ -1,27 +1,49 @@
 // src/pages/UploadResultPage.tsx
 import React, { FormEvent, useMemo, useState } from "react";
-import { useQueryClient } from "@tanstack/react-query";
-import { useUnits, useSteps } from "../hooks";
-import { createResult, uploadEvidence } from "../api";
+import { useSearchParams } from "react-router-dom";
+import { useCreateResult, useUnits, useUnitSteps, useUnitNcrs } from "../hooks";
+import { addUploads } from "../uploads";
+import EvidenceUploads from "../components/EvidenceUploads";
+import {
+  VERDICT_OVERRIDE_KEY,
+  buildMetricsPayload,
+  evaluateLimit,
+  formatLimit,
+  hasLimit,
+  metricFieldsForStep,
+} from "../metrics";
+import type { Verdict, VerdictOverride } from "../metrics";
+import { ncrLabel, ncrsGatingStep } from "../ncr";
 
 export default function UploadResultPage() {
-  const qc = useQueryClient();
+  const createResult = useCreateResult();
+  // ?unit=&step= preselects the step (tester queue links here for measured steps)
+  const [searchParams] = useSearchParams();
 
   const { data: units, isLoading: unitsLoading, error: unitsError } = useUnits();
-  const { data: steps, isLoading: stepsLoading, error: stepsError } = useSteps();
+  const [unitId, setUnitId] = useState(searchParams.get("unit") ?? "");
 
-  const [unitId, setUnitId] = useState("");
-  const [stepId, setStepId] = useState("");
-  const [passed, setPassed] = useState<"PASS" | "FAIL">("PASS");
+  // Only the steps in the selected unit's test plan (and catalog version)
+  const selectedUnit = units?.find((u) => u.unit_id === unitId);
+  const { data: steps, isLoading: stepsLoading, error: stepsError } = useUnitSteps(selectedUnit);
+
+  const [stepId, setStepId] = useState(searchParams.get("step") ?? "");
+  const [passed, setPassed] = useState<Verdict>("PASS");
+
+  // Metric values keyed by metric name (raw input strings)
+  const [metricValues, setMetricValues] = useState<Record<string, string>>({});
+  const [overrideOn, setOverrideOn] = useState(false);
+  const [overrideVerdict, setOverrideVerdict] = useState<Verdict>("PASS");
+  const [overrideReason, setOverrideReason] = useState("");
 
   // ✅ Finished date starts EMPTY (user must choose)
   const [finishedAt, setFinishedAt] = useState<string>("");
 
   const [resultId, setResultId] = useState<string | null>(null);
   const [files, setFiles] = useState<FileList | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0); // reset the picker
 
   const [submitting, setSubmitting] = useState(false);
-  const [uploading, setUploading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
@@ -30,6 +52,43 @@ export default function UploadResultPage() {
     [steps]
   );
 
+  const selectedStep = useMemo(
+    () => sortedSteps.find((s) => s.id === Number(stepId)) ?? null,
+    [sortedSteps, stepId]
+  );
+
+  // Steps after an open NCR cannot be run until it is closed
+  const { data: ncrs } = useUnitNcrs(unitId);
+  const gatingNcrs = useMemo(() => {
+    if (!selectedStep || !ncrs) return [];
+    return ncrsGatingStep(ncrs, selectedStep, new Map(sortedSteps.map((s) => [s.id, s])));
+  }, [ncrs, selectedStep, sortedSteps]);
+
+  const metricFields = useMemo(
+    () => metricFieldsForStep(selectedStep),
+    [selectedStep]
+  );
+
+  const stepHasLimit = hasLimit(selectedStep);
+  const limitKey = selectedStep?.limit_metric ?? "";
+  const computedVerdict = stepHasLimit
+    ? evaluateLimit(selectedStep, metricValues[limitKey])
+    : null;
+
+  // Steps with a limit use the computed verdict unless the tester overrides it
+  const finalVerdict: Verdict | null = !stepHasLimit
+    ? passed
+    : overrideOn
+    ? overrideVerdict
+    : computedVerdict;
+
+  function resetMetrics() {
+    setMetricValues({});
+    setOverrideOn(false);
+    setOverrideVerdict("PASS");
+    setOverrideReason("");
+  }
+
   async function handleSubmitResult(e: FormEvent) {
     e.preventDefault();
     setMessage(null);
@@ -40,6 +99,39 @@ export default function UploadResultPage() {
       return;
     }
 
+    if (gatingNcrs.length > 0) {
+      setErrorMsg(
+        `This step is blocked until ${gatingNcrs.map(ncrLabel).join(", ")} is closed.`
+      );
+      return;
+    }
+
+    if (stepHasLimit && computedVerdict === null) {
+      setErrorMsg(
+        `Please enter a numeric measured value for "${limitKey}" (limit ${formatLimit(
+          selectedStep
+        )}).`
+      );
+      return;
+    }
+
+    if (overrideOn && !overrideReason.trim()) {
+      setErrorMsg("Please enter a justification for overriding the verdict.");
+      return;
+    }
+
+    if (!finalVerdict) return;
+
+    const metrics: Record<string, unknown> = buildMetricsPayload(metricValues);
+    if (stepHasLimit && overrideOn && overrideVerdict !== computedVerdict) {
+      const override: VerdictOverride = {
+        computed: computedVerdict,
+        chosen: overrideVerdict,
+        justification: overrideReason.trim(),
+      };
+      metrics[VERDICT_OVERRIDE_KEY] = override;
+    }
+
     // ✅ Only send finished_at if user selected a date
     // Use midday to avoid timezone shifting when backend stores tz-aware timestamps
     const finished_at =
@@ -48,21 +140,17 @@ export default function UploadResultPage() {
     try {
       setSubmitting(true);
 
-      const res = await createResult({
+      // refreshes the unit's details (Matrix View, Unit Detail) and the unit list
+      const res = await createResult.mutateAsync({
         unit_id: unitId,
         step_id: Number(stepId),
-        metrics: {},
-        passed: passed === "PASS",
+        metrics,
+        passed: finalVerdict === "PASS",
         finished_at, // ✅ undefined if user didn't pick a date
       });
 
       setResultId(res.id);
       setMessage("Result saved. You can now upload log files for this step.");
-
-      // ✅ refresh matrix + unit detail
-      await qc.invalidateQueries({ queryKey: ["matrixDetails"] });
-      await qc.invalidateQueries({ queryKey: ["unitDetails", unitId] });
-      await qc.invalidateQueries({ queryKey: ["unit", unitId] });
     } catch (err: any) {
       setErrorMsg(`Failed to submit result: ${err?.message || String(err)}`);
     } finally {
@@ -83,30 +171,16 @@ export default function UploadResultPage() {
     setErrorMsg(null);
     setMessage(null);
 
-    try {
-      setUploading(true);
-      const promises: Promise<any>[] = [];
-      for (let i = 0; i < files.length; i++) {
-        const f = files.item(i);
-        if (!f) continue;
-        promises.push(uploadEvidence(unitId, Number(stepId), resultId, f));
-      }
-      await Promise.all(promises);
-
-      setMessage("All files uploaded successfully.");
-
-      // optional refresh (if logs count is shown)
-      await qc.invalidateQueries({ queryKey: ["matrixDetails"] });
-      await qc.invalidateQueries({ queryKey: ["unitDetails", unitId] });
-      await qc.invalidateQueries({ queryKey: ["unit", unitId] });
-    } catch (err: any) {
-      setErrorMsg(`File upload failed: ${err?.message || String(err)}`);
-    } finally {
-      setUploading(false);
-    }
+    // Chunked + resumable; progress is shown per file below
+    addUploads(
+      { unitId, stepId: Number(stepId), resultId },
+      Array.from(files)
+    );
+    setFiles(null);
+    setFileInputKey((k) => k + 1);
   }
 
-  const isPass = passed === "PASS";
+  const isPass = finalVerdict === "PASS";
 
   return (
     <div className="page">
@@ -134,6 +208,14 @@ export default function UploadResultPage() {
       )}
 
       {errorMsg && <div className="banner banner--error">{errorMsg}</div>}
+      {gatingNcrs.length > 0 && (
+        <div className="banner banner--error">
+          {unitId} is held by {gatingNcrs.map(ncrLabel).join(", ")} on an earlier step.
+          {gatingNcrs.some((n) => n.disposition === "SCRAP")
+            ? " The unit has been scrapped, so no further results can be submitted."
+            : " Results for this step can be submitted once it is closed."}
+        </div>
+      )}
       {message && <div className="banner banner--success">{message}</div>}
 
       <div className="upload-layout">
@@ -151,10 +233,14 @@ export default function UploadResultPage() {
               <div
                 className={
                   "result-pill " +
-                  (isPass ? "result-pill--pass" : "result-pill--fail")
+                  (!finalVerdict
+                    ? "result-pill--none"
+                    : isPass
+                    ? "result-pill--pass"
+                    : "result-pill--fail")
                 }
               >
-                {isPass ? "PASS" : "FAIL"}
+                {finalVerdict ?? "—"}
               </div>
             </div>
 
@@ -191,6 +277,7 @@ export default function UploadResultPage() {
                       setStepId(e.target.value);
                       setResultId(null);
                       setMessage(null);
+                      resetMetrics();
                     }}
                   >
                     <option value="">-- select step --</option>
@@ -202,19 +289,106 @@ export default function UploadResultPage() {
                   </select>
                 </div>
 
+                {/* Measured metrics (from step definition) */}
+                {metricFields.length > 0 && (
+                  <div className="upload-metrics">
+                    <div className="upload-context-label">Measured values</div>
+                    {stepHasLimit && (
+                      <div className="upload-helper">
+                        Limit: <strong>{formatLimit(selectedStep)}</strong>
+                      </div>
+                    )}
+                    <div className="upload-metrics-grid">
+                      {metricFields.map((f) => (
+                        <div key={f.key} className="upload-field">
+                          <label className="upload-label">
+                            {f.label}
+                            {f.unit ? ` (${f.unit})` : ""}
+                            {f.isLimit && stepHasLimit && (
+                              <span className="upload-required"> *</span>
+                            )}
+                          </label>
+                          <input
+                            type={f.isLimit ? "number" : "text"}
+                            step="any"
+                            className="upload-control"
+                            value={metricValues[f.key] ?? ""}
+                            onChange={(e) =>
+                              setMetricValues((prev) => ({
+                                ...prev,
+                                [f.key]: e.target.value,
+                              }))
+                            }
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Result */}
                 <div className="upload-field">
                   <label className="upload-label">Result</label>
-                  <select
-                    className="upload-control"
-                    value={passed}
-                    onChange={(e) => setPassed(e.target.value as "PASS" | "FAIL")}
-                  >
-                    <option value="PASS">PASS</option>
-                    <option value="FAIL">FAIL</option>
-                  </select>
+                  {stepHasLimit ? (
+                    <>
+                      <div className="upload-control upload-verdict">
+                        Computed:{" "}
+                        <strong>{computedVerdict ?? "enter measured value"}</strong>
+                      </div>
+                      <label className="upload-override-toggle">
+                        <input
+                          type="checkbox"
+                          checked={overrideOn}
+                          onChange={(e) => {
+                            setOverrideOn(e.target.checked);
+                            if (e.target.checked && computedVerdict) {
+                              setOverrideVerdict(
+                                computedVerdict === "PASS" ? "FAIL" : "PASS"
+                              );
+                            }
+                          }}
+                        />
+                        Override verdict
+                      </label>
+                    </>
+                  ) : (
+                    <select
+                      className="upload-control"
+                      value={passed}
+                      onChange={(e) => setPassed(e.target.value as Verdict)}
+                    >
+                      <option value="PASS">PASS</option>
+                      <option value="FAIL">FAIL</option>
+                    </select>
+                  )}
                 </div>
 
+                {/* Override (justification required) */}
+                {stepHasLimit && overrideOn && (
+                  <div className="upload-field upload-field--full">
+                    <label className="upload-label">
+                      Override to{" "}
+                      <select
+                        value={overrideVerdict}
+                        onChange={(e) =>
+                          setOverrideVerdict(e.target.value as Verdict)
+                        }
+                      >
+                        <option value="PASS">PASS</option>
+                        <option value="FAIL">FAIL</option>
+                      </select>{" "}
+                      – justification <span className="upload-required">*</span>
+                    </label>
+                    <textarea
+                      className="upload-control"
+                      rows={2}
+                      value={overrideReason}
+                      onChange={(e) => setOverrideReason(e.target.value)}
+                      placeholder="Why does the verdict differ from the measured limit?"
+                    />
+                  </div>
+                )}
+
                 {/* Finished date */}
                 <div className="upload-field">
                   <label className="upload-label">
@@ -242,14 +416,18 @@ export default function UploadResultPage() {
                         ? sortedSteps.find((s) => s.id === Number(stepId))?.name ?? stepId
                         : "—"}
                     </span>
-                    <span>Result: {passed}</span>
+                    <span>Result: {finalVerdict ?? "—"}</span>
                     <span>Finished: {finishedAt || "—"}</span>
                   </div>
                 </div>
 
                 {/* Submit */}
                 <div className="upload-submit-row">
-                  <button type="submit" className="btn btn-primary" disabled={submitting}>
+                  <button
+                    type="submit"
+                    className="btn btn-primary"
+                    disabled={submitting || gatingNcrs.length > 0}
+                  >
                     {submitting ? "Submitting…" : "Submit result"}
                   </button>
                 </div>
@@ -279,17 +457,24 @@ export default function UploadResultPage() {
             </ol>
 
             <div className="upload-files-row">
-              <input type="file" multiple onChange={(e) => setFiles(e.target.files)} />
+              <input
+                key={fileInputKey}
+                type="file"
+                multiple
+                onChange={(e) => setFiles(e.target.files)}
+              />
               <button
                 type="button"
                 className="btn btn-secondary"
                 onClick={handleUploadFiles}
-                disabled={uploading || !resultId}
+                disabled={!resultId || !files || files.length === 0}
               >
-                {uploading ? "Uploading…" : "Upload files"}
+                Upload files
               </button>
             </div>
 
+            <EvidenceUploads resultId={resultId} />
+
             {!resultId && (
               <div style={{ fontSize: 11, color: "#6b7280", marginTop: "0.4rem" }}>
                 Result not yet created for this unit/step — submit result first.
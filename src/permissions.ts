@@ -0,0 +1,72 @@
+// src/permissions.ts
+import { getRole } from "./api";
+import type { Role } from "./api";
+
+export type Permission =
+  | "units:view"
+  | "units:create"
+  | "units:edit" // SKU, revision, lot, customer, priority, due date…
+  | "units:rename"
+  | "units:delete"
+  | "steps:mark_na"
+  | "steps:manage" // step catalog: add, reorder, edit, retire
+  | "results:submit"
+  | "evidence:delete"
+  | "remarks:edit"
+  | "reports:bulk_download" // traveller logs for many units at once
+  | "schedule:edit"
+  | "queue:work" // tester's own queue
+  | "queue:dispatch" // supervisor overview of all testers
+  | "ncr:raise" // open / work on a non-conformance
+  | "ncr:approve"; // sign off a disposition
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  supervisor: [
+    "units:view",
+    "units:create",
+    "units:edit",
+    "units:rename",
+    "units:delete",
+    "steps:mark_na",
+    "steps:manage",
+    "results:submit",
+    "evidence:delete",
+    "remarks:edit",
+    "reports:bulk_download",
+    "schedule:edit",
+    "queue:dispatch",
+    "ncr:raise",
+    "ncr:approve",
+  ],
+  tester: [
+    "units:view",
+    "results:submit",
+    "remarks:edit",
+    "queue:work",
+    "ncr:raise",
+  ],
+  viewer: ["units:view"],
+};
+
+export function can(role: Role | null | undefined, permission: Permission) {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+export class PermissionError extends Error {
+  permission: Permission;
+
+  constructor(permission: Permission) {
+    super("You do not have permission to perform this action.");
+    this.name = "PermissionError";
+    this.permission = permission;
+  }
+}
+
+/**
+ * Guard for mutation functions. Uses the role last confirmed by /auth/me
+ * (fetchCurrentUser keeps the cached role in sync with the server).
+ */
+export function assertCan(permission: Permission) {
+  if (!can(getRole(), permission)) throw new PermissionError(permission);
+}
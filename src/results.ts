@@ -0,0 +1,50 @@
+// src/results.ts
+import type { Result } from "./api";
+
+/* =========================================================
+   Attempt history
+   ---------------------------------------------------------
+   Units details return every result, so a step that was re-run after a
+   FAIL has several. Views show the latest attempt and can expand the rest.
+   ========================================================= */
+
+export interface Attempt {
+  attempt: number;
+  result: Result;
+}
+
+/** Results grouped per step, oldest attempt first. */
+export function attemptsByStep(results: Result[]): Map<number, Attempt[]> {
+  const byStep = new Map<number, Result[]>();
+  for (const r of results) {
+    const list = byStep.get(r.step_id);
+    if (list) list.push(r);
+    else byStep.set(r.step_id, [r]);
+  }
+
+  const out = new Map<number, Attempt[]>();
+  for (const [stepId, list] of byStep) {
+    const sorted = list.slice().sort((a, b) => {
+      if (a.attempt != null && b.attempt != null) return a.attempt - b.attempt;
+      return String(a.finished_at).localeCompare(String(b.finished_at));
+    });
+    out.set(
+      stepId,
+      sorted.map((result, i) => ({ attempt: result.attempt ?? i + 1, result }))
+    );
+  }
+  return out;
+}
+
+export function latestAttempt(attempts?: Attempt[]): Attempt | undefined {
+  return attempts?.[attempts.length - 1];
+}
+
+/** Latest attempt passed, but an earlier one failed. */
+export function passedAfterRetest(attempts?: Attempt[]): boolean {
+  if (!attempts || attempts.length < 2) return false;
+  return (
+    latestAttempt(attempts)!.result.passed &&
+    attempts.slice(0, -1).some((a) => !a.result.passed)
+  );
+}
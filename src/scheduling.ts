@@ -0,0 +1,517 @@
+// src/scheduling.ts
+import type { TestStep } from "./api";
+import { addDays, parseDateKey } from "./dates";
+
+/* =========================================================
+   Conflict detection
+   ========================================================= */
+
+// A scheduled row as currently shown in the Scheduler (saved or edited)
+export interface PlannedRow {
+  id: string;
+  unit_id: string;
+  step_id: number;
+  tester_id: string; // "" when unassigned, "group:<name>" for groups
+  start_date: string; // YYYY-MM-DD or ""
+  end_date: string;
+  status: string;
+  skipped?: boolean;
+  step_order?: number; // position in the unit's test plan; defaults to the step's order
+  prerequisites?: number[]; // step ids it waits for in the unit's plan; defaults to the step's
+}
+
+export type ConflictKind =
+  | "tester_overload"
+  | "unit_overlap"
+  | "predecessor"
+  | "weekend";
+
+export interface ScheduleConflict {
+  kind: ConflictKind;
+  severity: "error" | "warning";
+  assignmentIds: string[];
+  message: string;
+  unitIds: string[];
+}
+
+// How many concurrent steps one tester can run on a single day
+export const DEFAULT_TESTER_DAILY_CAPACITY = 2;
+
+// Rows that no longer occupy anyone's calendar
+function isActive(r: PlannedRow) {
+  return !r.skipped && r.status !== "PASS" && r.status !== "FAIL";
+}
+
+function datesOf(r: PlannedRow): { start: string; end: string } | null {
+  if (!r.start_date && !r.end_date) return null;
+  const start = r.start_date || r.end_date;
+  const end = r.end_date || r.start_date;
+  return { start, end };
+}
+
+export function isWeekend(dateKey: string): boolean {
+  const dow = parseDateKey(dateKey).getDay();
+  return dow === 0 || dow === 6;
+}
+
+function overlaps(
+  a: { start: string; end: string },
+  b: { start: string; end: string }
+) {
+  return a.start <= b.end && b.start <= a.end;
+}
+
+/**
+ * For each row of one unit, the rows it has to wait for. A prerequisite
+ * that is N/A is replaced by its own prerequisites; a step without declared
+ * prerequisites waits for the row before it, as in the linear flow.
+ */
+function prerequisiteRows(
+  list: PlannedRow[],
+  stepsById: Map<number, TestStep>,
+  orderOf: (r: PlannedRow) => number
+): Map<string, PlannedRow[]> {
+  const ordered = list.slice().sort((a, b) => orderOf(a) - orderOf(b));
+  const byStep = new Map(ordered.map((r) => [r.step_id, r]));
+
+  const direct = new Map<string, PlannedRow[]>();
+  ordered.forEach((r, i) => {
+    const ids = r.prerequisites ?? stepsById.get(r.step_id)?.prerequisites;
+    if (ids == null) {
+      direct.set(r.id, i > 0 ? [ordered[i - 1]] : []);
+      return;
+    }
+    direct.set(
+      r.id,
+      ids.flatMap((id) => {
+        const p = byStep.get(id);
+        return p && p !== r ? [p] : [];
+      })
+    );
+  });
+
+  const resolve = (r: PlannedRow, seen: Set<string>): PlannedRow[] =>
+    (direct.get(r.id) ?? []).flatMap((p) => {
+      if (seen.has(p.id)) return [];
+      seen.add(p.id);
+      return p.skipped ? resolve(p, seen) : [p];
+    });
+
+  return new Map(ordered.map((r) => [r.id, resolve(r, new Set([r.id]))]));
+}
+
+/**
+ * `list` reordered so every row comes after the rows it waits for; a step
+ * may depend on one further down the plan. Ties keep `list`'s order.
+ */
+function dependencyOrder(list: PlannedRow[], prereqs: Map<string, PlannedRow[]>): PlannedRow[] {
+  const out: PlannedRow[] = [];
+  const seen = new Set<string>();
+  const visit = (r: PlannedRow) => {
+    if (seen.has(r.id)) return; // also stops cycles: the catalog editor rejects these
+    seen.add(r.id);
+    (prereqs.get(r.id) ?? []).forEach(visit);
+    out.push(r);
+  };
+  list.forEach(visit);
+  return out;
+}
+
+/** Row ids each row waits for, directly or through other rows. */
+function upstreamRows(prereqs: Map<string, PlannedRow[]>): Map<string, Set<string>> {
+  const out = new Map<string, Set<string>>();
+  for (const id of prereqs.keys()) {
+    const seen = new Set<string>();
+    const stack = (prereqs.get(id) ?? []).map((p) => p.id);
+    while (stack.length > 0) {
+      const next = stack.pop()!;
+      if (seen.has(next) || next === id) continue;
+      seen.add(next);
+      stack.push(...(prereqs.get(next) ?? []).map((p) => p.id));
+    }
+    out.set(id, seen);
+  }
+  return out;
+}
+
+/**
+ * Cross-check a schedule for:
+ *  - testers with more than `capacity` steps on the same day
+ *  - steps starting before one of their prerequisites has ended
+ *  - steps of one unit that overlap a step they depend on further up the
+ *    graph (steps that don't depend on each other may run in parallel)
+ *  - steps starting or ending on a weekend
+ * Group assignments ("group:…") are not counted against individual testers.
+ */
+export function detectConflicts(
+  rows: PlannedRow[],
+  stepsById: Map<number, TestStep>,
+  capacity = DEFAULT_TESTER_DAILY_CAPACITY
+): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+  const stepName = (id: number) => stepsById.get(id)?.name ?? `Step ${id}`;
+  const orderOf = (r: PlannedRow) =>
+    r.step_order ?? stepsById.get(r.step_id)?.order ?? r.step_id;
+
+  const active = rows.filter(isActive);
+
+  // --- tester load per day ---
+  const load = new Map<string, Map<string, PlannedRow[]>>(); // tester -> day -> rows
+  for (const r of active) {
+    const d = datesOf(r);
+    if (!d || !r.tester_id || r.tester_id.startsWith("group:")) continue;
+    if (!load.has(r.tester_id)) load.set(r.tester_id, new Map());
+    const byDay = load.get(r.tester_id)!;
+    for (let day = d.start; day <= d.end; day = addDays(day, 1)) {
+      if (!byDay.has(day)) byDay.set(day, []);
+      byDay.get(day)!.push(r);
+    }
+  }
+
+  for (const [tester, byDay] of load) {
+    // merge consecutive over-allocated days with the same rows into one conflict
+    let run: { from: string; to: string; ids: string } | null = null;
+    const flush = () => {
+      if (!run) return;
+      const ids = run.ids.split(",");
+      const involved = active.filter((r) => ids.includes(r.id));
+      conflicts.push({
+        kind: "tester_overload",
+        severity: "error",
+        assignmentIds: ids,
+        unitIds: Array.from(new Set(involved.map((r) => r.unit_id))),
+        message:
+          `${tester} has ${ids.length} steps on ` +
+          (run.from === run.to ? run.from : `${run.from} → ${run.to}`) +
+          ` (capacity ${capacity}).`,
+      });
+      run = null;
+    };
+
+    for (const day of Array.from(byDay.keys()).sort()) {
+      const list = byDay.get(day)!;
+      if (list.length <= capacity) {
+        flush();
+        continue;
+      }
+      const ids = list.map((r) => r.id).sort().join(",");
+      if (run && run.ids === ids && addDays(run.to, 1) === day) {
+        run.to = day;
+      } else {
+        flush();
+        run = { from: day, to: day, ids };
+      }
+    }
+    flush();
+  }
+
+  // --- per unit: prerequisites + overlaps ---
+  const byUnit = new Map<string, PlannedRow[]>();
+  for (const r of rows) {
+    if (!byUnit.has(r.unit_id)) byUnit.set(r.unit_id, []);
+    byUnit.get(r.unit_id)!.push(r);
+  }
+
+  for (const [unitId, list] of byUnit) {
+    const prereqs = prerequisiteRows(list, stepsById, orderOf);
+    const upstream = upstreamRows(prereqs);
+    const ordered = list
+      .filter((r) => !r.skipped)
+      .sort((a, b) => orderOf(a) - orderOf(b));
+
+    for (const cur of ordered) {
+      const dc = datesOf(cur);
+      if (!dc || !isActive(cur)) continue;
+      for (const prev of prereqs.get(cur.id) ?? []) {
+        const dp = datesOf(prev);
+        if (!dp || dc.start > dp.end) continue;
+        conflicts.push({
+          kind: "predecessor",
+          severity: "error",
+          assignmentIds: [cur.id, prev.id],
+          unitIds: [unitId],
+          message: `${unitId}: "${stepName(cur.step_id)}" starts ${dc.start}, before "${stepName(
+            prev.step_id
+          )}" ends ${dp.end}.`,
+        });
+      }
+    }
+
+    // indirect dependencies only (direct ones are already prerequisite conflicts)
+    for (let i = 0; i < ordered.length; i++) {
+      for (let j = i + 1; j < ordered.length; j++) {
+        const a = ordered[i];
+        const b = ordered[j];
+        const dependent =
+          upstream.get(b.id)?.has(a.id) || upstream.get(a.id)?.has(b.id);
+        const direct =
+          prereqs.get(b.id)?.includes(a) || prereqs.get(a.id)?.includes(b);
+        if (!dependent || direct) continue;
+        const da = datesOf(a);
+        const db = datesOf(b);
+        if (!da || !db || !isActive(a) || !isActive(b)) continue;
+        if (overlaps(da, db)) {
+          conflicts.push({
+            kind: "unit_overlap",
+            severity: "warning",
+            assignmentIds: [a.id, b.id],
+            unitIds: [unitId],
+            message: `${unitId}: "${stepName(a.step_id)}" and "${stepName(
+              b.step_id
+            )}" overlap.`,
+          });
+        }
+      }
+    }
+  }
+
+  // --- weekend start / end ---
+  for (const r of active) {
+    const d = datesOf(r);
+    if (!d) continue;
+    const days = [d.start, d.end].filter(isWeekend);
+    if (days.length === 0) continue;
+    conflicts.push({
+      kind: "weekend",
+      severity: "warning",
+      assignmentIds: [r.id],
+      unitIds: [r.unit_id],
+      message: `${r.unit_id}: "${stepName(r.step_id)}" ${
+        d.start === days[0] ? "starts" : "ends"
+      } on a weekend (${days[0]}).`,
+    });
+  }
+
+  return conflicts;
+}
+
+/** Index conflicts by every assignment they involve. */
+export function conflictsByAssignment(
+  conflicts: ScheduleConflict[]
+): Map<string, ScheduleConflict[]> {
+  const m = new Map<string, ScheduleConflict[]>();
+  for (const c of conflicts) {
+    for (const id of c.assignmentIds) {
+      if (!m.has(id)) m.set(id, []);
+      m.get(id)!.push(c);
+    }
+  }
+  return m;
+}
+
+/* =========================================================
+   Auto-scheduling engine
+   ========================================================= */
+
+export interface SchedulingConfig {
+  // Working days per step, keyed by step id; missing steps use the default
+  durations: Record<number, number>;
+  defaultDuration: number;
+  // Days of week that count as working days (0 = Sunday … 6 = Saturday)
+  workingDays: number[];
+  holidays: string[]; // YYYY-MM-DD
+  // Dates a tester is not available (leave, training, …)
+  unavailable: Record<string, string[]>;
+  testerCapacity: number;
+}
+
+const SCHEDULING_CONFIG_KEY = "schedulerConfig";
+
+// Durations used before per-step durations were configurable
+const LEGACY_DURATIONS: Record<string, number> = { "Burn-in Test": 8 };
+
+export const DEFAULT_SCHEDULING_CONFIG: SchedulingConfig = {
+  durations: {},
+  defaultDuration: 1,
+  workingDays: [1, 2, 3, 4, 5],
+  holidays: [],
+  unavailable: {},
+  testerCapacity: DEFAULT_TESTER_DAILY_CAPACITY,
+};
+
+export function loadSchedulingConfig(): SchedulingConfig {
+  try {
+    const raw = localStorage.getItem(SCHEDULING_CONFIG_KEY);
+    if (!raw) return DEFAULT_SCHEDULING_CONFIG;
+    return { ...DEFAULT_SCHEDULING_CONFIG, ...JSON.parse(raw) };
+  } catch {
+    return DEFAULT_SCHEDULING_CONFIG;
+  }
+}
+
+export function saveSchedulingConfig(config: SchedulingConfig) {
+  localStorage.setItem(SCHEDULING_CONFIG_KEY, JSON.stringify(config));
+}
+
+export function stepDuration(step: TestStep | undefined, config: SchedulingConfig) {
+  if (!step) return config.defaultDuration;
+  return (
+    config.durations[step.id] ??
+    LEGACY_DURATIONS[step.name] ??
+    config.defaultDuration
+  );
+}
+
+export function isWorkingDay(dateKey: string, config: SchedulingConfig) {
+  const dow = parseDateKey(dateKey).getDay();
+  return config.workingDays.includes(dow) && !config.holidays.includes(dateKey);
+}
+
+// Never look further than this for a free slot
+const MAX_SEARCH_DAYS = 730;
+
+/** The date itself if it is a working day, otherwise the next one. */
+export function nextWorkingDay(dateKey: string, config: SchedulingConfig) {
+  if (config.workingDays.length === 0) return dateKey;
+  let d = dateKey;
+  for (let i = 0; i < MAX_SEARCH_DAYS && !isWorkingDay(d, config); i++) {
+    d = addDays(d, 1);
+  }
+  return d;
+}
+
+/**
+ * Working days covered by a step of `duration` working days that starts on
+ * `start` (which must itself be a working day).
+ */
+function workingSpan(start: string, duration: number, config: SchedulingConfig) {
+  const days = [start];
+  let d = start;
+  while (days.length < Math.max(1, duration)) {
+    d = nextWorkingDay(addDays(d, 1), config);
+    days.push(d);
+  }
+  return days;
+}
+
+export interface PlanChange {
+  id: string;
+  unit_id: string;
+  step_id: number;
+  tester_id: string;
+  before: { start_date: string; end_date: string };
+  after: { start_date: string; end_date: string };
+}
+
+export interface PlanOptions {
+  // Earliest date any step may start
+  startFrom: string;
+  // Keep rows that already have both dates and only plan the empty ones
+  onlyUnscheduled: boolean;
+  // Row ids to leave on their current dates (changes left out of the plan)
+  keep?: Set<string>;
+}
+
+/**
+ * Plan every step of the given units, each after the steps it waits for.
+ *
+ * Each step starts on the first working day after all of its prerequisites
+ * end (steps that don't depend on each other may run side by side) where
+ * its (individual) tester is available and below capacity for the whole
+ * duration. Finished (PASS/FAIL), skipped, RUNNING and kept rows are never
+ * moved but still push the steps that need them out. Rows of units not
+ * being planned count towards tester load as they are. `stepsOf` gives a
+ * unit's steps as of the test plan version it is pinned to.
+ */
+export function planUnits(
+  unitIds: string[],
+  rows: PlannedRow[],
+  stepsOf: (unitId: string) => Map<number, TestStep>,
+  config: SchedulingConfig,
+  options: PlanOptions
+): PlanChange[] {
+  const planned = new Set(unitIds);
+
+  // tester -> day -> booked steps
+  const load = new Map<string, Map<string, number>>();
+  const book = (tester: string, days: string[]) => {
+    if (!tester || tester.startsWith("group:")) return;
+    if (!load.has(tester)) load.set(tester, new Map());
+    const byDay = load.get(tester)!;
+    for (const d of days) byDay.set(d, (byDay.get(d) ?? 0) + 1);
+  };
+  const isFree = (tester: string, days: string[]) => {
+    if (!tester || tester.startsWith("group:")) return true;
+    const off = config.unavailable[tester] ?? [];
+    const byDay = load.get(tester);
+    return days.every(
+      (d) => !off.includes(d) && (byDay?.get(d) ?? 0) < config.testerCapacity
+    );
+  };
+  const bookRange = (r: PlannedRow) => {
+    const d = datesOf(r);
+    if (!d) return;
+    const days: string[] = [];
+    for (let day = d.start; day <= d.end; day = addDays(day, 1)) days.push(day);
+    book(r.tester_id, days);
+  };
+
+  const isFixed = (r: PlannedRow) =>
+    !isActive(r) ||
+    r.status === "RUNNING" ||
+    !!options.keep?.has(r.id) ||
+    (options.onlyUnscheduled && !!r.start_date && !!r.end_date);
+
+  // Existing bookings: other units, plus rows we are not allowed to move
+  for (const r of rows) {
+    if (!isActive(r)) continue;
+    if (!planned.has(r.unit_id) || isFixed(r)) bookRange(r);
+  }
+
+  const changes: PlanChange[] = [];
+
+  for (const unitId of unitIds) {
+    const stepsById = stepsOf(unitId);
+    const orderOf = (r: PlannedRow) =>
+      r.step_order ?? stepsById.get(r.step_id)?.order ?? r.step_id;
+    const unitRows = rows
+      .filter((r) => r.unit_id === unitId)
+      .sort((a, b) => orderOf(a) - orderOf(b));
+    const prereqs = prerequisiteRows(unitRows, stepsById, orderOf);
+    const endOf = new Map<string, string>(); // row id -> last day, once known
+    const lastPrerequisiteEnd = (r: PlannedRow) =>
+      (prereqs.get(r.id) ?? [])
+        .map((p) => endOf.get(p.id) ?? "")
+        .reduce((a, b) => (b > a ? b : a), "");
+
+    for (const r of dependencyOrder(unitRows, prereqs)) {
+      if (r.skipped) continue;
+
+      if (isFixed(r)) {
+        // Undated finished rows pass their prerequisites' end on
+        const end = datesOf(r)?.end ?? lastPrerequisiteEnd(r);
+        if (end) endOf.set(r.id, end);
+        continue;
+      }
+
+      const after = lastPrerequisiteEnd(r);
+      const cursor =
+        after && addDays(after, 1) > options.startFrom ? addDays(after, 1) : options.startFrom;
+
+      const duration = stepDuration(stepsById.get(r.step_id), config);
+      let start = nextWorkingDay(cursor, config);
+      let span = workingSpan(start, duration, config);
+      for (let i = 0; i < MAX_SEARCH_DAYS && !isFree(r.tester_id, span); i++) {
+        start = nextWorkingDay(addDays(start, 1), config);
+        span = workingSpan(start, duration, config);
+      }
+      const end = span[span.length - 1];
+
+      book(r.tester_id, span);
+      endOf.set(r.id, end);
+
+      if (start !== r.start_date || end !== r.end_date) {
+        changes.push({
+          id: r.id,
+          unit_id: r.unit_id,
+          step_id: r.step_id,
+          tester_id: r.tester_id,
+          before: { start_date: r.start_date, end_date: r.end_date },
+          after: { start_date: start, end_date: end },
+        });
+      }
+    }
+  }
+
+  return changes;
+}
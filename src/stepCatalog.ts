@@ -0,0 +1,140 @@
+// src/stepCatalog.ts
+import type { StepDraft, TestStep } from "./api";
+import { normalizeComp } from "./metrics";
+import type { LimitComp } from "./metrics";
+
+export const LIMIT_COMPS: LimitComp[] = ["<", "<=", ">", ">=", "==", "!="];
+
+/** A row in the catalog editor; text inputs are kept as typed until publish. */
+export interface EditableStep {
+  key: string; // stable across reorders, also for steps without an id yet
+  id: number | null;
+  name: string;
+  required: boolean;
+  metrics_hint: string;
+  limit_metric: string;
+  limit_comp: LimitComp | "";
+  limit_value: string;
+  retired: boolean; // existing step left out of the next version
+  prerequisites: string[] | null; // keys of rows it waits for; null: the row above
+}
+
+let nextKey = 0;
+
+export function toEditableSteps(steps: TestStep[]): EditableStep[] {
+  const ids = new Set(steps.map((s) => s.id));
+  return [...steps]
+    .sort((a, b) => a.order - b.order)
+    .map((s) => ({
+      key: `step-${s.id}`,
+      id: s.id,
+      name: s.name,
+      required: s.required,
+      metrics_hint: s.metrics_hint ?? "",
+      limit_metric: s.limit_metric ?? "",
+      limit_comp: normalizeComp(s.limit_comp) ?? "",
+      limit_value: s.limit_value != null ? String(s.limit_value) : "",
+      retired: false,
+      prerequisites:
+        s.prerequisites == null
+          ? null
+          : s.prerequisites.filter((id) => ids.has(id)).map((id) => `step-${id}`),
+    }));
+}
+
+export function newEditableStep(): EditableStep {
+  nextKey += 1;
+  return {
+    key: `new-${nextKey}`,
+    id: null,
+    name: "",
+    required: true,
+    metrics_hint: "",
+    limit_metric: "",
+    limit_comp: "",
+    limit_value: "",
+    retired: false,
+    prerequisites: null,
+  };
+}
+
+/** Move the row `fromKey` to where `toKey` is (drag and drop reordering). */
+export function moveStep<T extends { key: string }>(
+  list: T[],
+  fromKey: string,
+  toKey: string
+): T[] {
+  const from = list.findIndex((s) => s.key === fromKey);
+  const to = list.findIndex((s) => s.key === toKey);
+  if (from < 0 || to < 0 || from === to) return list;
+  const next = [...list];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/** Problems per row key; rows without problems are absent. */
+export function validateEditableSteps(list: EditableStep[]): Record<string, string[]> {
+  const errors: Record<string, string[]> = {};
+  const names = new Map<string, string>(); // lower-cased name -> first key
+  const byKey = new Map(list.map((s, i) => [s.key, { step: s, index: i }]));
+
+  list.forEach((s, index) => {
+    if (s.retired) return;
+    const rowErrors: string[] = [];
+    const name = s.name.trim();
+
+    if (!name) rowErrors.push("Name is required.");
+    else if (names.has(name.toLowerCase())) rowErrors.push(`"${name}" is used twice.`);
+    else names.set(name.toLowerCase(), s.key);
+
+    const limitParts = [s.limit_metric.trim(), s.limit_comp, s.limit_value.trim()];
+    if (limitParts.some(Boolean) && !limitParts.every(Boolean)) {
+      rowErrors.push("A limit needs a metric, comparison and value.");
+    }
+    if (s.limit_value.trim() && isNaN(Number(s.limit_value))) {
+      rowErrors.push("Limit value must be a number.");
+    }
+
+    // Prerequisites sit above the step, which also rules out cycles
+    for (const key of s.prerequisites ?? []) {
+      const p = byKey.get(key);
+      if (!p) continue;
+      const label = p.step.name.trim() || "an unnamed step";
+      if (p.step.retired) rowErrors.push(`Needs "${label}", which is being retired.`);
+      else if (p.index > index) rowErrors.push(`Needs "${label}", so it must come after it.`);
+    }
+
+    if (rowErrors.length > 0) errors[s.key] = rowErrors;
+  });
+
+  if (!list.some((s) => !s.retired)) {
+    errors[""] = ["A plan needs at least one step."];
+  }
+  return errors;
+}
+
+/** Payload for publishStepCatalog: active rows in display order. */
+export function toStepDrafts(list: EditableStep[]): StepDraft[] {
+  const clean = (v: string) => v.trim() || null;
+  const active = list.filter((s) => !s.retired);
+  const keys = new Set(active.map((s) => s.key));
+  return active.map((s) => ({
+    id: s.id,
+    name: s.name.trim(),
+    required: s.required,
+    metrics_hint: clean(s.metrics_hint),
+    limit_metric: clean(s.limit_metric),
+    limit_comp: s.limit_comp || null,
+    limit_value: s.limit_value.trim() ? Number(s.limit_value) : null,
+    ref: s.key,
+    prerequisites: s.prerequisites?.filter((k) => keys.has(k)) ?? null,
+  }));
+}
+
+/** True when the editor differs from the published steps. */
+export function isCatalogChanged(list: EditableStep[], published: TestStep[]): boolean {
+  const a = JSON.stringify(toStepDrafts(list));
+  const b = JSON.stringify(toStepDrafts(toEditableSteps(published)));
+  return a !== b;
+}
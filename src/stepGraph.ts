@@ -0,0 +1,144 @@
+// src/stepGraph.ts
+import type { Assignment, Result, TestStep } from "./api";
+
+/**
+ * Step ids each step waits for. A step without declared prerequisites
+ * follows the step before it (the original linear flow); ids that are not
+ * in `steps` are ignored.
+ */
+export function prerequisiteMap(steps: TestStep[]): Map<number, number[]> {
+  const ordered = steps.slice().sort((a, b) => a.order - b.order);
+  const ids = new Set(ordered.map((s) => s.id));
+  const m = new Map<number, number[]>();
+  ordered.forEach((s, i) => {
+    if (s.prerequisites == null) m.set(s.id, i > 0 ? [ordered[i - 1].id] : []);
+    else m.set(s.id, s.prerequisites.filter((id) => id !== s.id && ids.has(id)));
+  });
+  return m;
+}
+
+/**
+ * `included` (in run order) with prerequisites spelled out. A declared
+ * prerequisite that is not included is replaced by its own prerequisites,
+ * so leaving a step out of a plan does not drop the ordering around it.
+ */
+export function resolvePrerequisites(included: TestStep[], catalog: TestStep[]): TestStep[] {
+  const inPlan = new Set(included.map((s) => s.id));
+  const catalogPrereqs = prerequisiteMap(catalog);
+
+  const resolve = (ids: number[], seen: Set<number>): number[] =>
+    ids.flatMap((id) => {
+      if (seen.has(id)) return [];
+      seen.add(id);
+      return inPlan.has(id) ? [id] : resolve(catalogPrereqs.get(id) ?? [], seen);
+    });
+
+  return included.map((s, i) => ({
+    ...s,
+    prerequisites:
+      s.prerequisites == null
+        ? i > 0
+          ? [included[i - 1].id]
+          : []
+        : resolve(s.prerequisites, new Set([s.id])),
+  }));
+}
+
+/** Every step `stepId` waits for, directly or through other steps. */
+export function upstreamSteps(stepId: number, prereqs: Map<number, number[]>): Set<number> {
+  const out = new Set<number>();
+  const stack = [...(prereqs.get(stepId) ?? [])];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (out.has(id) || id === stepId) continue;
+    out.add(id);
+    stack.push(...(prereqs.get(id) ?? []));
+  }
+  return out;
+}
+
+/**
+ * Column of each step in the dependency graph: 0 for steps that wait for
+ * nothing, otherwise one past the furthest prerequisite.
+ */
+export function stepLevels(steps: TestStep[]): Map<number, number> {
+  const prereqs = prerequisiteMap(steps);
+  const levels = new Map<number, number>();
+  const visiting = new Set<number>();
+
+  const levelOf = (id: number): number => {
+    const known = levels.get(id);
+    if (known !== undefined) return known;
+    if (visiting.has(id)) return 0; // cycle: the catalog editor rejects these
+    visiting.add(id);
+    const level = Math.max(-1, ...(prereqs.get(id) ?? []).map(levelOf)) + 1;
+    visiting.delete(id);
+    levels.set(id, level);
+    return level;
+  };
+
+  steps.forEach((s) => levelOf(s.id));
+  return levels;
+}
+
+/* ---------- per-unit readiness ---------- */
+
+export type StepState = "passed" | "failed" | "skipped" | "running" | "ready" | "blocked";
+
+export const STEP_STATE_LABELS: Record<StepState, string> = {
+  passed: "Passed",
+  failed: "Failed",
+  skipped: "N/A",
+  running: "Running",
+  ready: "Ready",
+  blocked: "Blocked",
+};
+
+export interface StepStatus {
+  state: StepState;
+  reasons: string[]; // why a blocked step cannot start yet
+}
+
+/**
+ * Where each of a unit's steps stands. A step is ready once every
+ * prerequisite has passed or is N/A; `gates` adds other reasons to hold a
+ * step back (open NCRs, …).
+ */
+export function stepStatuses(
+  steps: TestStep[],
+  assignments: Assignment[],
+  latestResults: Map<number, Result>,
+  gates?: Map<number, string[]>
+): Map<number, StepStatus> {
+  const prereqs = prerequisiteMap(steps);
+  const byId = new Map(steps.map((s) => [s.id, s]));
+  const assignmentByStep = new Map(assignments.map((a) => [a.step_id, a]));
+
+  const doneState = (id: number): StepState | null => {
+    const a = assignmentByStep.get(id);
+    const r = latestResults.get(id);
+    if (a?.skipped) return "skipped";
+    if (a?.status === "PASS" || (r?.passed && a?.status !== "FAIL")) return "passed";
+    if (a?.status === "FAIL" || (r && !r.passed)) return "failed";
+    if (a?.status === "RUNNING") return "running";
+    return null;
+  };
+
+  const out = new Map<number, StepStatus>();
+  for (const s of steps) {
+    const done = doneState(s.id);
+    if (done) {
+      out.set(s.id, { state: done, reasons: [] });
+      continue;
+    }
+    const reasons = (prereqs.get(s.id) ?? []).flatMap((id) => {
+      const state = doneState(id);
+      if (state === "passed" || state === "skipped") return [];
+      const name = byId.get(id)?.name ?? `Step ${id}`;
+      return [state === "failed" ? `"${name}" failed` : `Waiting for "${name}"`];
+    });
+    reasons.push(...(gates?.get(s.id) ?? []));
+    out.set(s.id, { state: reasons.length > 0 ? "blocked" : "ready", reasons });
+  }
+  return out;
+}
@@ -0,0 +1,233 @@
+// src/testPlans.ts
+import type { TestPlan, TestPlanStep, TestStep } from "./api";
+import { normalizeComp } from "./metrics";
+import type { LimitComp } from "./metrics";
+import { resolvePrerequisites } from "./stepGraph";
+
+/**
+ * Plan a new unit with this SKU / revision gets: a plan for the exact
+ * revision wins over one for any revision of the SKU.
+ */
+export function matchTestPlan(
+  plans: TestPlan[] | undefined,
+  sku?: string | null,
+  rev?: string | null
+): TestPlan | null {
+  const s = sku?.trim().toLowerCase();
+  if (!plans || !s) return null;
+  const r = rev?.trim().toLowerCase() || null;
+  const forSku = plans.filter((p) => p.sku?.toLowerCase() === s);
+  return (
+    (r && forSku.find((p) => p.rev?.toLowerCase() === r)) ||
+    forSku.find((p) => !p.rev) ||
+    null
+  );
+}
+
+export function testPlanLabel(plan: TestPlan): string {
+  if (!plan.sku) return plan.name;
+  return `${plan.name} (${plan.sku}${plan.rev ? ` rev ${plan.rev}` : ""})`;
+}
+
+/**
+ * The steps a plan runs, renumbered in plan order and carrying the plan's
+ * limits and its own prerequisites. Without a plan, every step in catalog
+ * order.
+ */
+export function planSteps(plan: TestPlan | null | undefined, steps: TestStep[]): TestStep[] {
+  if (!plan) {
+    return resolvePrerequisites(
+      steps.slice().sort((a, b) => a.order - b.order),
+      steps
+    );
+  }
+
+  const byId = new Map(steps.map((s) => [s.id, s]));
+  const included = plan.steps
+    .slice()
+    .sort((a, b) => a.order - b.order)
+    .flatMap((ps) => {
+      const step = byId.get(ps.step_id);
+      return step ? [{ ...step, ...definedLimits(ps) }] : []; // retired since
+    })
+    .map((s, i) => ({ ...s, order: i + 1 }));
+  return resolvePrerequisites(included, steps);
+}
+
+function definedLimits(ps: TestPlan["steps"][number]): Partial<TestStep> {
+  const out: Partial<TestStep> = {};
+  if (ps.required !== undefined) out.required = ps.required;
+  if (ps.limit_metric !== undefined) out.limit_metric = ps.limit_metric;
+  if (ps.limit_comp !== undefined) out.limit_comp = ps.limit_comp;
+  if (ps.limit_value !== undefined) out.limit_value = ps.limit_value;
+  return out;
+}
+
+/** What a unit records about the plan and catalog it started on. */
+export interface PlanPin {
+  plan_version?: number | null;
+  test_plan_id?: string | null;
+  test_plan_version?: number | null;
+}
+
+export type PinnedUnit = PlanPin & { unit_id: string };
+
+export function planVersionKey(id: string, version: number | null | undefined) {
+  return `${id}@${version ?? ""}`;
+}
+
+/**
+ * Plan versions units are pinned to that the current plan list cannot
+ * supply (the plan was edited after they started).
+ */
+export function pinnedPlanKeys(
+  units: PlanPin[],
+  plans: TestPlan[] | undefined
+): { id: string; version: number }[] {
+  if (!plans) return [];
+  const current = new Map(plans.map((p) => [p.id, p.version]));
+  const out = new Map<string, { id: string; version: number }>();
+  for (const u of units) {
+    const id = u.test_plan_id;
+    const version = u.test_plan_version;
+    if (!id || version == null) continue;
+    const latest = current.get(id);
+    if (latest == null || latest === version) continue;
+    out.set(planVersionKey(id, version), { id, version });
+  }
+  return Array.from(out.values());
+}
+
+/**
+ * The plan a unit runs, at the version it started on. Null: the unit has no
+ * plan; undefined: still loading.
+ */
+export function unitPlan(
+  unit: PlanPin,
+  plans: TestPlan[] | undefined,
+  pinned: Map<string, TestPlan>
+): TestPlan | null | undefined {
+  if (!unit.test_plan_id) return null;
+  if (!plans) return undefined;
+  const current = plans.find((p) => p.id === unit.test_plan_id);
+  const version = unit.test_plan_version;
+  if (version == null || current?.version == null || current.version === version) {
+    return current ?? null; // units from before plans were versioned
+  }
+  return pinned.get(planVersionKey(unit.test_plan_id, version));
+}
+
+/**
+ * Steps per unit for pages that show many units at once. Units whose plan or
+ * catalog version is still loading are left out.
+ */
+export function stepsByUnit(
+  units: PinnedUnit[],
+  planOf: (unit: PinnedUnit) => TestPlan | null | undefined,
+  catalogOf: (unit: PinnedUnit) => TestStep[] | undefined
+): Map<string, TestStep[]> {
+  const cache = new Map<string, TestStep[]>(); // catalog version + plan version -> steps
+  const out = new Map<string, TestStep[]>();
+  for (const u of units) {
+    const plan = planOf(u);
+    const catalog = catalogOf(u);
+    if (plan === undefined || !catalog) continue;
+    const key = `${u.plan_version ?? ""}|${plan ? planVersionKey(plan.id, plan.version) : ""}`;
+    if (!cache.has(key)) cache.set(key, planSteps(plan, catalog));
+    out.set(u.unit_id, cache.get(key)!);
+  }
+  return out;
+}
+
+/* ---------- plan editor ---------- */
+
+/** A catalog step in the plan editor; blank limit fields inherit the catalog's. */
+export interface PlanEditorRow {
+  key: string;
+  step: TestStep;
+  included: boolean;
+  required: boolean;
+  limit_metric: string;
+  limit_comp: LimitComp | "";
+  limit_value: string;
+}
+
+/** The plan's steps in plan order, then the rest of the catalog (not included). */
+export function toPlanEditorRows(plan: TestPlan | null, steps: TestStep[]): PlanEditorRow[] {
+  const byId = new Map(steps.map((s) => [s.id, s]));
+  const inPlan = (plan?.steps ?? [])
+    .slice()
+    .sort((a, b) => a.order - b.order)
+    .filter((ps) => byId.has(ps.step_id));
+  const planIds = new Set(inPlan.map((ps) => ps.step_id));
+
+  const row = (step: TestStep, ps?: TestPlanStep): PlanEditorRow => ({
+    key: `plan-step-${step.id}`,
+    step,
+    included: !!ps,
+    required: ps?.required ?? step.required,
+    limit_metric: ps?.limit_metric ?? "",
+    limit_comp: normalizeComp(ps?.limit_comp) ?? "",
+    limit_value: ps?.limit_value != null ? String(ps.limit_value) : "",
+  });
+
+  return [
+    ...inPlan.map((ps) => row(byId.get(ps.step_id)!, ps)),
+    ...steps
+      .filter((s) => !planIds.has(s.id))
+      .sort((a, b) => a.order - b.order)
+      .map((s) => row(s)),
+  ];
+}
+
+export function validatePlanEditor(
+  name: string,
+  sku: string,
+  rev: string,
+  rows: PlanEditorRow[]
+): string[] {
+  const errors: string[] = [];
+  if (!name.trim()) errors.push("Give the plan a name.");
+  if (rev.trim() && !sku.trim()) errors.push("A revision needs a SKU.");
+  const included = rows.filter((r) => r.included);
+  if (included.length === 0) errors.push("Pick at least one step.");
+
+  const resolved = resolvePrerequisites(
+    included.map((r) => r.step),
+    rows.map((r) => r.step)
+  );
+  const position = new Map(resolved.map((s, i) => [s.id, i]));
+  resolved.forEach((s, i) => {
+    for (const id of s.prerequisites ?? []) {
+      if (position.get(id)! > i) {
+        const needed = rows.find((r) => r.step.id === id)!.step.name;
+        errors.push(`${s.name} needs ${needed}, so it must come after it.`);
+      }
+    }
+  });
+
+  for (const r of included) {
+    const parts = [r.limit_metric.trim(), r.limit_comp, r.limit_value.trim()];
+    if (parts.some(Boolean) && !parts.every(Boolean)) {
+      errors.push(`${r.step.name}: a limit needs a metric, comparison and value.`);
+    } else if (r.limit_value.trim() && isNaN(Number(r.limit_value))) {
+      errors.push(`${r.step.name}: limit value must be a number.`);
+    }
+  }
+  return errors;
+}
+
+/** Included rows as plan steps; limits are only sent when overridden. */
+export function toTestPlanSteps(rows: PlanEditorRow[]): TestPlanStep[] {
+  return rows
+    .filter((r) => r.included)
+    .map((r, i) => {
+      const ps: TestPlanStep = { step_id: r.step.id, order: i + 1, required: r.required };
+      if (r.limit_metric.trim()) {
+        ps.limit_metric = r.limit_metric.trim();
+        ps.limit_comp = r.limit_comp || null;
+        ps.limit_value = Number(r.limit_value);
+      }
+      return ps;
+    });
+}
@@ -0,0 +1,319 @@
+// src/units.ts
+import type { UnitFields, UnitPriority, UnitSummary } from "./api";
+import { addDays, todayKey } from "./dates";
+
+export const PRIORITIES: UnitPriority[] = ["LOW", "NORMAL", "HIGH", "URGENT"];
+
+export const PRIORITY_LABELS: Record<UnitPriority, string> = {
+  LOW: "Low",
+  NORMAL: "Normal",
+  HIGH: "High",
+  URGENT: "Urgent",
+};
+
+/* ---------- create / edit form ---------- */
+
+export const UNIT_ID_MAX_LENGTH = 64;
+const FIELD_MAX_LENGTH = 64;
+const CUSTOMER_MAX_LENGTH = 120;
+
+// Unit IDs end up in URLs, file names and ZIP entries
+const ILLEGAL_ID_CHARS = /[\\/:*?"<>|]/;
+
+export interface UnitFormValues {
+  unit_id: string;
+  sku: string;
+  rev: string;
+  lot: string;
+  serial: string;
+  customer: string;
+  priority: UnitPriority | "";
+  due_date: string;
+}
+
+export type UnitFormErrors = Partial<Record<keyof UnitFormValues, string>>;
+
+export const EMPTY_UNIT_FORM: UnitFormValues = {
+  unit_id: "",
+  sku: "",
+  rev: "",
+  lot: "",
+  serial: "",
+  customer: "",
+  priority: "",
+  due_date: "",
+};
+
+/** Problem with a unit ID, or null. `existingIds` is checked case-insensitively. */
+export function validateUnitId(id: string, existingIds?: Iterable<string>): string | null {
+  const trimmed = id.trim();
+  if (!trimmed) return "Unit ID is required.";
+  if (trimmed.length > UNIT_ID_MAX_LENGTH) {
+    return `Unit ID must be at most ${UNIT_ID_MAX_LENGTH} characters.`;
+  }
+  const bad = trimmed.match(ILLEGAL_ID_CHARS);
+  if (bad) return `Unit ID cannot contain "${bad[0]}".`;
+  if ([...trimmed].some((c) => c.charCodeAt(0) < 32)) {
+    return "Unit ID cannot contain control characters.";
+  }
+  if (existingIds) {
+    const key = trimmed.toLowerCase();
+    for (const existing of existingIds) {
+      if (existing.toLowerCase() === key) return `Unit "${existing}" already exists.`;
+    }
+  }
+  return null;
+}
+
+export function validateUnitForm(
+  values: UnitFormValues,
+  options: { isNew: boolean; existingIds?: Iterable<string> }
+): UnitFormErrors {
+  const errors: UnitFormErrors = {};
+
+  if (options.isNew) {
+    const idError = validateUnitId(values.unit_id, options.existingIds);
+    if (idError) errors.unit_id = idError;
+  }
+
+  for (const key of ["sku", "rev", "lot", "serial"] as const) {
+    if (values[key].trim().length > FIELD_MAX_LENGTH) {
+      errors[key] = `At most ${FIELD_MAX_LENGTH} characters.`;
+    }
+  }
+  if (values.customer.trim().length > CUSTOMER_MAX_LENGTH) {
+    errors.customer = `At most ${CUSTOMER_MAX_LENGTH} characters.`;
+  }
+  if (values.rev.trim() && !values.sku.trim()) {
+    errors.sku = "A revision needs a SKU.";
+  }
+  if (values.due_date && !/^\d{4}-\d{2}-\d{2}$/.test(values.due_date)) {
+    errors.due_date = "Use YYYY-MM-DD.";
+  }
+
+  return errors;
+}
+
+/** Trimmed fields for the API; blanks are sent as null to clear them. */
+export function formValuesToFields(values: UnitFormValues): UnitFields {
+  const clean = (v: string) => v.trim() || null;
+  return {
+    sku: clean(values.sku),
+    rev: clean(values.rev),
+    lot: clean(values.lot),
+    serial: clean(values.serial),
+    customer: clean(values.customer),
+    priority: values.priority || null,
+    due_date: values.due_date || null,
+  };
+}
+
+export function unitToFormValues(unitId: string, unit: UnitFields): UnitFormValues {
+  return {
+    unit_id: unitId,
+    sku: unit.sku ?? "",
+    rev: unit.rev ?? "",
+    lot: unit.lot ?? "",
+    serial: unit.serial ?? "",
+    customer: unit.customer ?? "",
+    priority: unit.priority ?? "",
+    due_date: unit.due_date ? unit.due_date.slice(0, 10) : "",
+  };
+}
+
+/* ---------- bulk import ---------- */
+
+export const MAX_IMPORT_ROWS = 500;
+
+// Header spellings accepted per field, compared after normalizeHeader
+const IMPORT_HEADERS: Record<keyof UnitFormValues, string[]> = {
+  unit_id: ["unitid", "unit", "id"],
+  sku: ["sku", "partnumber", "pn"],
+  rev: ["rev", "revision"],
+  lot: ["lot", "lotnumber", "batch"],
+  serial: ["serial", "serialnumber", "sn"],
+  customer: ["customer"],
+  priority: ["priority"],
+  due_date: ["duedate", "due"],
+};
+
+const FIELD_LABELS: Record<keyof UnitFormValues, string> = {
+  unit_id: "Unit ID",
+  sku: "SKU",
+  rev: "Revision",
+  lot: "Lot",
+  serial: "Serial",
+  customer: "Customer",
+  priority: "Priority",
+  due_date: "Due date",
+};
+
+export interface ImportRow {
+  line: number; // 1-based row in the file, header included
+  values: UnitFormValues;
+  errors: string[];
+}
+
+export interface ImportSheet {
+  rows: ImportRow[];
+  ignoredColumns: string[];
+  truncated: boolean;
+  error: string | null; // the file as a whole is unusable
+}
+
+function normalizeHeader(h: string) {
+  return h.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function parseImportPriority(raw: string): UnitPriority | "" | null {
+  const v = raw.trim().toUpperCase();
+  if (!v) return "";
+  return PRIORITIES.find((p) => p === v) ?? null;
+}
+
+// Spreadsheets hand back dates as 2025-03-01, 2025/03/01 or a full ISO timestamp
+function parseImportDate(raw: string): string {
+  const v = raw.trim();
+  const m = v.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T ].*)?$/);
+  if (!m) return v;
+  return `${m[1]}-${m[2].padStart(2, "0")}-${m[3].padStart(2, "0")}`;
+}
+
+/**
+ * Turn raw sheet cells (first row = headers) into validated unit rows.
+ * Duplicates are flagged against `existingIds` and against earlier rows of the same file.
+ */
+export function readImportSheet(sheet: string[][], existingIds: string[]): ImportSheet {
+  const nonBlank = sheet
+    .map((cells, i) => ({ line: i + 1, cells }))
+    .filter((r) => r.cells.some((c) => c.trim() !== ""));
+  const empty: ImportSheet = { rows: [], ignoredColumns: [], truncated: false, error: null };
+
+  if (nonBlank.length === 0) return { ...empty, error: "The file is empty." };
+
+  const [header, ...body] = nonBlank;
+  const columns = header.cells.map((h) => {
+    const norm = normalizeHeader(h);
+    const key = (Object.keys(IMPORT_HEADERS) as (keyof UnitFormValues)[]).find((k) =>
+      IMPORT_HEADERS[k].includes(norm)
+    );
+    return { title: h.trim(), key };
+  });
+
+  if (!columns.some((c) => c.key === "unit_id")) {
+    return { ...empty, error: 'No "Unit ID" column found in the first row.' };
+  }
+
+  const seen = new Map<string, number>(); // lower-cased ID -> first line
+  const rows = body.slice(0, MAX_IMPORT_ROWS).map(({ line, cells }): ImportRow => {
+    const values: UnitFormValues = { ...EMPTY_UNIT_FORM };
+    const errors: string[] = [];
+
+    columns.forEach((col, i) => {
+      if (!col.key) return;
+      const raw = (cells[i] ?? "").trim();
+      if (col.key === "priority") {
+        const priority = parseImportPriority(raw);
+        if (priority === null) errors.push(`Priority "${raw}" is not one of ${PRIORITIES.join(", ")}.`);
+        else values.priority = priority;
+      } else if (col.key === "due_date") {
+        values.due_date = parseImportDate(raw);
+      } else {
+        values[col.key] = raw;
+      }
+    });
+
+    const found = validateUnitForm(values, { isNew: true, existingIds });
+    for (const [key, message] of Object.entries(found) as [keyof UnitFormValues, string][]) {
+      errors.push(key === "unit_id" ? message : `${FIELD_LABELS[key]}: ${message}`);
+    }
+
+    const idKey = values.unit_id.toLowerCase();
+    if (idKey) {
+      const firstLine = seen.get(idKey);
+      if (firstLine != null) errors.push(`Duplicate of row ${firstLine} in this file.`);
+      else seen.set(idKey, line);
+    }
+
+    return { line, values, errors };
+  });
+
+  return {
+    rows,
+    ignoredColumns: columns.filter((c) => !c.key && c.title).map((c) => c.title),
+    truncated: body.length > MAX_IMPORT_ROWS,
+    error: null,
+  };
+}
+
+/* ---------- filters (Units dashboard, Matrix View) ---------- */
+
+export type DueFilter = "" | "overdue" | "week" | "none";
+
+export interface UnitFilters {
+  search: string; // unit ID, lot or serial
+  sku: string;
+  rev: string;
+  customer: string;
+  priority: UnitPriority | "";
+  due: DueFilter;
+}
+
+export const EMPTY_UNIT_FILTERS: UnitFilters = {
+  search: "",
+  sku: "",
+  rev: "",
+  customer: "",
+  priority: "",
+  due: "",
+};
+
+export function isUnitOverdue(unit: UnitSummary, today = todayKey()): boolean {
+  return !!unit.due_date && unit.due_date.slice(0, 10) < today && unit.status !== "COMPLETED";
+}
+
+export function hasActiveFilters(f: UnitFilters) {
+  return Object.values(f).some((v) => v !== "");
+}
+
+export function matchesUnitFilters(
+  unit: UnitSummary,
+  f: UnitFilters,
+  today = todayKey()
+): boolean {
+  if (f.search) {
+    const q = f.search.trim().toLowerCase();
+    const haystack = [unit.unit_id, unit.lot, unit.serial]
+      .filter(Boolean)
+      .map((s) => s!.toLowerCase());
+    if (!haystack.some((s) => s.includes(q))) return false;
+  }
+  if (f.sku && unit.sku !== f.sku) return false;
+  if (f.rev && unit.rev !== f.rev) return false;
+  if (f.customer && unit.customer !== f.customer) return false;
+  if (f.priority && unit.priority !== f.priority) return false;
+
+  const due = unit.due_date?.slice(0, 10) ?? "";
+  switch (f.due) {
+    case "overdue":
+      return isUnitOverdue(unit, today);
+    case "week":
+      return !!due && due >= today && due <= addDays(today, 7);
+    case "none":
+      return !due;
+  }
+  return true;
+}
+
+/** Sorted distinct non-empty values of a field, for filter dropdowns. */
+export function distinctUnitValues(
+  units: UnitSummary[],
+  key: "sku" | "rev" | "customer"
+): string[] {
+  const set = new Set<string>();
+  for (const u of units) {
+    const v = u[key];
+    if (v) set.add(v);
+  }
+  return Array.from(set).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
@@ -0,0 +1,274 @@
+// src/uploads.ts
+import {
+  ApiError,
+  cancelUploadSession,
+  completeUploadSession,
+  getErrorMessage,
+  getUploadSession,
+  startUploadSession,
+  uploadChunk,
+} from "./api";
+
+/* =========================================================
+   Resumable evidence uploads
+   ---------------------------------------------------------
+   Files are sent in chunks through an upload session on the server. Task
+   metadata (incl. the session id) is kept in localStorage keyed by
+   result_id; after a reload the browser no longer has the File, so the
+   tester re-selects it and the upload continues from the server's
+   confirmed offset.
+   ========================================================= */
+
+const STORAGE_KEY = "evidenceUploads:v1";
+const CHUNK_SIZE = 5 * 1024 * 1024; // 5 MB
+const MAX_CONCURRENT = 3;
+const MAX_RETRIES = 5;
+const RETRY_BASE_MS = 1000;
+
+export type UploadStatus =
+  | "queued"
+  | "uploading"
+  | "retrying"
+  | "paused"
+  | "needs-file" // page was reloaded; the file must be chosen again
+  | "done"
+  | "error"
+  | "cancelled";
+
+export interface UploadTask {
+  id: string;
+  unitId: string;
+  stepId: number;
+  resultId: string;
+  fileName: string;
+  size: number;
+  lastModified: number;
+  uploadId: string | null;
+  received: number;
+  status: UploadStatus;
+  attempt: number;
+  error?: string;
+}
+
+let tasks: UploadTask[] = loadTasks();
+const listeners = new Set<() => void>();
+
+// In-memory only: File objects and in-flight requests
+const files = new Map<string, File>();
+const controllers = new Map<string, AbortController>();
+
+function loadTasks(): UploadTask[] {
+  try {
+    const saved: UploadTask[] = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    // nothing is in flight after a reload
+    return saved.map((t) =>
+      t.status === "done" || t.status === "cancelled" || t.status === "error"
+        ? t
+        : { ...t, status: "needs-file" }
+    );
+  } catch {
+    return [];
+  }
+}
+
+function setTasks(next: UploadTask[]) {
+  tasks = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  listeners.forEach((l) => l());
+}
+
+function updateTask(id: string, patch: Partial<UploadTask>) {
+  setTasks(tasks.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+}
+
+function getTask(id: string) {
+  return tasks.find((t) => t.id === id);
+}
+
+export function getUploadTasks(): UploadTask[] {
+  return tasks;
+}
+
+export function subscribeUploadTasks(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  if (n < 1024 * 1024 * 1024) return `${(n / 1024 / 1024).toFixed(1)} MB`;
+  return `${(n / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+/* ---------- public actions ---------- */
+
+export function addUploads(
+  ctx: { unitId: string; stepId: number; resultId: string },
+  fileList: File[]
+) {
+  const added: UploadTask[] = fileList.map((f) => {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    files.set(id, f);
+    return {
+      id,
+      ...ctx,
+      fileName: f.name,
+      size: f.size,
+      lastModified: f.lastModified,
+      uploadId: null,
+      received: 0,
+      status: "queued",
+      attempt: 0,
+    };
+  });
+  setTasks([...tasks, ...added]);
+  pump();
+}
+
+export function pauseUpload(id: string) {
+  const t = getTask(id);
+  if (!t || !["queued", "uploading", "retrying"].includes(t.status)) return;
+  updateTask(id, { status: "paused" });
+  controllers.get(id)?.abort();
+}
+
+export function resumeUpload(id: string) {
+  const t = getTask(id);
+  if (!t || !files.has(id)) return;
+  if (t.status !== "paused" && t.status !== "error") return;
+  updateTask(id, { status: "queued", attempt: 0, error: undefined });
+  pump();
+}
+
+export function cancelUpload(id: string) {
+  const t = getTask(id);
+  if (!t) return;
+  controllers.get(id)?.abort();
+  files.delete(id);
+  updateTask(id, { status: "cancelled" });
+  if (t.uploadId) cancelUploadSession(t.uploadId).catch(() => {});
+  pump();
+}
+
+/**
+ * Re-attach files after a reload. Matches on name, size and modified time;
+ * returns how many unfinished uploads were picked up again.
+ */
+export function reattachFiles(fileList: File[]): number {
+  let matched = 0;
+  for (const t of tasks) {
+    if (t.status !== "needs-file") continue;
+    const f = fileList.find(
+      (x) => x.name === t.fileName && x.size === t.size && x.lastModified === t.lastModified
+    );
+    if (!f) continue;
+    files.set(t.id, f);
+    updateTask(t.id, { status: "queued", attempt: 0, error: undefined });
+    matched += 1;
+  }
+  pump();
+  return matched;
+}
+
+/** Forget finished/cancelled tasks (optionally just one result's). */
+export function clearFinishedUploads(resultId?: string) {
+  setTasks(
+    tasks.filter(
+      (t) =>
+        (resultId && t.resultId !== resultId) ||
+        !(t.status === "done" || t.status === "cancelled")
+    )
+  );
+}
+
+/* ---------- scheduler ---------- */
+
+function pump() {
+  let active = tasks.filter((t) => t.status === "uploading" || t.status === "retrying").length;
+  for (const t of tasks) {
+    if (active >= MAX_CONCURRENT) break;
+    if (t.status !== "queued" || !files.has(t.id)) continue;
+    active += 1;
+    updateTask(t.id, { status: "uploading" });
+    run(t.id);
+  }
+}
+
+function isRetryable(err: unknown) {
+  return err instanceof ApiError && (err.status === 0 || err.status === 429 || err.status >= 500);
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function run(id: string) {
+  const file = files.get(id);
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  // A pause + resume starts a new run; the old one must stop writing
+  const isCurrent = () => controllers.get(id) === controller;
+
+  try {
+    let t = getTask(id);
+    if (!t || !file) return;
+
+    // Start a session, or ask the server how far an existing one got
+    if (!t.uploadId) {
+      const session = await startUploadSession(
+        {
+          unit_id: t.unitId,
+          step_id: t.stepId,
+          result_id: t.resultId,
+          filename: t.fileName,
+          size: t.size,
+          content_type: file.type || "application/octet-stream",
+          chunk_size: CHUNK_SIZE,
+        },
+        controller.signal
+      );
+      if (!isCurrent()) return;
+      updateTask(id, { uploadId: session.upload_id, received: session.received_bytes });
+    } else {
+      const session = await getUploadSession(t.uploadId, controller.signal);
+      if (!isCurrent()) return;
+      updateTask(id, { received: session.received_bytes });
+    }
+
+    t = getTask(id)!;
+    while (t.received < t.size) {
+      if (!isCurrent() || t.status !== "uploading") return; // paused / cancelled
+      const chunk = file.slice(t.received, t.received + CHUNK_SIZE);
+      const res = await uploadChunk(t.uploadId!, t.received, chunk, t.size, controller.signal);
+      if (!isCurrent()) return;
+      // status is left alone: a pause may have landed while the chunk was in flight
+      updateTask(id, { received: res.received_bytes, attempt: 0 });
+      t = getTask(id)!;
+    }
+
+    if (!isCurrent() || t.status !== "uploading") return;
+    await completeUploadSession(t.uploadId!);
+    if (!isCurrent()) return;
+    files.delete(id);
+    updateTask(id, { status: "done" });
+  } catch (err) {
+    const t = getTask(id);
+    if (!isCurrent() || !t || t.status === "paused" || t.status === "cancelled") return;
+    if (err instanceof DOMException && err.name === "AbortError") return;
+
+    if (isRetryable(err) && t.attempt < MAX_RETRIES) {
+      const attempt = t.attempt + 1;
+      updateTask(id, { status: "retrying", attempt, error: getErrorMessage(err) });
+      await sleep(RETRY_BASE_MS * 2 ** (attempt - 1));
+      if (!isCurrent() || getTask(id)?.status !== "retrying") return;
+      updateTask(id, { status: "uploading" });
+      controllers.delete(id);
+      return run(id);
+    }
+    updateTask(id, { status: "error", error: getErrorMessage(err) });
+  } finally {
+    if (controllers.get(id) === controller) controllers.delete(id);
+    pump();
+  }
+}